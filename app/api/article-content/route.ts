@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { extractPageMetadata } from '@/lib/page-metadata';
+import { clientKey, createRateLimiter } from '@/lib/rate-limit';
+import { MAX_PAGE_BYTES, safeFetchHtml, type SafeFetchFailureKind } from '@/lib/safe-fetch';
+
+// Downloads a page for offline reading, through the same SSRF-safe fetch as the metadata
+// route. Markup that can never be article content is dropped here to keep the response
+// small; picking the main content and sanitizing it with DOMPurify needs a DOM, so that
+// runs in the browser before anything is stored.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_URL_LENGTH = 2048;
+
+// Whole pages are heavier than metadata lookups, so callers get fewer of them
+const limiter = createRateLimiter({ limit: 10, windowMs: 60 * 1000 });
+
+const FAILURE_STATUS: Record<SafeFetchFailureKind, number> = {
+  'invalid-url': 400,
+  'blocked-address': 403,
+  'too-many-redirects': 502,
+  timeout: 504,
+  'not-html': 422,
+  'upstream-error': 502
+};
+
+function errorResponse(error: string, status: number, headers?: HeadersInit) {
+  return NextResponse.json({ error }, { status, headers: { 'cache-control': 'no-store', ...headers } });
+}
+
+// The <body> without comments, scripts, styles and embedded documents
+function trimPageHtml(html: string): string {
+  const body = /<body\b[^>]*>([\s\S]*?)(?:<\/body\s*>|$)/i.exec(html)?.[1] ?? html;
+  return body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|iframe|object)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<(?:script|style|link|meta|base|iframe|embed)\b[^>]*>/gi, '');
+}
+
+export async function POST(request: NextRequest) {
+  // Browsers mark requests from other sites; those can't use this route as a proxy
+  if (request.headers.get('sec-fetch-site') === 'cross-site') {
+    return errorResponse('Cross-site requests are not allowed', 403);
+  }
+
+  const limit = limiter.check(clientKey(request.headers));
+  if (!limit.allowed) {
+    return errorResponse('Too many requests', 429, { 'retry-after': String(limit.retryAfterSeconds) });
+  }
+
+  let url: unknown;
+  try {
+    ({ url } = await request.json());
+  } catch {
+    return errorResponse('Expected a JSON body with a url', 400);
+  }
+  if (typeof url !== 'string' || !url.trim() || url.length > MAX_URL_LENGTH) {
+    return errorResponse('Expected a JSON body with a url', 400);
+  }
+
+  const result = await safeFetchHtml(url.trim(), { maxBytes: MAX_PAGE_BYTES });
+  if (!result.ok) {
+    return errorResponse(result.message, FAILURE_STATUS[result.kind]);
+  }
+
+  return NextResponse.json(
+    { metadata: extractPageMetadata(result.body, result.url), html: trimPageHtml(result.body) },
+    { headers: { 'cache-control': 'no-store', 'x-ratelimit-remaining': String(limit.remaining) } }
+  );
+}
@@ -0,0 +1,74 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { errorResponse, jsonResponse, MAX_FORM_BYTES, readBody } from '@/lib/api-v1';
+import { appUrl, createMagicLinkToken, MAGIC_LINK_TTL_MS, normalizeEmail, signInLink } from '@/lib/auth';
+import { getMailTransport } from '@/lib/mail';
+import { clientKey, createRateLimiter } from '@/lib/rate-limit';
+import { getDatabase } from '@/lib/server-db';
+
+// Emails a sign-in link. The answer is the same whether or not the address has an account
+// yet, since signing in for the first time is what creates it.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const clientLimiter = createRateLimiter({ limit: 10, windowMs: 15 * 60 * 1000 });
+// Keeps the route from being used to flood someone's inbox
+const emailLimiter = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+
+const magicLinkSchema = z.object({ email: z.string().trim().max(254).pipe(z.email('Enter a valid email address')) });
+
+export async function POST(request: NextRequest) {
+  if (request.headers.get('sec-fetch-site') === 'cross-site') {
+    return errorResponse('Cross-site requests are not allowed', 403);
+  }
+  const limit = clientLimiter.check(clientKey(request.headers));
+  if (!limit.allowed) {
+    return errorResponse('Too many requests', 429, { 'retry-after': String(limit.retryAfterSeconds) });
+  }
+
+  const mail = getMailTransport();
+  if (!mail) return errorResponse('Accounts are not enabled on this server', 503);
+  if (!mail.ok) {
+    console.error('📧 Mail is misconfigured:', mail.message);
+    return errorResponse('Accounts are not enabled on this server', 503);
+  }
+  const base = appUrl(request);
+  if (!base) {
+    console.error('📧 MYPOCKET_APP_URL must be set to send sign-in links in production');
+    return errorResponse('Accounts are not enabled on this server', 503);
+  }
+
+  const body = await readBody(request, magicLinkSchema, MAX_FORM_BYTES);
+  if (!body.ok) return body.response;
+  const email = normalizeEmail(body.value.email);
+  const emailLimit = emailLimiter.check(email);
+  if (!emailLimit.allowed) {
+    return errorResponse('Too many sign-in emails for this address; try again later', 429, {
+      'retry-after': String(emailLimit.retryAfterSeconds)
+    });
+  }
+
+  const database = getDatabase();
+  if (!database.ok) return errorResponse(database.message, 503);
+
+  const link = signInLink(base, createMagicLinkToken(database.db, email));
+  try {
+    await mail.transport.send({
+      to: email,
+      subject: 'Sign in to MyPocket Reader',
+      text: [
+        'Open this link to sign in to MyPocket Reader:',
+        '',
+        link,
+        '',
+        `The link works once and expires in ${MAGIC_LINK_TTL_MS / 60000} minutes.`,
+        "If you didn't ask to sign in, you can ignore this email."
+      ].join('\n')
+    });
+  } catch (error) {
+    console.error(`📧 Could not send the sign-in email (${mail.transport.name}):`, error);
+    return errorResponse('Could not send the sign-in email', 502);
+  }
+  return jsonResponse({ sent: true });
+}
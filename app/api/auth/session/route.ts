@@ -0,0 +1,76 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { accountsEnabled, errorResponse, jsonResponse, MAX_FORM_BYTES, readBody } from '@/lib/api-v1';
+import {
+  clearSessionCookie,
+  consumeMagicLinkToken,
+  deleteSession,
+  getSessionUser,
+  sessionIdOf,
+  setSessionCookie
+} from '@/lib/auth';
+import { clientKey, createRateLimiter } from '@/lib/rate-limit';
+import { getDatabase } from '@/lib/server-db';
+
+// The signed-in account. GET reports it, POST exchanges a sign-in link's token for a
+// session cookie, DELETE signs out.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Tokens are 256 random bits, so this only keeps the database from being hammered
+const limiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+const signInSchema = z.object({ token: z.string().trim().min(1).max(200) });
+
+const FAILURE_MESSAGES = {
+  invalid: 'This sign-in link is not valid',
+  expired: 'This sign-in link has expired; ask for a new one',
+  used: 'This sign-in link was already used; ask for a new one'
+};
+
+export async function GET(request: NextRequest) {
+  if (!accountsEnabled()) return jsonResponse({ enabled: false, user: null });
+  const sessionId = sessionIdOf(request);
+  const database = getDatabase();
+  if (!database.ok) return jsonResponse({ enabled: false, user: null });
+
+  const user = sessionId ? getSessionUser(database.db, sessionId) : null;
+  return jsonResponse({ enabled: true, user: user && { email: user.email } });
+}
+
+export async function POST(request: NextRequest) {
+  if (request.headers.get('sec-fetch-site') === 'cross-site') {
+    return errorResponse('Cross-site requests are not allowed', 403);
+  }
+  const limit = limiter.check(clientKey(request.headers));
+  if (!limit.allowed) {
+    return errorResponse('Too many requests', 429, { 'retry-after': String(limit.retryAfterSeconds) });
+  }
+  if (!accountsEnabled()) return errorResponse('Accounts are not enabled on this server', 503);
+
+  const body = await readBody(request, signInSchema, MAX_FORM_BYTES);
+  if (!body.ok) return body.response;
+  const database = getDatabase();
+  if (!database.ok) return errorResponse(database.message, 503);
+
+  const result = consumeMagicLinkToken(database.db, body.value.token);
+  if (!result.ok) return errorResponse(FAILURE_MESSAGES[result.reason], 400);
+
+  const response = jsonResponse({ user: { email: result.user.email } });
+  setSessionCookie(response, request, result.sessionId);
+  return response;
+}
+
+export async function DELETE(request: NextRequest) {
+  if (request.headers.get('sec-fetch-site') === 'cross-site') {
+    return errorResponse('Cross-site requests are not allowed', 403);
+  }
+  const sessionId = sessionIdOf(request);
+  const database = getDatabase();
+  if (sessionId && database.ok) deleteSession(database.db, sessionId);
+
+  const response = jsonResponse({ user: null });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,113 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  classifyLink,
+  LINK_CHECK_BATCH_SIZE,
+  LINK_CHECK_CONCURRENCY,
+  type LinkCheckResult
+} from '@/lib/link-health';
+import { clientKey, createRateLimiter } from '@/lib/rate-limit';
+import { safeCheckLink } from '@/lib/safe-fetch';
+import type { LinkHealth } from '@/lib/types';
+import { findClosestSnapshot } from '@/lib/wayback';
+
+// Checks a batch of article links through the SSRF-safe fetch and, for links that no
+// longer work, looks up the closest Wayback Machine snapshot. The client sends its
+// library in batches; each batch is checked a few links at a time.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_URL_LENGTH = 2048;
+
+const limiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+interface LinkToCheck {
+  url: string;
+  // When the article was saved (Unix seconds); snapshots closest to it are preferred
+  savedAt?: number;
+}
+
+function errorResponse(error: string, status: number, headers?: HeadersInit) {
+  return NextResponse.json({ error }, { status, headers: { 'cache-control': 'no-store', ...headers } });
+}
+
+function parseLinks(value: unknown): LinkToCheck[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > LINK_CHECK_BATCH_SIZE) return null;
+  const links: LinkToCheck[] = [];
+  for (const item of value) {
+    const url = item?.url;
+    if (typeof url !== 'string' || !url.trim() || url.length > MAX_URL_LENGTH) return null;
+    const savedAt = Number(item.savedAt);
+    links.push({ url: url.trim(), ...(Number.isFinite(savedAt) && savedAt > 0 ? { savedAt } : {}) });
+  }
+  return links;
+}
+
+async function checkLink(link: LinkToCheck, wayback: boolean): Promise<LinkCheckResult> {
+  const result = await safeCheckLink(link.url);
+  const checkedAt = Date.now();
+  // Blocked and invalid URLs are reported as unreachable rather than failing the batch
+  const httpStatus = result.ok ? result.status : 0;
+  const finalUrl = result.ok ? result.url : link.url;
+  const status = classifyLink(link.url, httpStatus, finalUrl);
+
+  const health: LinkHealth = {
+    status,
+    httpStatus,
+    ...(finalUrl !== link.url ? { finalUrl } : {}),
+    checkedAt
+  };
+  if (wayback && (status === 'broken' || status === 'unreachable' || status === 'moved')) {
+    const snapshot = await findClosestSnapshot(link.url, link.savedAt);
+    if (snapshot) {
+      health.waybackUrl = snapshot.url;
+      if (snapshot.timestamp) health.waybackTimestamp = snapshot.timestamp;
+    }
+  }
+  return { url: link.url, health };
+}
+
+// Runs the checks LINK_CHECK_CONCURRENCY at a time, keeping results in request order
+async function checkAll(links: LinkToCheck[], wayback: boolean): Promise<LinkCheckResult[]> {
+  const results = new Map<number, LinkCheckResult>();
+  // Shared by the workers, so each link is taken by exactly one of them
+  const queue = links.entries();
+  const worker = async () => {
+    for (const [index, link] of queue) {
+      results.set(index, await checkLink(link, wayback));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LINK_CHECK_CONCURRENCY, links.length) }, worker));
+  return Array.from(results.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, result]) => result);
+}
+
+export async function POST(request: NextRequest) {
+  // Browsers mark requests from other sites; those can't use this route as a proxy
+  if (request.headers.get('sec-fetch-site') === 'cross-site') {
+    return errorResponse('Cross-site requests are not allowed', 403);
+  }
+
+  const limit = limiter.check(clientKey(request.headers));
+  if (!limit.allowed) {
+    return errorResponse('Too many requests', 429, { 'retry-after': String(limit.retryAfterSeconds) });
+  }
+
+  let body: { links?: unknown; wayback?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Expected a JSON body with links', 400);
+  }
+  const links = parseLinks(body?.links);
+  if (!links) {
+    return errorResponse(`Expected a JSON body with 1 to ${LINK_CHECK_BATCH_SIZE} links`, 400);
+  }
+
+  const results = await checkAll(links, body.wayback === true);
+  return NextResponse.json(
+    { results },
+    { headers: { 'cache-control': 'no-store', 'x-ratelimit-remaining': String(limit.remaining) } }
+  );
+}
@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { extractPageMetadata } from '@/lib/page-metadata';
+import { clientKey, createRateLimiter } from '@/lib/rate-limit';
+import { safeFetchHtml, type SafeFetchFailureKind } from '@/lib/safe-fetch';
+
+// Fetches a page's title and metadata on the server, so article URLs are only ever sent to
+// this app and never to a third-party proxy. POST so URLs stay out of access logs.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_URL_LENGTH = 2048;
+
+const limiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+const FAILURE_STATUS: Record<SafeFetchFailureKind, number> = {
+  'invalid-url': 400,
+  'blocked-address': 403,
+  'too-many-redirects': 502,
+  timeout: 504,
+  'not-html': 422,
+  'upstream-error': 502
+};
+
+function errorResponse(error: string, status: number, headers?: HeadersInit) {
+  return NextResponse.json({ error }, { status, headers: { 'cache-control': 'no-store', ...headers } });
+}
+
+export async function POST(request: NextRequest) {
+  // Browsers mark requests from other sites; those can't use this route as a proxy
+  if (request.headers.get('sec-fetch-site') === 'cross-site') {
+    return errorResponse('Cross-site requests are not allowed', 403);
+  }
+
+  const limit = limiter.check(clientKey(request.headers));
+  if (!limit.allowed) {
+    return errorResponse('Too many requests', 429, { 'retry-after': String(limit.retryAfterSeconds) });
+  }
+
+  let url: unknown;
+  try {
+    ({ url } = await request.json());
+  } catch {
+    return errorResponse('Expected a JSON body with a url', 400);
+  }
+  if (typeof url !== 'string' || !url.trim() || url.length > MAX_URL_LENGTH) {
+    return errorResponse('Expected a JSON body with a url', 400);
+  }
+
+  const result = await safeFetchHtml(url.trim());
+  if (!result.ok) {
+    return errorResponse(result.message, FAILURE_STATUS[result.kind]);
+  }
+
+  return NextResponse.json(extractPageMetadata(result.body, result.url), {
+    headers: { 'cache-control': 'no-store', 'x-ratelimit-remaining': String(limit.remaining) }
+  });
+}
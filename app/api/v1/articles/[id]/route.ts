@@ -0,0 +1,55 @@
+import type { NextRequest } from 'next/server';
+import {
+  articleChangesSchema,
+  checkRevision,
+  errorResponse,
+  jsonResponse,
+  MAX_RECORD_BYTES,
+  openLibrary,
+  parseId,
+  readBody,
+  writeResponse
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const id = parseId((await context.params).id);
+  const article = id === null ? null : library.value.getArticle(id);
+  if (!article) return errorResponse('Article not found', 404);
+
+  return jsonResponse({ ...article, revision: library.value.revision() });
+}
+
+// Changes only the fields sent; tags replace the article's tags, linkHealth: null clears the last check
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const id = parseId((await context.params).id);
+  if (id === null) return errorResponse('Article not found', 404);
+  const body = await readBody(request, articleChangesSchema, MAX_RECORD_BYTES);
+  if (!body.ok) return body.response;
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  return writeResponse(library.value.updateArticle(id, body.value), 'Article');
+}
+
+// Highlights are kept: in the app they outlive their article too
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const id = parseId((await context.params).id);
+  if (id === null) return errorResponse('Article not found', 404);
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  return writeResponse(library.value.deleteArticle(id), 'Article');
+}
@@ -0,0 +1,38 @@
+import type { NextRequest } from 'next/server';
+import {
+  articleInputSchema,
+  checkRevision,
+  jsonResponse,
+  MAX_RECORD_BYTES,
+  openLibrary,
+  parseArticleQuery,
+  readBody,
+  writeResponse
+} from '@/lib/api-v1';
+
+// GET lists articles with the app's filters and sort orders, a page at a time.
+// POST adds an article at the top of the library.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const query = parseArticleQuery(request.nextUrl.searchParams);
+  if (!query.ok) return query.response;
+
+  const page = library.value.listArticles(query.value.filters, query.value.pagination);
+  return jsonResponse({ ...page, revision: library.value.revision() });
+}
+
+export async function POST(request: NextRequest) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const body = await readBody(request, articleInputSchema, MAX_RECORD_BYTES);
+  if (!body.ok) return body.response;
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  return writeResponse(library.value.createArticle(body.value), 'Article', 201);
+}
@@ -0,0 +1,54 @@
+import type { NextRequest } from 'next/server';
+import {
+  checkRevision,
+  errorResponse,
+  highlightChangesSchema,
+  jsonResponse,
+  MAX_RECORD_BYTES,
+  openLibrary,
+  parseId,
+  readBody,
+  writeResponse
+} from '@/lib/api-v1';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const id = parseId((await context.params).id);
+  const highlight = id === null ? null : library.value.getHighlight(id);
+  if (!highlight) return errorResponse('Highlight not found', 404);
+
+  return jsonResponse({ ...highlight, revision: library.value.revision() });
+}
+
+// location: null removes the location
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const id = parseId((await context.params).id);
+  if (id === null) return errorResponse('Highlight not found', 404);
+  const body = await readBody(request, highlightChangesSchema, MAX_RECORD_BYTES);
+  if (!body.ok) return body.response;
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  return writeResponse(library.value.updateHighlight(id, body.value), 'Highlight');
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const id = parseId((await context.params).id);
+  if (id === null) return errorResponse('Highlight not found', 404);
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  return writeResponse(library.value.deleteHighlight(id), 'Highlight');
+}
@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server';
+import {
+  checkRevision,
+  highlightInputSchema,
+  jsonResponse,
+  MAX_RECORD_BYTES,
+  openLibrary,
+  parseHighlightQuery,
+  readBody,
+  writeResponse
+} from '@/lib/api-v1';
+
+// GET lists highlights, optionally for one article (?url=) or matching a search, a page at
+// a time. POST adds a highlight; its article doesn't have to be in the library.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const query = parseHighlightQuery(request.nextUrl.searchParams);
+  if (!query.ok) return query.response;
+
+  return jsonResponse({ ...library.value.listHighlights(query.value), revision: library.value.revision() });
+}
+
+export async function POST(request: NextRequest) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const body = await readBody(request, highlightInputSchema, MAX_RECORD_BYTES);
+  if (!body.ok) return body.response;
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  return writeResponse(library.value.createHighlight(body.value), 'Highlight', 201);
+}
@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server';
+import { jsonResponse, libraryReplaceSchema, MAX_LIBRARY_BYTES, openLibrary, readBody } from '@/lib/api-v1';
+
+// The whole library at once, for the app's "sync to server" mode. GET returns it in the
+// shape the app stores, with each record's id for the per-record routes; PUT replaces it.
+// A PUT based on an older revision is refused with 409 unless it is forced, so one device
+// can't silently overwrite another's changes.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+
+  const { data, revision } = library.value.readLibrary();
+  return jsonResponse({ articles: data.articles, highlightData: data.highlightData, revision });
+}
+
+export async function PUT(request: NextRequest) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const body = await readBody(request, libraryReplaceSchema, MAX_LIBRARY_BYTES);
+  if (!body.ok) return body.response;
+
+  const { articles, highlightData, baseRevision, force } = body.value;
+  const current = library.value.revision();
+  if (!force && baseRevision !== current) {
+    return jsonResponse(
+      { error: 'The library changed on the server since it was last synced', revision: current },
+      409
+    );
+  }
+
+  const revision = library.value.replaceLibrary({ articles, highlightData });
+  return jsonResponse({ revision, articles: articles.length });
+}
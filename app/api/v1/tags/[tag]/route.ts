@@ -0,0 +1,38 @@
+import type { NextRequest } from 'next/server';
+import { checkRevision, MAX_RECORD_BYTES, openLibrary, readBody, tagRenameSchema, writeResponse } from '@/lib/api-v1';
+
+// PATCH renames a tag on every article ({ "name": "new-name" }); renaming onto a tag that
+// exists merges them. DELETE removes the tag from every article. Both report how many
+// articles changed.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ tag: string }>;
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const { tag } = await context.params;
+  const body = await readBody(request, tagRenameSchema, MAX_RECORD_BYTES);
+  if (!body.ok) return body.response;
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  const result = library.value.renameTag(tag, body.value.name);
+  const summary = result.ok ? { ...result, value: { tag: body.value.name, articles: result.value } } : result;
+  return writeResponse(summary, 'Tag');
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+  const { tag } = await context.params;
+  const stale = checkRevision(request, library.value);
+  if (stale) return stale;
+
+  const result = library.value.deleteTag(tag);
+  return writeResponse(result.ok ? { ...result, value: { tag, articles: result.value } } : result, 'Tag');
+}
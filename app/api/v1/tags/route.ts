@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+import { jsonResponse, openLibrary } from '@/lib/api-v1';
+
+// Every tag in the library with the number of articles carrying it, most used first
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const library = openLibrary(request);
+  if (!library.ok) return library.response;
+
+  return jsonResponse({ tags: library.value.listTags(), revision: library.value.revision() });
+}
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { completeSignIn, getAccount } from './account-client';
+
+function serverAnswering(body: unknown, status = 200) {
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json(body, { status })));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getAccount', () => {
+  it('reads the signed-in email', async () => {
+    serverAnswering({ enabled: true, user: { email: 'reader@example.com' } });
+    expect(await getAccount()).toEqual({ enabled: true, email: 'reader@example.com' });
+  });
+
+  it('treats an answer it cannot read as accounts being off', async () => {
+    serverAnswering({ enabled: 'yes', user: { email: 42 } });
+    expect(await getAccount()).toEqual({ enabled: false, email: null });
+
+    serverAnswering('<html>', 502);
+    expect(await getAccount()).toEqual({ enabled: false, email: null });
+  });
+});
+
+describe('completeSignIn', () => {
+  it('returns the account the link signed in to', async () => {
+    serverAnswering({ user: { email: 'reader@example.com' } });
+    expect(await completeSignIn('token')).toEqual({ ok: true, value: { email: 'reader@example.com' } });
+  });
+
+  it('passes on why the server refused the link', async () => {
+    serverAnswering({ error: 'This sign-in link has expired; ask for a new one' }, 400);
+    expect(await completeSignIn('token')).toEqual({
+      ok: false,
+      error: 'This sign-in link has expired; ask for a new one'
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+// Browser side of /api/auth: emailing a sign-in link, completing the sign-in when the app
+// is opened from it, and signing out. The session itself is an HttpOnly cookie the
+// browser sends along; the app only learns which email is signed in.
+
+const MAGIC_LINK_ENDPOINT = '/api/auth/magic-link';
+const SESSION_ENDPOINT = '/api/auth/session';
+// Query parameter the emailed link carries the sign-in token in. The app reads it and
+// completes the sign-in itself, so mail scanners that open links can't use it up.
+export const SIGN_IN_PARAM = 'sign-in';
+
+export interface AccountStatus {
+  // Whether this server offers accounts at all
+  enabled: boolean;
+  email: string | null;
+}
+
+export type AccountResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const accountSchema = z.object({ email: z.string() });
+const sessionBodySchema = z.object({
+  enabled: z.boolean().catch(false),
+  user: accountSchema.nullable().catch(null)
+});
+const signedInBodySchema = z.object({ user: accountSchema });
+const errorBodySchema = z.object({ error: z.string() });
+
+async function request(url: string, init: RequestInit = {}): Promise<{ response: Response; body: unknown } | null> {
+  try {
+    const response = await fetch(url, { ...init, cache: 'no-store' });
+    return { response, body: await response.json().catch(() => null) };
+  } catch {
+    return null;
+  }
+}
+
+function errorOf(body: unknown, status: number): string {
+  const parsed = errorBodySchema.safeParse(body);
+  return parsed.success ? parsed.data.error : `Request failed with HTTP ${status}`;
+}
+
+export async function getAccount(): Promise<AccountStatus> {
+  const result = await request(SESSION_ENDPOINT);
+  const parsed = sessionBodySchema.safeParse(result?.body);
+  if (!result?.response.ok || !parsed.success) return { enabled: false, email: null };
+  return { enabled: parsed.data.enabled, email: parsed.data.user?.email ?? null };
+}
+
+export async function requestMagicLink(email: string): Promise<AccountResult<null>> {
+  const result = await request(MAGIC_LINK_ENDPOINT, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ email })
+  });
+  if (!result) return { ok: false, error: 'Could not reach the server' };
+  if (!result.response.ok) return { ok: false, error: errorOf(result.body, result.response.status) };
+  return { ok: true, value: null };
+}
+
+/**
+ * Exchanges the token from a sign-in link for a session and returns the account's email
+ */
+export async function completeSignIn(token: string): Promise<AccountResult<{ email: string }>> {
+  const result = await request(SESSION_ENDPOINT, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ token })
+  });
+  if (!result) return { ok: false, error: 'Could not reach the server' };
+  const { response, body } = result;
+  const parsed = signedInBodySchema.safeParse(body);
+  if (!response.ok || !parsed.success) return { ok: false, error: errorOf(body, response.status) };
+  return { ok: true, value: { email: parsed.data.user.email } };
+}
+
+export async function signOut(): Promise<void> {
+  await request(SESSION_ENDPOINT, { method: 'DELETE' });
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { checkRevision, MAX_FORM_BYTES, MAX_LIBRARY_BYTES, readBody } from './api-v1';
+import type { LibraryRepository } from './library-repository';
+
+const schema = z.object({ name: z.string() });
+
+function requestWith(body: BodyInit, headers: HeadersInit = {}) {
+  return new NextRequest('http://localhost/api/v1/articles', {
+    method: 'POST',
+    body,
+    headers,
+    // Needed by Node's fetch for streamed bodies
+    duplex: 'half'
+  });
+}
+
+// A body streamed in 1 MB chunks, with no Content-Length to go by
+function streamOf(bytes: number): ReadableStream<Uint8Array> {
+  const chunk = new Uint8Array(1024 * 1024).fill(0x20);
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent >= bytes) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(chunk.subarray(0, Math.min(chunk.length, bytes - sent)));
+      sent += chunk.length;
+    }
+  });
+}
+
+describe('readBody', () => {
+  it('parses and validates a JSON body', async () => {
+    const result = await readBody(requestWith(JSON.stringify({ name: 'Reader' })), schema, MAX_FORM_BYTES);
+    expect(result).toEqual({ ok: true, value: { name: 'Reader' } });
+  });
+
+  it('answers 400 for a body that is not JSON or does not match', async () => {
+    const notJson = await readBody(requestWith('{'), schema, MAX_FORM_BYTES);
+    const invalid = await readBody(requestWith('{"name": 1}'), schema, MAX_FORM_BYTES);
+    expect(notJson.ok || notJson.response.status).toBe(400);
+    expect(invalid.ok || invalid.response.status).toBe(400);
+  });
+
+  it('answers 413 when the declared length is over the limit', async () => {
+    const headers = { 'content-length': String(MAX_LIBRARY_BYTES + 1) };
+    const result = await readBody(requestWith('{}', headers), schema, MAX_LIBRARY_BYTES);
+    expect(result.ok || result.response.status).toBe(413);
+  });
+
+  it('stops reading a streamed body once it passes the limit', async () => {
+    const result = await readBody(requestWith(streamOf(MAX_LIBRARY_BYTES + 1024 * 1024)), schema, MAX_LIBRARY_BYTES);
+    expect(result.ok || result.response.status).toBe(413);
+  });
+
+  it('holds each route to the limit it passes', async () => {
+    const name = 'x'.repeat(MAX_FORM_BYTES);
+    const small = await readBody(requestWith(JSON.stringify({ name })), schema, MAX_FORM_BYTES);
+    const large = await readBody(requestWith(JSON.stringify({ name })), schema, MAX_LIBRARY_BYTES);
+    expect(small.ok || small.response.status).toBe(413);
+    expect(large.ok).toBe(true);
+  });
+});
+
+describe('checkRevision', () => {
+  const library = { revision: () => 4 } as LibraryRepository;
+
+  it('lets writes through that are based on the current revision or name none', () => {
+    expect(checkRevision(requestWith('{}', { 'if-match': '"4"' }), library)).toBeNull();
+    expect(checkRevision(requestWith('{}'), library)).toBeNull();
+  });
+
+  it('refuses writes based on an older revision with the current one', async () => {
+    const response = checkRevision(requestWith('{}', { 'if-match': '"3"' }), library);
+    expect(response?.status).toBe(412);
+    expect(await response?.json()).toMatchObject({ revision: 4 });
+  });
+});
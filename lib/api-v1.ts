@@ -0,0 +1,295 @@
+import 'server-only';
+import crypto from 'node:crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser, libraryIdFor, sessionIdOf } from './auth';
+import { SORT_ORDERS } from './backup';
+import type { LibraryFilters } from './export-scope';
+import {
+  backupArticleSchema,
+  backupHighlightsSchema,
+  describeIssues,
+  httpUrlSchema,
+  linkHealthSchema
+} from './import-schemas';
+import {
+  createLibraryRepository,
+  type HighlightQuery,
+  type LibraryRepository,
+  type Pagination,
+  type WriteResult
+} from './library-repository';
+import { getMailTransport } from './mail';
+import { clientKey, createRateLimiter } from './rate-limit';
+import { getDatabase } from './server-db';
+
+// Plumbing shared by the /api/v1 routes: finding the caller's library, query parsing and
+// request bodies. Server storage is off until MYPOCKET_API_TOKEN is set or accounts are
+// enabled with a mail transport.
+
+// The library opened with MYPOCKET_API_TOKEN; signed-in users each have their own
+export const DEFAULT_LIBRARY_ID = 'default';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+// Limits for PUT /api/v1/library, the same as the app's own
+export const MAX_LIBRARY_ARTICLES = 50000;
+export const MAX_LIBRARY_BYTES = 50 * 1024 * 1024;
+// Body limits for writes of a single record, and for the sign-in forms anyone can post
+export const MAX_RECORD_BYTES = 1024 * 1024;
+export const MAX_FORM_BYTES = 4 * 1024;
+
+// Generous for normal use, slow enough to make guessing the token pointless
+const limiter = createRateLimiter({ limit: 300, windowMs: 60 * 1000 });
+
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; response: NextResponse };
+
+export function errorResponse(error: string, status: number, headers?: HeadersInit) {
+  return NextResponse.json({ error }, { status, headers: { 'cache-control': 'no-store', ...headers } });
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return NextResponse.json(body, { status, headers: { 'cache-control': 'no-store' } });
+}
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+export function accountsEnabled(): boolean {
+  return getMailTransport()?.ok === true;
+}
+
+/**
+ * Opens the caller's library: the shared one for the bearer token, or the signed-in
+ * user's own. Fails with 503 when server storage isn't set up, so a deployment without
+ * it behaves as before.
+ */
+export function openLibrary(request: NextRequest): ApiResult<LibraryRepository> {
+  const limit = limiter.check(clientKey(request.headers));
+  if (!limit.allowed) {
+    return {
+      ok: false,
+      response: errorResponse('Too many requests', 429, { 'retry-after': String(limit.retryAfterSeconds) })
+    };
+  }
+
+  const token = process.env.MYPOCKET_API_TOKEN;
+  const withAccounts = accountsEnabled();
+  if (!token && !withAccounts) {
+    return { ok: false, response: errorResponse('Server storage is not enabled on this server', 503) };
+  }
+  const unauthorized: ApiResult<never> = {
+    ok: false,
+    response: errorResponse('Sign in or send the API token', 401, { 'www-authenticate': 'Bearer' })
+  };
+
+  const authorization = request.headers.get('authorization');
+  if (authorization) {
+    const presented = /^Bearer\s+(.+)$/i.exec(authorization)?.[1]?.trim() ?? '';
+    // Compared as digests so the check takes the same time whatever the token's length
+    if (!token || !presented || !crypto.timingSafeEqual(digest(presented), digest(token))) return unauthorized;
+  } else {
+    const sessionId = sessionIdOf(request);
+    if (!withAccounts || !sessionId) return unauthorized;
+    // The session cookie comes along with any request; only the app's own pages may use it
+    if (request.headers.get('sec-fetch-site') === 'cross-site') {
+      return { ok: false, response: errorResponse('Cross-site requests are not allowed', 403) };
+    }
+  }
+
+  const database = getDatabase();
+  if (!database.ok) return { ok: false, response: errorResponse(database.message, 503) };
+  if (authorization) return { ok: true, value: createLibraryRepository(database.db, DEFAULT_LIBRARY_ID) };
+
+  const user = getSessionUser(database.db, sessionIdOf(request)!);
+  if (!user) return unauthorized;
+  return { ok: true, value: createLibraryRepository(database.db, libraryIdFor(user)) };
+}
+
+const flag = z.enum(['true', 'false', '1', '0']).transform((value) => value === 'true' || value === '1');
+const positiveInteger = z.coerce.number().int().positive();
+
+const articleQuerySchema = z.object({
+  search: z.string().trim().max(500).default(''),
+  tag: z.array(z.string().trim().min(1)).default([]),
+  favorites: flag.default(false),
+  highlights: flag.default(false),
+  status: z.enum(['read', 'unread', 'any']).default('any'),
+  broken: flag.default(false),
+  sort: z.enum(SORT_ORDERS).default('default'),
+  page: positiveInteger.default(1),
+  pageSize: positiveInteger.max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
+});
+
+const highlightQuerySchema = z.object({
+  url: z.string().trim().max(2048).optional(),
+  search: z.string().trim().max(500).default(''),
+  page: positiveInteger.default(1),
+  pageSize: positiveInteger.max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
+});
+
+// Repeated parameters (?tag=a&tag=b) become arrays; the rest stay single values
+function searchParamsObject(params: URLSearchParams, repeated: string[] = []): Record<string, unknown> {
+  return Object.fromEntries(
+    Array.from(params.keys(), (key) => [key, repeated.includes(key) ? params.getAll(key) : params.get(key)])
+  );
+}
+
+/**
+ * Article list query, named after the app's filters: search, tag (repeatable, all must
+ * match), favorites, highlights, status=read|unread, broken, sort, page and pageSize.
+ */
+export function parseArticleQuery(
+  params: URLSearchParams
+): ApiResult<{ filters: LibraryFilters; pagination: Pagination }> {
+  const parsed = articleQuerySchema.safeParse(searchParamsObject(params, ['tag']));
+  if (!parsed.success) return { ok: false, response: errorResponse(describeIssues(parsed.error), 400) };
+
+  const query = parsed.data;
+  return {
+    ok: true,
+    value: {
+      filters: {
+        searchTerm: query.search,
+        tags: query.tag,
+        favoritesOnly: query.favorites,
+        highlightsOnly: query.highlights,
+        readOnly: query.status === 'read',
+        unreadOnly: query.status === 'unread',
+        brokenOnly: query.broken,
+        sortBy: query.sort
+      },
+      pagination: { page: query.page, pageSize: query.pageSize }
+    }
+  };
+}
+
+// Highlight list query: url (the article's), search, page and pageSize
+export function parseHighlightQuery(params: URLSearchParams): ApiResult<HighlightQuery> {
+  const parsed = highlightQuerySchema.safeParse(searchParamsObject(params));
+  if (!parsed.success) return { ok: false, response: errorResponse(describeIssues(parsed.error), 400) };
+  const { url, search, page, pageSize } = parsed.data;
+  return { ok: true, value: { url: url || undefined, searchTerm: search, page, pageSize } };
+}
+
+export function parseId(value: string): number | null {
+  return /^\d{1,15}$/.test(value) ? Number(value) : null;
+}
+
+const tagSchema = z
+  .string()
+  .trim()
+  .min(1, 'Tag is empty')
+  .max(100)
+  .refine((tag) => !tag.includes('|') && tag !== '*' && tag !== '***', { error: 'Tag cannot contain "|" or be "*"' });
+
+export const articleInputSchema = z.object({
+  url: httpUrlSchema,
+  title: z.string().max(1000).optional(),
+  time_added: z.number().int().nonnegative().optional(),
+  tags: z.array(tagSchema).max(100).optional(),
+  isFavorite: z.boolean().optional(),
+  status: z.enum(['read', 'unread']).optional(),
+  linkHealth: linkHealthSchema.optional()
+});
+
+export const articleChangesSchema = articleInputSchema
+  .partial()
+  .extend({ linkHealth: linkHealthSchema.nullable().optional() });
+
+export const highlightInputSchema = z.object({
+  url: httpUrlSchema,
+  title: z.string().max(1000).optional(),
+  quote: z.string().trim().min(1, 'Highlight text is missing').max(20000),
+  created_at: z.number().int().nonnegative().optional(),
+  location: z.string().max(200).optional()
+});
+
+export const highlightChangesSchema = z.object({
+  quote: z.string().trim().min(1, 'Highlight text is missing').max(20000).optional(),
+  location: z.string().max(200).nullable().optional()
+});
+
+export const tagRenameSchema = z.object({ name: tagSchema });
+
+export const libraryReplaceSchema = z.object({
+  articles: z.array(backupArticleSchema).max(MAX_LIBRARY_ARTICLES),
+  highlightData: z.array(backupHighlightsSchema),
+  // The revision the client last saw; the write is refused when the server has moved on
+  baseRevision: z.number().int().nonnegative().optional(),
+  force: z.boolean().optional()
+});
+
+// The body as text, or null once it grows past `limit`. Content-Length can be left out or
+// understated, so the bytes are counted as they arrive and reading stops at the limit.
+async function readLimitedText(request: NextRequest, limit: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length')) > limit) return null;
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Each route passes the smallest limit its bodies need
+export async function readBody<T extends z.ZodType>(
+  request: NextRequest,
+  schema: T,
+  maxBytes: number
+): Promise<ApiResult<z.output<T>>> {
+  let text: string | null;
+  try {
+    text = await readLimitedText(request, maxBytes);
+  } catch {
+    return { ok: false, response: errorResponse('Could not read the request body', 400) };
+  }
+  if (text === null) return { ok: false, response: errorResponse('Request body is too large', 413) };
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { ok: false, response: errorResponse('Expected a JSON body', 400) };
+  }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) return { ok: false, response: errorResponse(describeIssues(parsed.error), 400) };
+  return { ok: true, value: parsed.data };
+}
+
+/**
+ * Honours If-Match: a write sent with the revision it is based on is refused with 412 once the
+ * library has moved past it, so the app's record-by-record sync can't overwrite changes it
+ * hasn't seen. Writes without the header always go through.
+ */
+export function checkRevision(request: NextRequest, library: LibraryRepository): NextResponse | null {
+  const expected = request.headers.get('if-match');
+  if (expected === null) return null;
+  const current = library.revision();
+  if (expected.trim().replace(/^(W\/)?"|"$/g, '') === String(current)) return null;
+  return jsonResponse({ error: 'The library changed on the server since it was last synced', revision: current }, 412);
+}
+
+/**
+ * Sends the result of a write with the library's new revision, or the reason it was refused.
+ * Deletes answer with the revision alone.
+ */
+export function writeResponse<T extends object | null>(result: WriteResult<T>, what: string, status = 200) {
+  if (!result.ok) {
+    return result.reason === 'duplicate'
+      ? errorResponse('An article with this URL is already in the library', 409)
+      : errorResponse(`${what} not found`, 404);
+  }
+  return jsonResponse({ ...result.value, revision: result.revision }, status);
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createArchiveStore, type ArchivedContent } from './article-archive';
+import { deriveEncryptionKey } from './compression';
+import type { StorageAdapter, StorageBackend, StoredValue } from './storage';
+
+function memoryAdapter(backend: StorageBackend = 'indexedDB'): StorageAdapter & { values: Map<string, StoredValue> } {
+  const values = new Map<string, StoredValue>();
+  return {
+    values,
+    backend,
+    supportsBinary: backend === 'indexedDB',
+    async getItem(key) {
+      const value = values.get(key);
+      return typeof value === 'string' ? value : null;
+    },
+    async setItem(key, value) {
+      values.set(key, value);
+    },
+    async getValue(key) {
+      return values.get(key) ?? null;
+    },
+    async setValue(key, value) {
+      values.set(key, value);
+    },
+    async removeItem(key) {
+      values.delete(key);
+    }
+  };
+}
+
+const content = (url: string, text = 'Saved for later'): ArchivedContent => ({
+  url,
+  sourceUrl: url,
+  title: `Title of ${url}`,
+  byline: '',
+  siteName: 'Example',
+  content: `<p>${text}</p>`,
+  wordCount: text.split(' ').length,
+  archivedAt: 1700000000000
+});
+
+const testKey = () => deriveEncryptionKey('correct horse battery', new Uint8Array(16), 1000);
+
+describe('archive store', () => {
+  it('saves one copy per normalized URL and removes it again', async () => {
+    const store = createArchiveStore(memoryAdapter(), 'test', { codec: 'gzip' });
+    const first = await store.save(content('https://example.com/a'));
+    const second = await store.save(content('http://www.example.com/a/', 'Saved again'));
+
+    expect(second.id).toBe(first.id);
+    expect(await store.list()).toHaveLength(1);
+    expect((await store.load('https://example.com/a'))?.content).toBe('<p>Saved again</p>');
+
+    await store.remove('https://example.com/a');
+    expect(await store.list()).toEqual([]);
+    expect(await store.load('https://example.com/a')).toBeNull();
+  });
+
+  it('encrypts copies and their index, and re-keys them', async () => {
+    const adapter = memoryAdapter();
+    const key = await testKey();
+    const encrypted = createArchiveStore(adapter, 'test', { encryptionKey: key });
+    await encrypted.save(content('https://example.com/secret'));
+
+    // Without the key even the index, which holds the URLs, can't be read
+    expect(await createArchiveStore(adapter, 'test').list()).toEqual([]);
+
+    await encrypted.rekey(null);
+    const plain = createArchiveStore(adapter, 'test');
+    expect((await plain.load('https://example.com/secret'))?.title).toBe('Title of https://example.com/secret');
+  });
+
+  it('drops damaged copies and index entries instead of failing', async () => {
+    const adapter = memoryAdapter();
+    const store = createArchiveStore(adapter, 'test');
+    const info = await store.save(content('https://example.com/a'));
+    adapter.values.set(`test:archive:${info.id}`, JSON.stringify({ content: 1 }));
+
+    await expect(store.load('https://example.com/a')).rejects.toThrow('Offline copy is damaged');
+    await store.rekey(null);
+    expect(await store.list()).toEqual([]);
+
+    adapter.values.set('test:archive-index', JSON.stringify([{ id: 'x' }, { ...info, url: 'https://example.com/b' }]));
+    expect((await store.list()).map((entry) => entry.url)).toEqual(['https://example.com/b']);
+  });
+
+  it('moves every copy to another backend', async () => {
+    const from = memoryAdapter('indexedDB');
+    const to = memoryAdapter('localStorage');
+    const store = createArchiveStore(from, 'test', { encryptionKey: await testKey(), codec: 'gzip' });
+    await store.save(content('https://example.com/a'));
+    await store.save(content('https://example.com/b'));
+
+    await store.transferTo(to);
+
+    expect(from.values.size).toBe(0);
+    expect(Array.from(to.values.values()).every((value) => typeof value === 'string')).toBe(true);
+    const moved = createArchiveStore(to, 'test', { encryptionKey: await testKey() });
+    expect((await moved.list()).map((entry) => entry.url).sort()).toEqual([
+      'https://example.com/a',
+      'https://example.com/b'
+    ]);
+    expect((await moved.load('https://example.com/b'))?.content).toBe('<p>Saved for later</p>');
+  });
+});
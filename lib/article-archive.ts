@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import {
+  decodePayload,
+  decryptPayload,
+  encodePayload,
+  encryptPayload,
+  toTextPayload,
+  type CodecId
+} from './compression';
+import type { StorageAdapter, StoredValue } from './storage';
+import { normalizeUrl } from './url';
+
+// Reader view settings, kept in localStorage like the other display preferences
+export const READER_PREFERENCES_KEY = 'mypocket-reader-reader-preferences';
+
+export const READER_FONT_SIZES = [14, 16, 18, 20, 22, 24];
+export const READER_WIDTHS = ['narrow', 'medium', 'wide'] as const;
+export const READER_THEMES = ['light', 'sepia', 'dark'] as const;
+
+export type ReaderWidth = (typeof READER_WIDTHS)[number];
+export type ReaderTheme = (typeof READER_THEMES)[number];
+
+export interface ReaderPreferences {
+  fontSize: number;
+  width: ReaderWidth;
+  theme: ReaderTheme;
+}
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = { fontSize: 18, width: 'medium', theme: 'light' };
+
+// An article's readable content, saved so it can be read without a connection
+export interface ArchivedContent {
+  // The article's URL as stored in the library
+  url: string;
+  // The page that was downloaded, after redirects
+  sourceUrl: string;
+  title: string;
+  byline: string;
+  siteName: string;
+  // Sanitized HTML; sanitized again before it is rendered
+  content: string;
+  wordCount: number;
+  archivedAt: number;
+}
+
+export interface ArchiveInfo {
+  id: string;
+  url: string;
+  title: string;
+  wordCount: number;
+  archivedAt: number;
+  size: number;
+}
+
+export interface ArchiveStore {
+  // Newest first
+  list(): Promise<ArchiveInfo[]>;
+  // Replaces any earlier copy of the same article
+  save(content: ArchivedContent): Promise<ArchiveInfo>;
+  load(url: string): Promise<ArchivedContent | null>;
+  remove(url: string): Promise<void>;
+  // Re-encrypts every copy with another key (null stores them in plain text)
+  rekey(nextKey: CryptoKey | null): Promise<void>;
+  // Every key the copies and their index occupy
+  keys(): Promise<string[]>;
+  // Moves every copy to another backend without decrypting it
+  transferTo(adapter: StorageAdapter): Promise<void>;
+}
+
+export function getReaderPreferences(): ReaderPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(READER_PREFERENCES_KEY) || '{}');
+    return {
+      fontSize: READER_FONT_SIZES.includes(stored.fontSize) ? stored.fontSize : DEFAULT_READER_PREFERENCES.fontSize,
+      width: READER_WIDTHS.includes(stored.width) ? stored.width : DEFAULT_READER_PREFERENCES.width,
+      theme: READER_THEMES.includes(stored.theme) ? stored.theme : DEFAULT_READER_PREFERENCES.theme
+    };
+  } catch {
+    // localStorage can throw in privacy modes, and the stored value may be damaged
+    return DEFAULT_READER_PREFERENCES;
+  }
+}
+
+export function setReaderPreferences(preferences: ReaderPreferences): void {
+  localStorage.setItem(READER_PREFERENCES_KEY, JSON.stringify(preferences));
+}
+
+const archiveInfoSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: z.string(),
+  wordCount: z.number(),
+  archivedAt: z.number(),
+  size: z.number()
+});
+
+const archivedContentSchema = z.object({
+  url: z.string(),
+  sourceUrl: z.string(),
+  title: z.string(),
+  byline: z.string(),
+  siteName: z.string(),
+  content: z.string(),
+  wordCount: z.number(),
+  archivedAt: z.number()
+});
+
+// Articles with matching normalized URLs share one offline copy
+export function archiveKey(url: string): string {
+  return normalizeUrl(url);
+}
+
+/**
+ * Creates a store for offline copies of article content, kept apart from the library
+ * so saving the library never rewrites them. Copies are stored compressed, and
+ * encrypted when the library is. The index holds URLs and titles, so it is encrypted
+ * too and entries are stored under random ids rather than their URLs.
+ */
+export function createArchiveStore(
+  adapter: StorageAdapter,
+  baseKey: string,
+  options: { encryptionKey?: CryptoKey | null; codec?: CodecId } = {}
+): ArchiveStore {
+  const encryptionKey = options.encryptionKey ?? null;
+  const codec = options.codec ?? 'lz-string';
+  const indexKey = `${baseKey}:archive-index`;
+  const entryKey = (id: string) => `${baseKey}:archive:${id}`;
+
+  async function writeValue(key: string, data: unknown, encryptWith: CryptoKey | null): Promise<number> {
+    const { payload, metadata } = await encodePayload(data, codec, adapter.supportsBinary);
+    await adapter.setValue(key, encryptWith ? await encryptPayload(payload, encryptWith) : payload);
+    return metadata.compressedSize;
+  }
+
+  async function readValue(stored: StoredValue): Promise<unknown> {
+    return (await decodePayload(await decryptPayload(stored, encryptionKey))).data;
+  }
+
+  async function readIndex(): Promise<ArchiveInfo[]> {
+    const stored = await adapter.getValue(indexKey);
+    if (!stored) return [];
+    try {
+      const index = await readValue(stored);
+      if (!Array.isArray(index)) return [];
+      // A damaged entry only loses its own copy
+      return index.flatMap((entry) => {
+        const parsed = archiveInfoSchema.safeParse(entry);
+        return parsed.success ? [parsed.data] : [];
+      });
+    } catch (error) {
+      console.warn('📰 Offline copy index is unreadable:', error);
+      return [];
+    }
+  }
+
+  async function writeIndex(index: ArchiveInfo[], encryptWith: CryptoKey | null = encryptionKey): Promise<void> {
+    await writeValue(indexKey, index, encryptWith);
+  }
+
+  const findInfo = (index: ArchiveInfo[], url: string) => {
+    const key = archiveKey(url);
+    return index.find((info) => archiveKey(info.url) === key);
+  };
+
+  const store: ArchiveStore = {
+    async list() {
+      return (await readIndex()).sort((a, b) => b.archivedAt - a.archivedAt);
+    },
+
+    async save(content) {
+      const index = await readIndex();
+      const previous = findInfo(index, content.url);
+      const id = previous?.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      const info: ArchiveInfo = {
+        id,
+        url: content.url,
+        title: content.title,
+        wordCount: content.wordCount,
+        archivedAt: content.archivedAt,
+        size: await writeValue(entryKey(id), content, encryptionKey)
+      };
+
+      await writeIndex([info, ...index.filter((entry) => entry.id !== id)]);
+      console.log('📰 Saved for offline reading:', { url: content.url, words: content.wordCount });
+      return info;
+    },
+
+    async load(url) {
+      const info = findInfo(await readIndex(), url);
+      if (!info) return null;
+      const stored = await adapter.getValue(entryKey(info.id));
+      if (!stored) return null;
+      const content = archivedContentSchema.safeParse(await readValue(stored));
+      if (!content.success) {
+        throw new Error('Offline copy is damaged');
+      }
+      return content.data;
+    },
+
+    async remove(url) {
+      const index = await readIndex();
+      const info = findInfo(index, url);
+      if (!info) return;
+      await adapter.removeItem(entryKey(info.id));
+      await writeIndex(index.filter((entry) => entry.id !== info.id));
+    },
+
+    async rekey(nextKey) {
+      const rewritten: ArchiveInfo[] = [];
+      for (const info of await readIndex()) {
+        try {
+          const content = await store.load(info.url);
+          if (!content) continue;
+          rewritten.push({ ...info, size: await writeValue(entryKey(info.id), content, nextKey) });
+        } catch (error) {
+          console.warn('📰 Dropping unreadable offline copy while re-keying:', info.url, error);
+          await adapter.removeItem(entryKey(info.id));
+        }
+      }
+      await writeIndex(rewritten, nextKey);
+    },
+
+    async keys() {
+      return [indexKey, ...(await readIndex()).map((info) => entryKey(info.id))];
+    },
+
+    async transferTo(targetAdapter) {
+      if (targetAdapter.backend === adapter.backend) return;
+      const index = await readIndex();
+      for (const key of [...index.map((info) => entryKey(info.id)), indexKey]) {
+        const stored = await adapter.getValue(key);
+        if (stored !== null) {
+          await targetAdapter.setValue(key, targetAdapter.supportsBinary ? stored : toTextPayload(stored));
+        }
+        await adapter.removeItem(key);
+      }
+    }
+  };
+
+  return store;
+}
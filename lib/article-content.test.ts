@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import DOMPurify from 'dompurify';
+import { describe, expect, it } from 'vitest';
+import { extractArticleContent, PAGE_PARSE_CONFIG, READER_SANITIZE_CONFIG } from './article-content';
+import type { PageMetadata } from './page-metadata';
+
+const metadata = (title: string): PageMetadata => ({
+  url: 'https://example.com/posts/offline',
+  title,
+  description: '',
+  siteName: 'Example',
+  favicon: '',
+  image: ''
+});
+
+const paragraph = (text: string) =>
+  `<p>${text}, which is long enough to count as a paragraph, with commas, clauses, and more words to score.</p>`;
+
+// Parsed the way the app does it before extracting
+const extract = (html: string, title = 'Reading offline') =>
+  extractArticleContent(DOMPurify.sanitize(html, PAGE_PARSE_CONFIG), metadata(title));
+
+describe('extractArticleContent', () => {
+  it('keeps the article and drops navigation, sidebars and comments', () => {
+    const result = extract(`
+      <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+      <div class="sidebar">${paragraph('Sidebar promotion')}</div>
+      <article>
+        <h1>Reading offline</h1>
+        <span class="byline">By Ada Example</span>
+        <div class="post-content">
+          ${paragraph('First point')}
+          ${paragraph('Second point')}
+          ${paragraph('Third point')}
+        </div>
+      </article>
+      <div class="comments">${paragraph('A reader comment')}</div>
+      <script>alert(1)</script>
+    `);
+
+    expect(result.title).toBe('Reading offline');
+    expect(result.byline).toBe('By Ada Example');
+    expect(result.html).toContain('First point');
+    expect(result.html).toContain('Third point');
+    expect(result.html).not.toContain('Home');
+    expect(result.html).not.toContain('Sidebar promotion');
+    expect(result.html).not.toContain('A reader comment');
+    expect(result.html).not.toContain('<h1>');
+    expect(result.html).not.toContain('alert');
+    expect(result.wordCount).toBeGreaterThan(40);
+  });
+
+  it('takes the schema.org article body at its word', () => {
+    const result = extract(`
+      <div class="content">${paragraph('Teaser one')}${paragraph('Teaser two')}${paragraph('Teaser three')}</div>
+      <section itemprop="articleBody">${paragraph('Marked body')}${paragraph('More of it')}${paragraph('The end')}</section>
+    `);
+
+    expect(result.html).toContain('Marked body');
+    expect(result.html).not.toContain('Teaser one');
+  });
+
+  it('keeps the whole page when nothing scores well enough', () => {
+    const result = extract('<p>Only a <em>few</em> words here.</p>', 'Untitled note');
+
+    expect(result.title).toBe('Untitled note');
+    expect(result.html).toBe('<p>Only a <em>few</em> words here.</p>');
+    expect(result.wordCount).toBe(5);
+  });
+
+  it('makes links absolute and turns unresolvable ones into text', () => {
+    const result = extract(`
+      <article>
+        ${paragraph('Opening')}
+        <p>See <a href="../notes">the notes</a> and <a href="#top">the top</a> for the rest of this long paragraph.</p>
+        ${paragraph('Closing')}
+        ${paragraph('After that')}
+      </article>
+    `);
+    const content = DOMPurify.sanitize(result.html, READER_SANITIZE_CONFIG);
+
+    expect(content).toContain('<a href="https://example.com/notes" target="_blank" rel="noopener noreferrer">');
+    expect(content).toContain('and the top for');
+  });
+});
@@ -0,0 +1,278 @@
+import type { Config } from 'dompurify';
+import type { PageMetadata } from './page-metadata';
+
+// Browser side of offline archiving: downloads a page through /api/article-content, then
+// picks out the article the way Readability does - paragraphs score their containers, the
+// best container wins - and returns markup that still has to go through DOMPurify.
+
+const ARTICLE_CONTENT_ENDPOINT = '/api/article-content';
+
+// Below this much text the scored container is likely a teaser; the whole body is kept instead
+const MIN_CONTENT_LENGTH = 250;
+const MAX_BYLINE_LENGTH = 200;
+
+export type ArticleContentResponse =
+  | { ok: true; metadata: PageMetadata; html: string }
+  | { ok: false; error: string; retryAfterSeconds?: number };
+
+export interface ExtractedContent {
+  title: string;
+  byline: string;
+  // Unsanitized markup of the main content
+  html: string;
+  wordCount: number;
+}
+
+/**
+ * Builds the DOM of a downloaded page. Scripts, handlers and embedded documents never
+ * survive; class and id stay because scoring reads them. Relative links stay so they
+ * can be resolved against the page.
+ */
+export const PAGE_PARSE_CONFIG: Config & { RETURN_DOM_FRAGMENT: true } = {
+  FORBID_TAGS: ['form', 'input', 'button', 'select', 'textarea', 'svg', 'math', 'iframe', 'object', 'embed', 'img'],
+  ALLOWED_ATTR: ['class', 'id', 'role', 'rel', 'itemprop', 'href', 'alt', 'title', 'datetime', 'colspan', 'rowspan'],
+  ALLOW_DATA_ATTR: false,
+  ALLOW_UNKNOWN_PROTOCOLS: false,
+  ALLOWED_URI_REGEXP: /^(?:https?:|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i,
+  RETURN_DOM_FRAGMENT: true
+};
+
+/**
+ * What the reader view may render. Images are not kept: they would need the network
+ * (and tell the image host what is being read), while offline copies should not.
+ */
+export const READER_SANITIZE_CONFIG: Config = {
+  ALLOWED_TAGS: [
+    'p', 'br', 'hr', 'h2', 'h3', 'h4', 'h5', 'h6', 'a', 'em', 'strong', 'b', 'i', 'u', 's', 'del', 'ins',
+    'sub', 'sup', 'mark', 'small', 'abbr', 'time', 'code', 'pre', 'kbd', 'samp', 'blockquote', 'q', 'cite',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'figure', 'figcaption', 'table', 'caption', 'thead', 'tbody', 'tfoot',
+    'tr', 'th', 'td', 'div', 'section', 'span'
+  ],
+  ALLOWED_ATTR: ['href', 'title', 'datetime', 'colspan', 'rowspan', 'target', 'rel'],
+  // DOMPurify checks every other attribute value against ALLOWED_URI_REGEXP, which would drop them all
+  ADD_URI_SAFE_ATTR: ['title', 'datetime', 'colspan', 'rowspan', 'target', 'rel'],
+  ALLOW_DATA_ATTR: false,
+  ALLOW_UNKNOWN_PROTOCOLS: false,
+  ALLOWED_URI_REGEXP: /^https?:\/\//i
+};
+
+// Class/id hints, as in Readability
+const UNLIKELY_CANDIDATES =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|cookie|newsletter|subscribe|share/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_HINTS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE_HINTS =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+const CHROME_TAGS = 'nav, aside, footer, header:not(article header), dialog, [role="navigation"], [role="complementary"], [role="banner"], [role="contentinfo"], [role="dialog"]';
+const SCORED_TAGS = 'p, pre, td, blockquote, div';
+// A div with one of these inside is a container, not a paragraph
+const BLOCK_CHILDREN = 'blockquote, dl, div, img, ol, p, pre, table, ul';
+const BYLINE_SELECTOR = '[rel="author"], [itemprop="author"], .byline, .author, [class*="byline"]';
+
+export async function fetchArticleContent(url: string, signal?: AbortSignal): Promise<ArticleContentResponse> {
+  let response: Response;
+  try {
+    response = await fetch(ARTICLE_CONTENT_ENDPOINT, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ url }),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return { ok: false, error: 'Could not reach the article service' };
+  }
+  const body = await response.json().catch(() => null);
+
+  if (response.ok && body && typeof body.html === 'string') {
+    return { ok: true, metadata: body.metadata as PageMetadata, html: body.html };
+  }
+  const error = typeof body?.error === 'string' ? body.error : `Request failed with HTTP ${response.status}`;
+  if (response.status === 429) {
+    return { ok: false, error, retryAfterSeconds: Number(response.headers.get('retry-after')) || 60 };
+  }
+  return { ok: false, error };
+}
+
+function textOf(node: Node): string {
+  return (node.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+// Share of an element's text that sits inside links
+function linkDensity(element: Element): number {
+  const length = textOf(element).length;
+  if (length === 0) return 0;
+  let linkLength = 0;
+  element.querySelectorAll('a').forEach((link) => {
+    linkLength += textOf(link).length;
+  });
+  return linkLength / length;
+}
+
+function classWeight(element: Element): number {
+  const hints = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+  let weight = 0;
+  if (NEGATIVE_HINTS.test(hints)) weight -= 25;
+  if (POSITIVE_HINTS.test(hints)) weight += 25;
+  return weight;
+}
+
+const TAG_SCORES: Record<string, number> = {
+  ARTICLE: 10,
+  MAIN: 8,
+  DIV: 5,
+  SECTION: 5,
+  PRE: 3,
+  TD: 3,
+  BLOCKQUOTE: 3,
+  OL: -3,
+  UL: -3,
+  DL: -3,
+  DD: -3,
+  DT: -3,
+  LI: -3,
+  ADDRESS: -3
+};
+
+function initialScore(element: Element): number {
+  return (TAG_SCORES[element.tagName] ?? 0) + classWeight(element);
+}
+
+// Drops page furniture: navigation, sidebars, comment threads and the like
+function removeChrome(root: DocumentFragment): void {
+  root.querySelectorAll(CHROME_TAGS).forEach((element) => element.remove());
+  root.querySelectorAll('*').forEach((element) => {
+    // Skips elements already removed with an ancestor
+    if (!root.contains(element) || element.tagName === 'ARTICLE') return;
+    const hints = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+    if (UNLIKELY_CANDIDATES.test(hints) && !MAYBE_CANDIDATE.test(hints) && !element.closest('table, code, pre')) {
+      element.remove();
+    }
+  });
+}
+
+interface Candidate {
+  element: Element;
+  score: number;
+}
+
+function scoreCandidates(root: ParentNode): Map<Element, number> {
+  const scores = new Map<Element, number>();
+  const addScore = (element: Element | null | undefined, score: number) => {
+    if (!element) return;
+    scores.set(element, (scores.get(element) ?? initialScore(element)) + score);
+  };
+
+  root.querySelectorAll(SCORED_TAGS).forEach((paragraph) => {
+    if (paragraph.tagName === 'DIV' && paragraph.querySelector(BLOCK_CHILDREN)) return;
+    const text = textOf(paragraph);
+    if (text.length < 25) return;
+    // One point per paragraph, one per comma, one per 100 characters (up to three)
+    const score = text.split(/[,，、]/).length + Math.min(3, Math.floor(text.length / 100));
+    const parent = paragraph.parentElement;
+    addScore(parent, score);
+    addScore(parent?.parentElement, score / 2);
+    addScore(parent?.parentElement?.parentElement, score / 6);
+  });
+
+  // Containers that are mostly links (navigation, tag clouds) score low
+  scores.forEach((score, element) => scores.set(element, score * (1 - linkDensity(element))));
+  return scores;
+}
+
+function findTopCandidate(scores: Map<Element, number>): Candidate | null {
+  let top: Candidate | null = null;
+  scores.forEach((score, element) => {
+    if (!top || score > top.score) top = { element, score };
+  });
+  return top;
+}
+
+// The top candidate plus siblings that look like more of the same article
+function collectContent(top: Candidate, scores: Map<Element, number>): Node[] {
+  const parent = top.element.parentNode;
+  if (!parent) return Array.from(top.element.childNodes);
+
+  const threshold = Math.max(10, top.score * 0.2);
+  const topClass = top.element.getAttribute('class') || '';
+  return Array.from(parent.children).filter((sibling) => {
+    if (sibling === top.element) return true;
+    const bonus = topClass && sibling.getAttribute('class') === topClass ? top.score * 0.2 : 0;
+    if ((scores.get(sibling) ?? 0) + bonus >= threshold) return true;
+    if (sibling.tagName !== 'P') return false;
+    const text = textOf(sibling);
+    const density = linkDensity(sibling);
+    return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+  });
+}
+
+// Removes link lists, empty blocks and headings that only repeat the title
+function cleanContent(content: Element, title: string): void {
+  content.querySelectorAll('ul, ol, div, section, table').forEach((element) => {
+    if (!content.contains(element)) return;
+    const text = textOf(element);
+    if (linkDensity(element) > 0.5 && text.length < 1000) element.remove();
+  });
+  content.querySelectorAll('p, div, section, span').forEach((element) => {
+    if (content.contains(element) && !textOf(element)) element.remove();
+  });
+  content.querySelectorAll('h1').forEach((heading) => {
+    if (textOf(heading).toLowerCase() === title.trim().toLowerCase()) heading.remove();
+  });
+}
+
+// Makes every link absolute and opens it outside the app; links that can't be resolved become text
+function resolveLinks(content: Element, pageUrl: string): void {
+  content.querySelectorAll('a').forEach((link) => {
+    const href = link.getAttribute('href');
+    let resolved = '';
+    try {
+      resolved = href && !href.startsWith('#') ? new URL(href, pageUrl).toString() : '';
+    } catch {
+      // Leaves the link unresolved
+    }
+    if (/^https?:\/\//i.test(resolved)) {
+      link.setAttribute('href', resolved);
+      link.setAttribute('target', '_blank');
+      link.setAttribute('rel', 'noopener noreferrer');
+    } else {
+      link.replaceWith(...Array.from(link.childNodes));
+    }
+  });
+}
+
+/**
+ * Picks the main content out of a parsed page (see PAGE_PARSE_CONFIG). Falls back to the
+ * whole body when nothing scores well enough. The result must still be sanitized with
+ * READER_SANITIZE_CONFIG before it is stored.
+ */
+export function extractArticleContent(page: DocumentFragment, metadata: PageMetadata): ExtractedContent {
+  const heading = page.querySelector('h1');
+  const title = metadata.title || (heading ? textOf(heading) : '');
+  const bylineElement = page.querySelector(BYLINE_SELECTOR);
+  const byline = bylineElement ? textOf(bylineElement).slice(0, MAX_BYLINE_LENGTH) : '';
+
+  removeChrome(page);
+  // Pages that mark their article body (schema.org) are taken at their word
+  const marked = page.querySelector('[itemprop="articleBody"]');
+  const scores = scoreCandidates(page);
+  const top = findTopCandidate(scores);
+  const nodes = marked ? [marked] : top ? collectContent(top, scores) : [];
+
+  const content = document.createElement('div');
+  if (nodes.reduce((length, node) => length + textOf(node).length, 0) >= MIN_CONTENT_LENGTH) {
+    content.append(...(nodes.length === 1 ? Array.from(nodes[0].childNodes) : nodes));
+  } else {
+    content.append(...Array.from(page.childNodes));
+  }
+
+  cleanContent(content, title);
+  resolveLinks(content, metadata.url);
+
+  return { title, byline, html: content.innerHTML, wordCount: countWords(textOf(content)) };
+}
@@ -0,0 +1,113 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { SIGN_IN_PARAM } from './account-client';
+import {
+  consumeMagicLinkToken,
+  createMagicLinkToken,
+  deleteSession,
+  getSessionUser,
+  MAGIC_LINK_TTL_MS,
+  SESSION_TTL_MS,
+  signInLink
+} from './auth';
+import { getDatabase } from './server-db';
+
+// node:sqlite needs Node.js 22.13 or later; on older versions these tests are skipped
+// (getDatabase creates the directory, so nothing is left behind when they are)
+const directory = path.join(os.tmpdir(), `mypocket-test-${crypto.randomUUID()}`);
+process.env.MYPOCKET_DATABASE_PATH = path.join(directory, 'auth.db');
+const database = getDatabase();
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  if (database.ok) database.db.close();
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+function db() {
+  if (!database.ok) throw new Error(database.message);
+  return database.db;
+}
+
+// Each test signs in with an address of its own
+const newEmail = () => `reader-${crypto.randomUUID()}@example.com`;
+
+describe('signInLink', () => {
+  it('carries the token in the parameter the app reads', () => {
+    const link = new URL(signInLink('https://reader.example.com', 'abc'));
+    expect(link.origin + link.pathname).toBe('https://reader.example.com/');
+    expect(link.searchParams.get(SIGN_IN_PARAM)).toBe('abc');
+  });
+});
+
+describe.skipIf(!database.ok)('magic-link sign-in', () => {
+  it('creates the account on first use and starts a session for it', () => {
+    const email = newEmail();
+    const token = createMagicLinkToken(db(), `  ${email.toUpperCase()} `);
+
+    const result = consumeMagicLinkToken(db(), token);
+    if (!result.ok) throw new Error(result.reason);
+    expect(result.user.email).toBe(email);
+    expect(getSessionUser(db(), result.sessionId)).toEqual(result.user);
+  });
+
+  it('signs in to the same account again with a new link', () => {
+    const email = newEmail();
+    const first = consumeMagicLinkToken(db(), createMagicLinkToken(db(), email));
+    const second = consumeMagicLinkToken(db(), createMagicLinkToken(db(), email));
+    if (!first.ok || !second.ok) throw new Error('Sign-in failed');
+
+    expect(second.user.id).toBe(first.user.id);
+    expect(second.sessionId).not.toBe(first.sessionId);
+  });
+
+  it('accepts each token once', () => {
+    const token = createMagicLinkToken(db(), newEmail());
+    expect(consumeMagicLinkToken(db(), token).ok).toBe(true);
+    expect(consumeMagicLinkToken(db(), token)).toEqual({ ok: false, reason: 'used' });
+  });
+
+  it('refuses tokens it never issued', () => {
+    expect(consumeMagicLinkToken(db(), 'not-a-token')).toEqual({ ok: false, reason: 'invalid' });
+  });
+
+  it('refuses tokens once they expire', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const token = createMagicLinkToken(db(), newEmail());
+    vi.setSystemTime(Date.now() + MAGIC_LINK_TTL_MS);
+    expect(consumeMagicLinkToken(db(), token)).toEqual({ ok: false, reason: 'expired' });
+  });
+
+  it('stores tokens and sessions only as hashes', () => {
+    const token = createMagicLinkToken(db(), newEmail());
+    const result = consumeMagicLinkToken(db(), token);
+    if (!result.ok) throw new Error(result.reason);
+
+    const stored = JSON.stringify([
+      db().prepare('SELECT * FROM login_tokens').all(),
+      db().prepare('SELECT * FROM sessions').all()
+    ]);
+    expect(stored).not.toContain(token);
+    expect(stored).not.toContain(result.sessionId);
+  });
+
+  it('ends sessions on sign-out and when they expire', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const signedOut = consumeMagicLinkToken(db(), createMagicLinkToken(db(), newEmail()));
+    const expiring = consumeMagicLinkToken(db(), createMagicLinkToken(db(), newEmail()));
+    if (!signedOut.ok || !expiring.ok) throw new Error('Sign-in failed');
+
+    deleteSession(db(), signedOut.sessionId);
+    expect(getSessionUser(db(), signedOut.sessionId)).toBeNull();
+    expect(getSessionUser(db(), expiring.sessionId)).toEqual(expiring.user);
+
+    vi.setSystemTime(Date.now() + SESSION_TTL_MS);
+    expect(getSessionUser(db(), expiring.sessionId)).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import 'server-only';
+import crypto from 'node:crypto';
+import type { DatabaseSync } from 'node:sqlite';
+import type { NextRequest, NextResponse } from 'next/server';
+import { SIGN_IN_PARAM } from './account-client';
+import { transaction } from './server-db';
+
+// Email magic-link accounts. A sign-in link carries a random token that works once and
+// expires after a few minutes; using it starts a session kept in an HttpOnly cookie.
+// Tokens and session ids are stored only as SHA-256 hashes, so a copy of the database
+// can't be used to sign in.
+
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const SESSION_COOKIE = 'mypocket_session';
+
+export interface User {
+  id: string;
+  email: string;
+}
+
+export type ConsumeResult =
+  | { ok: true; user: User; sessionId: string }
+  | { ok: false; reason: 'invalid' | 'expired' | 'used' };
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Each account's library is stored under its own id, next to the API token's 'default' one
+export function libraryIdFor(user: User): string {
+  return `user:${user.id}`;
+}
+
+/**
+ * Where sign-in links point. MYPOCKET_APP_URL is required in production, since the Host
+ * header is chosen by the caller and a forged one would send the link elsewhere.
+ */
+export function appUrl(request: NextRequest): string | null {
+  const configured = process.env.MYPOCKET_APP_URL;
+  if (configured) return configured.replace(/\/+$/, '');
+  return process.env.NODE_ENV === 'production' ? null : request.nextUrl.origin;
+}
+
+export function signInLink(base: string, token: string): string {
+  const url = new URL(base + '/');
+  url.searchParams.set(SIGN_IN_PARAM, token);
+  return url.toString();
+}
+
+/**
+ * Stores a new sign-in token for `email` and returns it. Expired tokens are cleared out
+ * on the way.
+ */
+export function createMagicLinkToken(db: DatabaseSync, email: string): string {
+  const now = Date.now();
+  const token = randomToken();
+  db.prepare('DELETE FROM login_tokens WHERE expires_at <= ?').run(now);
+  db.prepare('INSERT INTO login_tokens (token_hash, email, created_at, expires_at) VALUES (?, ?, ?, ?)').run(
+    hash(token),
+    normalizeEmail(email),
+    now,
+    now + MAGIC_LINK_TTL_MS
+  );
+  return token;
+}
+
+/**
+ * Uses up a sign-in token: creates the account on its first sign-in and starts a session
+ */
+export function consumeMagicLinkToken(db: DatabaseSync, token: string): ConsumeResult {
+  return transaction(db, () => {
+    const now = Date.now();
+    const row = db
+      .prepare('SELECT email, expires_at, used_at FROM login_tokens WHERE token_hash = ?')
+      .get(hash(token)) as { email: string; expires_at: number; used_at: number | null } | undefined;
+    if (!row) return { ok: false, reason: 'invalid' };
+    if (row.used_at !== null) return { ok: false, reason: 'used' };
+    if (row.expires_at <= now) return { ok: false, reason: 'expired' };
+
+    db.prepare('UPDATE login_tokens SET used_at = ? WHERE token_hash = ?').run(now, hash(token));
+
+    const existing = db.prepare('SELECT id FROM users WHERE email = ?').get(row.email) as { id: string } | undefined;
+    const user: User = { id: existing?.id ?? crypto.randomUUID(), email: row.email };
+    if (existing) {
+      db.prepare('UPDATE users SET last_sign_in_at = ? WHERE id = ?').run(now, user.id);
+    } else {
+      db.prepare('INSERT INTO users (id, email, created_at, last_sign_in_at) VALUES (?, ?, ?, ?)').run(
+        user.id,
+        user.email,
+        now,
+        now
+      );
+    }
+
+    const sessionId = randomToken();
+    db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now);
+    db.prepare('INSERT INTO sessions (id_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)').run(
+      hash(sessionId),
+      user.id,
+      now,
+      now + SESSION_TTL_MS
+    );
+    return { ok: true, user, sessionId };
+  });
+}
+
+export function getSessionUser(db: DatabaseSync, sessionId: string): User | null {
+  const row = db
+    .prepare(
+      `SELECT users.id, users.email FROM sessions JOIN users ON users.id = sessions.user_id
+       WHERE sessions.id_hash = ? AND sessions.expires_at > ?`
+    )
+    .get(hash(sessionId), Date.now()) as { id: string; email: string } | undefined;
+  return row ? { id: row.id, email: row.email } : null;
+}
+
+export function deleteSession(db: DatabaseSync, sessionId: string): void {
+  db.prepare('DELETE FROM sessions WHERE id_hash = ?').run(hash(sessionId));
+}
+
+export function sessionIdOf(request: NextRequest): string | null {
+  return request.cookies.get(SESSION_COOKIE)?.value || null;
+}
+
+export function setSessionCookie(response: NextResponse, request: NextRequest, sessionId: string): void {
+  response.cookies.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+}
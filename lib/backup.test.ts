@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { type BackupPreferences, createBackup, parseBackup } from './backup';
+import type { Article } from './types';
+
+const preferences: BackupPreferences = {
+  itemsPerPage: 25,
+  sortBy: 'newest',
+  showUploadSection: false,
+  showFilters: true,
+  showStats: false,
+  showStatsStrip: true,
+  useCompression: true,
+  compressionCodec: 'gzip',
+  snapshotRetention: 5,
+  importMode: 'merge',
+  uploadMode: 'zip'
+};
+
+const article = (url: string, title: string): Article => ({
+  title,
+  url,
+  time_added: 1700000000,
+  tags: 'rust',
+  status: 'unread',
+  isFavorite: false,
+  parsedTags: ['rust']
+});
+
+describe('parseBackup', () => {
+  it('restores everything a backup was made from, including articles without a URL', () => {
+    const articles = [article('https://example.com/a', 'A'), article('', 'Kept for its title')];
+    const highlightData = [{ url: 'https://example.com/a', title: 'A', highlights: [{ quote: 'Line', created_at: 1 }] }];
+    const backup = createBackup({ articles, highlightData, timestamp: 1 }, preferences);
+
+    const restored = parseBackup(JSON.stringify(backup));
+    expect(restored.parsed.articles).toEqual(articles);
+    expect(restored.parsed.highlights).toEqual(highlightData);
+    expect(restored.parsed.rejected).toEqual([]);
+    expect(restored.preferences).toEqual(preferences);
+  });
+
+  it('rejects single records that are neither linked nor titled, or have an unsafe URL', () => {
+    const backup = createBackup(
+      {
+        articles: [article('', ''), article('javascript:alert(1)', 'Bad'), article('https://example.com/', 'Ok')],
+        highlightData: [],
+        timestamp: 1
+      },
+      preferences
+    );
+
+    const { parsed } = parseBackup(JSON.stringify(backup));
+    expect(parsed.articles.map((item) => item.title)).toEqual(['Ok']);
+    expect(parsed.rejected.map((row) => row.location)).toEqual(['article 1', 'article 2']);
+  });
+
+  it('refuses files that are not backups', () => {
+    expect(() => parseBackup('{"articles": []}')).toThrow(/Invalid backup file/);
+    expect(() => parseBackup('not json')).toThrow(/not valid JSON/);
+  });
+});
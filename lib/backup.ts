@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import type { CodecId } from './compression';
+import type { ExportInfo } from './export-scope';
+import type { ImportMode } from './import-merge';
+import { backupArticleSchema, backupHighlightsSchema } from './import-schemas';
+import { createRejectionLog, emptyParseStats, toRecord, type ParsedImport } from './importers';
+import { CURRENT_SCHEMA_VERSION, migrateLibrary } from './schema';
+import type { Article, ArticleWithHighlights, CachedData } from './types';
+
+// Full backup of the library and the app's preferences. Unlike the CSV/JSON export it keeps
+// every field (favorites, parsed tags, highlight locations), so a restore is lossless.
+
+export const BACKUP_FORMAT = 'mypocket-reader-backup';
+// Version of the backup envelope; the library inside carries its own schema version
+export const BACKUP_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = '.mypocket.json';
+
+export const SORT_ORDERS = ['default', 'newest', 'oldest', 'title-asc', 'title-desc'] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export interface BackupPreferences {
+  itemsPerPage: number;
+  sortBy: SortOrder;
+  showUploadSection: boolean;
+  showFilters: boolean;
+  showStats: boolean;
+  showStatsStrip: boolean;
+  useCompression: boolean;
+  compressionCodec: CodecId;
+  snapshotRetention: number;
+  importMode: ImportMode;
+  uploadMode: 'zip' | 'individual';
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  schemaVersion: number;
+  library: { articles: Article[]; highlightData: ArticleWithHighlights[] };
+  preferences: BackupPreferences;
+  // Which part of the library this backup holds, and the filters that chose it
+  export?: ExportInfo;
+}
+
+export interface RestoredBackup {
+  parsed: ParsedImport;
+  // Only the preferences that were present and valid
+  preferences: Partial<BackupPreferences>;
+  exportedAt: number;
+}
+
+const backupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, { error: 'Not a MyPocket Reader backup' }),
+  version: z.number().int().min(1),
+  exportedAt: z.number(),
+  schemaVersion: z.number().int().min(1),
+  library: z.object({ articles: z.array(z.unknown()), highlightData: z.array(z.unknown()) }),
+  preferences: z.unknown().optional()
+});
+
+// A preference that is missing or invalid is skipped rather than failing the restore
+const backupPreferencesSchema = z.object({
+  itemsPerPage: z.number().int().positive().optional().catch(undefined),
+  sortBy: z.enum(SORT_ORDERS).optional().catch(undefined),
+  showUploadSection: z.boolean().optional().catch(undefined),
+  showFilters: z.boolean().optional().catch(undefined),
+  showStats: z.boolean().optional().catch(undefined),
+  showStatsStrip: z.boolean().optional().catch(undefined),
+  useCompression: z.boolean().optional().catch(undefined),
+  compressionCodec: z.enum(['lz-string', 'gzip', 'deflate']).optional().catch(undefined),
+  snapshotRetention: z.number().int().positive().optional().catch(undefined),
+  importMode: z.enum(['replace', 'merge', 'update']).optional().catch(undefined),
+  uploadMode: z.enum(['zip', 'individual']).optional().catch(undefined)
+});
+
+export function createBackup(library: CachedData, preferences: BackupPreferences, exportInfo?: ExportInfo): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    library: { articles: library.articles, highlightData: library.highlightData },
+    preferences,
+    ...(exportInfo ? { export: exportInfo } : {})
+  };
+}
+
+/**
+ * Validates a backup and brings its library up to the current schema. Throws when the file
+ * is not a backup or comes from a newer app version; single records that fail validation
+ * are rejected and reported like import rows.
+ */
+export function parseBackup(text: string): RestoredBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  const envelope = backupFileSchema.safeParse(data);
+  if (!envelope.success) {
+    throw new Error(`Invalid backup file: ${envelope.error.issues[0]?.message ?? 'unknown format'}`);
+  }
+
+  const backup = envelope.data;
+  if (backup.version > BACKUP_VERSION) {
+    throw new Error(
+      `Backup uses format v${backup.version}, but this app only understands up to v${BACKUP_VERSION}. Please update the app.`
+    );
+  }
+
+  const { data: library } = migrateLibrary({ ...backup.library, timestamp: backup.exportedAt }, backup.schemaVersion);
+
+  const stats = { ...emptyParseStats(), totalRows: library.articles.length };
+  const log = createRejectionLog(stats);
+  const articles = library.articles.flatMap((value, index) => {
+    const article = log.validate(backupArticleSchema, value, `article ${index + 1}`, toRecord(value));
+    return article ? [article] : [];
+  });
+  const highlights = library.highlightData.flatMap((value, index) => {
+    const item = log.validate(backupHighlightsSchema, value, `highlights ${index + 1}`, toRecord(value));
+    return item ? [item] : [];
+  });
+
+  const preferences = backupPreferencesSchema.safeParse(backup.preferences ?? {});
+  return {
+    parsed: { format: 'mypocket-backup', articles, highlights, stats, rejected: log.rejected },
+    preferences: preferences.success
+      ? (Object.fromEntries(
+          Object.entries(preferences.data).filter(([, value]) => value !== undefined)
+        ) as Partial<BackupPreferences>)
+      : {},
+    exportedAt: backup.exportedAt
+  };
+}
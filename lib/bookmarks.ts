@@ -0,0 +1,78 @@
+import type { Article } from './types';
+
+// Netscape bookmark file format (<DL><DT><A>), exported and imported by every major browser
+
+// Folder the exporter puts favorites in; the importer maps it back to isFavorite
+export const BOOKMARKS_FAVORITES_FOLDER = 'Favorites';
+
+export function isNetscapeBookmarks(html: string): boolean {
+  return /<!DOCTYPE\s+NETSCAPE-Bookmark-file/i.test(html) || /<DT>\s*<(A|H3)\b/i.test(html);
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function bookmarkLine(article: Article, indent: string): string {
+  const attributes = [`HREF="${escapeHTML(article.url)}"`, `ADD_DATE="${article.time_added || 0}"`];
+  if (article.parsedTags.length > 0) {
+    attributes.push(`TAGS="${escapeHTML(article.parsedTags.join(','))}"`);
+  }
+  return `${indent}<DT><A ${attributes.join(' ')}>${escapeHTML(article.title || article.url)}</A>`;
+}
+
+function folderLines(name: string, articles: Article[], indent: string): string[] {
+  const latest = articles.reduce((max, article) => Math.max(max, article.time_added || 0), 0);
+  return [
+    `${indent}<DT><H3 ADD_DATE="${latest}">${escapeHTML(name)}</H3>`,
+    `${indent}<DL><p>`,
+    ...articles.map((article) => bookmarkLine(article, `${indent}    `)),
+    `${indent}</DL><p>`
+  ];
+}
+
+/**
+ * Builds a bookmarks file with one folder per tag, favorites in their own folder
+ * and untagged articles at the top level. An article with several tags appears
+ * in each of their folders; the TAGS attribute carries the full list.
+ */
+export function buildBookmarksHTML(articles: Article[], title: string = 'MyPocket Reader'): string {
+  const favorites = articles.filter((article) => article.isFavorite);
+  const byTag = new Map<string, Article[]>();
+  const untagged: Article[] = [];
+
+  for (const article of articles) {
+    if (article.parsedTags.length === 0) {
+      untagged.push(article);
+      continue;
+    }
+    for (const tag of article.parsedTags) {
+      const list = byTag.get(tag);
+      if (list) list.push(article);
+      else byTag.set(tag, [article]);
+    }
+  }
+
+  const indent = '    ';
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    `<TITLE>${escapeHTML(title)}</TITLE>`,
+    `<H1>${escapeHTML(title)}</H1>`,
+    '<DL><p>',
+    ...(favorites.length > 0 ? folderLines(BOOKMARKS_FAVORITES_FOLDER, favorites, indent) : []),
+    ...Array.from(byTag.keys())
+      .sort((a, b) => a.localeCompare(b))
+      .flatMap((tag) => folderLines(tag, byTag.get(tag) ?? [], indent)),
+    ...untagged.map((article) => bookmarkLine(article, indent)),
+    '</DL><p>'
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEncryptionConfig,
+  decodePayload,
+  encodePayload,
+  parseEncryptionConfig,
+  toTextPayload,
+  unlockEncryptionKey,
+  type CodecId
+} from './compression';
+
+const data = { articles: [{ title: 'Ünïcode ✓', url: 'https://example.com/a' }], highlightData: [], timestamp: 1 };
+
+describe('stored payloads', () => {
+  it.each<[CodecId | null, boolean]>([
+    [null, false],
+    ['lz-string', false],
+    ['gzip', false],
+    ['gzip', true],
+    ['deflate', true]
+  ])('round-trips with codec %s (binary: %s)', async (codec, binary) => {
+    const { payload, metadata } = await encodePayload(data, codec, binary);
+    expect(typeof payload === 'string').toBe(!binary || codec === null || codec === 'lz-string');
+    if (codec) expect(metadata.codec).toBe(codec);
+
+    expect((await decodePayload(payload)).data).toEqual(data);
+    expect((await decodePayload(toTextPayload(payload))).data).toEqual(data);
+  });
+
+  it('reads legacy uncompressed JSON and raw strings', async () => {
+    expect(await decodePayload(JSON.stringify(data))).toMatchObject({ data, metadata: { version: 'legacy' } });
+    expect(await decodePayload('plain text')).toMatchObject({ data: 'plain text', metadata: { version: 'legacy-raw' } });
+  });
+
+  it('rejects a compressed payload naming an unknown codec', async () => {
+    const payload = JSON.stringify({ compressed: true, version: 'v2', codec: 'brotli', data: 'abc', metadata: {} });
+    await expect(decodePayload(payload)).rejects.toThrow(/Unknown compression codec/);
+  });
+});
+
+describe('parseEncryptionConfig', () => {
+  it('reads back a stored config that still unlocks the library', async () => {
+    const { config } = await createEncryptionConfig('correct horse');
+    const parsed = parseEncryptionConfig(JSON.stringify(config));
+
+    if (!parsed) throw new Error('Config was not read back');
+
+    expect(parsed).toEqual(config);
+    expect(await unlockEncryptionKey(parsed, 'correct horse')).not.toBeNull();
+    expect(await unlockEncryptionKey(parsed, 'wrong horse')).toBeNull();
+  });
+
+  it('rejects damaged configs', () => {
+    expect(parseEncryptionConfig('not json')).toBeNull();
+    expect(parseEncryptionConfig('null')).toBeNull();
+    expect(parseEncryptionConfig(JSON.stringify({ version: 'aes-gcm-v1', salt: 'abc', iterations: '1' }))).toBeNull();
+  });
+});
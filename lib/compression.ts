@@ -1,14 +1,33 @@
 import LZString from 'lz-string';
+import { z } from 'zod';
+import type { StorageAdapter, StoredValue } from './storage';
 
 // Compression settings
 const COMPRESSION_KEY_SUFFIX = '_compressed';
-const COMPRESSION_VERSION = 'v1';
+// v1 payloads predate codecs and are always LZ-string; v2 payloads name their codec
+const COMPRESSION_VERSION = 'v2';
+// Binary payloads start with this tag, followed by a length-prefixed JSON header and the compressed bytes
+const BINARY_PAYLOAD_MAGIC = 'MPRZ';
+
+// Remembers which codec the user picked; kept in localStorage like the storage backend choice
+export const COMPRESSION_CODEC_KEY = 'mypocket-reader-compression-codec';
+
+export type CodecId = 'lz-string' | 'gzip' | 'deflate';
+
+interface CompressionCodec {
+  readonly id: CodecId;
+  readonly label: string;
+  isAvailable(): boolean;
+  compress(input: string): Promise<string | Uint8Array>;
+  decompress(data: string | Uint8Array): Promise<string>;
+}
 
 interface CompressionResult {
-  compressed: string;
+  compressed: string | Uint8Array;
   originalSize: number;
   compressedSize: number;
   compressionRatio: number;
+  durationMs: number;
 }
 
 export interface CompressionMetadata {
@@ -17,26 +36,118 @@ export interface CompressionMetadata {
   originalSize: number;
   compressedSize: number;
   compressionRatio: number;
+  // Absent on payloads written before codecs existed
+  codec?: CodecId;
+  durationMs?: number;
+}
+
+export interface CodecBenchmark {
+  codec: CodecId;
+  label: string;
+  size: number;
+  compressionRatio: number;
+  compressMs: number;
+  decompressMs: number;
+}
+
+// Pipes bytes through a native (de)compression stream, off the main thread in supporting browsers
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function streamCodec(id: 'gzip' | 'deflate', label: string): CompressionCodec {
+  return {
+    id,
+    label,
+    isAvailable: () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined',
+    compress: (input) => pipeBytes(new TextEncoder().encode(input), new CompressionStream(id)),
+    async decompress(data) {
+      const bytes = typeof data === 'string' ? base64ToBytes(data) : data;
+      return new TextDecoder().decode(await pipeBytes(bytes, new DecompressionStream(id)));
+    }
+  };
+}
+
+const lzStringCodec: CompressionCodec = {
+  id: 'lz-string',
+  label: 'LZ-string',
+  isAvailable: () => true,
+  // Optimized for localStorage: the output is a valid UTF-16 string
+  async compress(input) {
+    return LZString.compressToUTF16(input);
+  },
+  async decompress(data) {
+    const text = typeof data === 'string' ? data : new TextDecoder().decode(data);
+    const decompressed = LZString.decompressFromUTF16(text);
+    // Null or empty output means the data was never compressed
+    return decompressed === null || decompressed === '' ? text : decompressed;
+  }
+};
+
+const CODECS: readonly CompressionCodec[] = [
+  lzStringCodec,
+  streamCodec('gzip', 'gzip (native)'),
+  streamCodec('deflate', 'deflate (native)')
+];
+
+function getCodec(id: CodecId): CompressionCodec {
+  const codec = CODECS.find((candidate) => candidate.id === id);
+  if (!codec) {
+    throw new Error(`Unknown compression codec "${id}"`);
+  }
+  if (!codec.isAvailable()) {
+    throw new Error(`Compression codec "${codec.label}" is not supported by this browser`);
+  }
+  return codec;
+}
+
+/**
+ * Codecs usable in this browser, LZ-string first
+ */
+export function getAvailableCodecs(): { id: CodecId; label: string }[] {
+  return CODECS.filter((codec) => codec.isAvailable()).map(({ id, label }) => ({ id, label }));
+}
+
+export function getPreferredCodec(): CodecId {
+  try {
+    const stored = localStorage.getItem(COMPRESSION_CODEC_KEY);
+    if (stored && getAvailableCodecs().some((codec) => codec.id === stored)) {
+      return stored as CodecId;
+    }
+  } catch {
+    // localStorage can throw in privacy modes; fall through to the default
+  }
+  return 'lz-string';
+}
+
+export function setPreferredCodec(codec: CodecId): void {
+  localStorage.setItem(COMPRESSION_CODEC_KEY, codec);
+}
+
+function sizeOf(value: string | Uint8Array): number {
+  return typeof value === 'string' ? new Blob([value]).size : value.length;
 }
 
 /**
- * Compresses a JSON string using LZ-string
+ * Compresses a JSON string with the given codec
  * Returns both the compressed data and metadata about the compression
  */
-export function compressData(jsonString: string): CompressionResult {
+export async function compressData(jsonString: string, codecId: CodecId = 'lz-string'): Promise<CompressionResult> {
   const originalSize = new Blob([jsonString]).size;
-  
+  const startedAt = performance.now();
+
   try {
-    // Use LZ-string compression optimized for localStorage
-    const compressed = LZString.compressToUTF16(jsonString);
-    const compressedSize = new Blob([compressed]).size;
+    const compressed = await getCodec(codecId).compress(jsonString);
+    const compressedSize = sizeOf(compressed);
     const compressionRatio = ((originalSize - compressedSize) / originalSize) * 100;
-    
+
     return {
       compressed,
       originalSize,
       compressedSize,
-      compressionRatio
+      compressionRatio,
+      durationMs: performance.now() - startedAt
     };
   } catch (error) {
     console.error('🗜️ Compression failed, falling back to uncompressed data:', error);
@@ -45,185 +156,323 @@ export function compressData(jsonString: string): CompressionResult {
       compressed: jsonString,
       originalSize,
       compressedSize: originalSize,
-      compressionRatio: 0
+      compressionRatio: 0,
+      durationMs: performance.now() - startedAt
     };
   }
 }
 
 /**
- * Decompresses data that was compressed with compressData
- * Handles both compressed and uncompressed data for backward compatibility
+ * Decompresses data that was compressed with compressData using the codec recorded in its payload
+ * LZ-string input that turns out to be uncompressed is returned unchanged for backward compatibility
  */
-export function decompressData(data: string): string {
-  try {
-    // Try to decompress - if it fails, assume it's uncompressed data
-    const decompressed = LZString.decompressFromUTF16(data);
-    
-    // If decompression returns null or empty string, return original data
-    if (decompressed === null || decompressed === '') {
-      return data;
-    }
-    
-    return decompressed;
-  } catch (error) {
-    console.warn('🗜️ Decompression failed, assuming uncompressed data:', error);
-    // Fallback: return original data (might be uncompressed)
-    return data;
+export async function decompressData(data: string | Uint8Array, codecId: CodecId = 'lz-string'): Promise<string> {
+  return getCodec(codecId).decompress(data);
+}
+
+function encodeBinaryPayload(header: object, body: Uint8Array): Uint8Array {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const bytes = new Uint8Array(BINARY_PAYLOAD_MAGIC.length + 4 + headerBytes.length + body.length);
+  bytes.set(new TextEncoder().encode(BINARY_PAYLOAD_MAGIC), 0);
+  new DataView(bytes.buffer).setUint32(BINARY_PAYLOAD_MAGIC.length, headerBytes.length);
+  bytes.set(headerBytes, BINARY_PAYLOAD_MAGIC.length + 4);
+  bytes.set(body, BINARY_PAYLOAD_MAGIC.length + 4 + headerBytes.length);
+  return bytes;
+}
+
+interface BinaryPayloadHeader {
+  version: string;
+  codec: CodecId;
+  metadata: CompressionMetadata;
+}
+
+function isCodecId(value: unknown): value is CodecId {
+  return CODECS.some((codec) => codec.id === value);
+}
+
+function decodeBinaryPayload(bytes: Uint8Array): { header: BinaryPayloadHeader; body: Uint8Array } {
+  if (new TextDecoder().decode(bytes.subarray(0, BINARY_PAYLOAD_MAGIC.length)) !== BINARY_PAYLOAD_MAGIC) {
+    throw new Error('Unrecognized binary payload');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = view.getUint32(BINARY_PAYLOAD_MAGIC.length);
+  const headerStart = BINARY_PAYLOAD_MAGIC.length + 4;
+  const headerText = new TextDecoder().decode(bytes.subarray(headerStart, headerStart + headerLength));
+  const header: unknown = JSON.parse(headerText);
+  if (typeof header !== 'object' || header === null || !('codec' in header) || !isCodecId(header.codec)) {
+    throw new Error('Binary payload names no known codec');
   }
+  return { header: header as BinaryPayloadHeader, body: bytes.subarray(headerStart + headerLength) };
 }
 
 /**
- * Saves data to localStorage with compression
+ * Serializes data into the stored payload format, compressed with `codec` unless it is null.
+ * Binary codec output stays binary when `binary` is set (IndexedDB) and is base64-encoded otherwise (localStorage).
  * Includes metadata about the compression for debugging and UI display
  */
-export function saveCompressedToLocalStorage(
-  key: string, 
-  data: any, 
-  useCompression: boolean = true
-): CompressionMetadata {
+export async function encodePayload(
+  data: unknown,
+  codec: CodecId | null,
+  binary: boolean = false
+): Promise<{ payload: StoredValue; metadata: CompressionMetadata }> {
   const jsonString = JSON.stringify(data);
-  
-  if (useCompression) {
-    const compressionResult = compressData(jsonString);
-    
-    // Create metadata
+
+  const compressionResult = codec ? await compressData(jsonString, codec) : null;
+  // compressData hands back the input unchanged when compression failed; store that uncompressed
+  if (codec && compressionResult && compressionResult.compressed !== jsonString) {
+    const { compressed } = compressionResult;
+
     const metadata: CompressionMetadata = {
       version: COMPRESSION_VERSION,
       timestamp: Date.now(),
       originalSize: compressionResult.originalSize,
       compressedSize: compressionResult.compressedSize,
-      compressionRatio: compressionResult.compressionRatio
+      compressionRatio: compressionResult.compressionRatio,
+      codec,
+      durationMs: compressionResult.durationMs
     };
-    
+
+    if (typeof compressed !== 'string' && binary) {
+      return { payload: encodeBinaryPayload({ version: COMPRESSION_VERSION, codec, metadata }, compressed), metadata };
+    }
+
+    const encoded = typeof compressed === 'string' ? compressed : bytesToBase64(compressed);
+    if (typeof compressed !== 'string') {
+      // Report what is actually stored: base64 is a third larger than the bytes
+      metadata.compressedSize = encoded.length;
+      metadata.compressionRatio = ((metadata.originalSize - encoded.length) / metadata.originalSize) * 100;
+    }
+
     // Save compressed data with metadata
     const compressedPayload = {
       compressed: true,
       version: COMPRESSION_VERSION,
-      data: compressionResult.compressed,
+      codec,
+      encoding: typeof compressed === 'string' ? 'text' : 'base64',
+      data: encoded,
       metadata
     };
-    
-    localStorage.setItem(key, JSON.stringify(compressedPayload));
-    
+
+    return { payload: JSON.stringify(compressedPayload), metadata };
+  }
+
+  const size = new Blob([jsonString]).size;
+  return {
+    payload: jsonString,
+    metadata: {
+      version: COMPRESSION_VERSION,
+      timestamp: Date.now(),
+      originalSize: size,
+      compressedSize: size,
+      compressionRatio: 0
+    }
+  };
+}
+
+// The text form of a compressed payload, as written by encodePayload
+interface CompressedPayload {
+  compressed: true;
+  version: string;
+  // Absent on v1 payloads, which are always LZ-string
+  codec?: unknown;
+  encoding?: 'text' | 'base64';
+  data: string;
+  metadata: CompressionMetadata;
+}
+
+function isCompressedPayload(value: unknown): value is CompressedPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const payload = value as Partial<Record<keyof CompressedPayload, unknown>>;
+  return (
+    payload.compressed === true &&
+    typeof payload.version === 'string' &&
+    typeof payload.data === 'string' &&
+    payload.data !== ''
+  );
+}
+
+/**
+ * Parses a stored payload, decompressing it with the codec it names
+ * Handles binary, compressed and legacy uncompressed data
+ */
+export async function decodePayload(storedData: StoredValue): Promise<{
+  data: unknown;
+  metadata: CompressionMetadata;
+}> {
+  if (typeof storedData !== 'string') {
+    const { header, body } = decodeBinaryPayload(storedData);
+    const decompressedString = await decompressData(body, header.codec);
+    return { data: JSON.parse(decompressedString), metadata: header.metadata };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(storedData);
+  } catch (parseError) {
+    // If JSON parsing fails, might be old raw string data
+    console.warn('📂 Failed to parse stored data, assuming legacy format:', parseError);
+    return { data: storedData, metadata: legacyMetadata(storedData, 'legacy-raw') };
+  }
+
+  // Check if it's compressed data with our format
+  if (isCompressedPayload(parsed)) {
+    const codec = parsed.codec ?? 'lz-string';
+    if (!isCodecId(codec)) throw new Error(`Unknown compression codec: ${String(codec)}`);
+    const body = parsed.encoding === 'base64' ? base64ToBytes(parsed.data) : parsed.data;
+    const decompressedString = await decompressData(body, codec);
+    return { data: JSON.parse(decompressedString), metadata: { ...parsed.metadata, codec } };
+  }
+
+  // Legacy uncompressed data
+  return { data: parsed, metadata: legacyMetadata(storedData, 'legacy') };
+}
+
+/**
+ * Converts a stored value to its text form, for backends and backups that cannot hold bytes
+ */
+export function toTextPayload(value: StoredValue): string {
+  if (typeof value === 'string') return value;
+
+  if (isEncryptedPayload(value)) {
+    const { iv, data } = splitEncryptedBytes(value);
+    return JSON.stringify({ encrypted: true, version: ENCRYPTION_VERSION, binary: true, iv: bytesToBase64(iv), data: bytesToBase64(data) });
+  }
+
+  const { header, body } = decodeBinaryPayload(value);
+  return JSON.stringify({
+    compressed: true,
+    version: header.version,
+    codec: header.codec,
+    encoding: 'base64',
+    data: bytesToBase64(body),
+    metadata: header.metadata
+  });
+}
+
+/**
+ * Compresses the same data with every available codec and times the round trip
+ */
+export async function benchmarkCodecs(data: unknown, binary: boolean): Promise<CodecBenchmark[]> {
+  const results: CodecBenchmark[] = [];
+  for (const { id, label } of getAvailableCodecs()) {
+    const { payload, metadata } = await encodePayload(data, id, binary);
+    const startedAt = performance.now();
+    await decodePayload(payload);
+    results.push({
+      codec: id,
+      label,
+      size: metadata.compressedSize,
+      compressionRatio: metadata.compressionRatio,
+      compressMs: metadata.durationMs ?? 0,
+      decompressMs: performance.now() - startedAt
+    });
+  }
+  return results;
+}
+
+function legacyMetadata(storedData: string, version: string): CompressionMetadata {
+  const size = new Blob([storedData]).size;
+  return {
+    version,
+    timestamp: Date.now(),
+    originalSize: size,
+    compressedSize: size,
+    compressionRatio: 0
+  };
+}
+
+/**
+ * Saves data to the given storage backend with compression
+ */
+export async function saveCompressedToStorage(
+  adapter: StorageAdapter,
+  key: string,
+  data: unknown,
+  useCompression: boolean = true,
+  codec: CodecId = 'lz-string'
+): Promise<CompressionMetadata> {
+  const { payload, metadata } = await encodePayload(data, useCompression ? codec : null, adapter.supportsBinary);
+  await adapter.setValue(key, payload);
+
+  if (useCompression) {
     console.log('💾 Data saved with compression:', {
       key,
+      backend: adapter.backend,
+      codec,
       originalSize: formatBytes(metadata.originalSize),
       compressedSize: formatBytes(metadata.compressedSize),
       savings: formatBytes(metadata.originalSize - metadata.compressedSize),
       compressionRatio: metadata.compressionRatio.toFixed(1) + '%'
     });
-    
-    return metadata;
   } else {
-    // Save uncompressed data
-    localStorage.setItem(key, jsonString);
-    
-    const metadata: CompressionMetadata = {
-      version: COMPRESSION_VERSION,
-      timestamp: Date.now(),
-      originalSize: new Blob([jsonString]).size,
-      compressedSize: new Blob([jsonString]).size,
-      compressionRatio: 0
-    };
-    
     console.log('💾 Data saved without compression:', {
       key,
+      backend: adapter.backend,
       size: formatBytes(metadata.originalSize)
     });
-    
-    return metadata;
   }
+
+  return metadata;
 }
 
 /**
- * Loads data from localStorage with automatic decompression
- * Handles both compressed and legacy uncompressed data
+ * Loads data from the given storage backend with automatic decompression
  */
-export function loadCompressedFromLocalStorage(key: string): {
-  data: any;
+export async function loadCompressedFromStorage(adapter: StorageAdapter, key: string): Promise<{
+  data: unknown;
   metadata: CompressionMetadata | null;
-} {
+}> {
   try {
-    const storedData = localStorage.getItem(key);
-    
+    const storedData = await adapter.getValue(key);
+
     if (!storedData) {
       return { data: null, metadata: null };
     }
-    
-    try {
-      const parsed = JSON.parse(storedData);
-      
-      // Check if it's compressed data with our format
-      if (parsed.compressed && parsed.version && parsed.data) {
-        const decompressedString = decompressData(parsed.data);
-        const data = JSON.parse(decompressedString);
-        
-        console.log('📂 Loaded compressed data:', {
-          key,
-          version: parsed.version,
-          originalSize: formatBytes(parsed.metadata.originalSize),
-          compressedSize: formatBytes(parsed.metadata.compressedSize),
-          savings: formatBytes(parsed.metadata.originalSize - parsed.metadata.compressedSize),
-          compressionRatio: parsed.metadata.compressionRatio.toFixed(1) + '%'
-        });
-        
-        return { data, metadata: parsed.metadata };
-      } else {
-        // Legacy uncompressed data
-        console.log('📂 Loaded legacy uncompressed data:', { key });
-        
-        const metadata: CompressionMetadata = {
-          version: 'legacy',
-          timestamp: Date.now(),
-          originalSize: new Blob([storedData]).size,
-          compressedSize: new Blob([storedData]).size,
-          compressionRatio: 0
-        };
-        
-        return { data: parsed, metadata };
-      }
-    } catch (parseError) {
-      // If JSON parsing fails, might be old raw string data
-      console.warn('📂 Failed to parse stored data, assuming legacy format:', parseError);
-      
-      const metadata: CompressionMetadata = {
-        version: 'legacy-raw',
-        timestamp: Date.now(),
-        originalSize: new Blob([storedData]).size,
-        compressedSize: new Blob([storedData]).size,
-        compressionRatio: 0
-      };
-      
-      return { data: storedData, metadata };
+
+    const decoded = await decodePayload(storedData);
+    const { metadata } = decoded;
+    if (metadata.version === 'legacy' || metadata.version === 'legacy-raw') {
+      console.log('📂 Loaded legacy uncompressed data:', { key });
+    } else {
+      console.log('📂 Loaded compressed data:', {
+        key,
+        version: metadata.version,
+        codec: metadata.codec,
+        originalSize: formatBytes(metadata.originalSize),
+        compressedSize: formatBytes(metadata.compressedSize),
+        savings: formatBytes(metadata.originalSize - metadata.compressedSize),
+        compressionRatio: metadata.compressionRatio.toFixed(1) + '%'
+      });
     }
+    return decoded;
   } catch (error) {
-    console.error('📂 Failed to load data from localStorage:', error);
+    console.error(`📂 Failed to load data from ${adapter.backend}:`, error);
     return { data: null, metadata: null };
   }
 }
 
 /**
- * Gets compression statistics for stored data without loading the full dataset
+ * Gets compression statistics for stored data without decompressing the full dataset
  */
-export function getCompressionStats(key: string): CompressionMetadata | null {
+export async function getCompressionStats(
+  adapter: StorageAdapter,
+  key: string
+): Promise<CompressionMetadata | null> {
   try {
-    const storedData = localStorage.getItem(key);
+    const storedData = await adapter.getValue(key);
     if (!storedData) return null;
-    
+
+    if (typeof storedData !== 'string') {
+      return decodeBinaryPayload(storedData).header.metadata;
+    }
+
     const parsed = JSON.parse(storedData);
-    
+
     if (parsed.compressed && parsed.metadata) {
       return parsed.metadata;
-    } else {
-      // Legacy uncompressed data
-      return {
-        version: 'legacy',
-        timestamp: Date.now(),
-        originalSize: new Blob([storedData]).size,
-        compressedSize: new Blob([storedData]).size,
-        compressionRatio: 0
-      };
     }
+    // Legacy uncompressed data
+    return legacyMetadata(storedData, 'legacy');
   } catch (error) {
     console.error('📊 Failed to get compression stats:', error);
     return null;
@@ -233,21 +482,21 @@ export function getCompressionStats(key: string): CompressionMetadata | null {
 /**
  * Migrates legacy uncompressed data to compressed format
  */
-export function migrateToCompressed(key: string): boolean {
+export async function migrateToCompressed(adapter: StorageAdapter, key: string): Promise<boolean> {
   try {
-    const { data, metadata } = loadCompressedFromLocalStorage(key);
-    
+    const { data, metadata } = await loadCompressedFromStorage(adapter, key);
+
     if (!data || !metadata) return false;
-    
+
     // If already compressed, no migration needed
     if (metadata.version !== 'legacy' && metadata.version !== 'legacy-raw') {
       return true;
     }
-    
+
     // Migrate to compressed format
     console.log('🔄 Migrating data to compressed format:', key);
-    const newMetadata = saveCompressedToLocalStorage(key, data, true);
-    
+    const newMetadata = await saveCompressedToStorage(adapter, key, data, true);
+
     console.log('✅ Migration completed:', {
       key,
       oldSize: formatBytes(metadata.originalSize),
@@ -255,7 +504,7 @@ export function migrateToCompressed(key: string): boolean {
       savings: formatBytes(metadata.originalSize - newMetadata.compressedSize),
       compressionRatio: newMetadata.compressionRatio.toFixed(1) + '%'
     });
-    
+
     return true;
   } catch (error) {
     console.error('🔄 Migration failed:', error);
@@ -263,8 +512,206 @@ export function migrateToCompressed(key: string): boolean {
   }
 }
 
+// Encryption settings (PBKDF2-derived AES-GCM key, applied after compression)
+const ENCRYPTION_VERSION = 'aes-gcm-v1';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const KEY_CHECK_TEXT = 'mypocket-reader-key-check';
+
+/**
+ * Stored next to the library so the passphrase can be checked without decrypting any records.
+ * Holds no secret: the verifier is a known string encrypted with the derived key.
+ */
+export interface EncryptionConfig {
+  version: string;
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+const encryptionConfigSchema = z.object({
+  version: z.string(),
+  salt: z.string(),
+  iterations: z.number().int().positive(),
+  verifier: z.string()
+});
+
+// Reads a stored config; null when it is missing fields or not JSON at all
+export function parseEncryptionConfig(stored: string): EncryptionConfig | null {
+  try {
+    const parsed = encryptionConfigSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes.set([binary.charCodeAt(i)], i);
+  }
+  return bytes;
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2-SHA-256
+ */
+export async function deriveEncryptionKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptString(plaintext: string, key: CryptoKey): Promise<{ iv: string; data: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptString(iv: string, data: string, key: CryptoKey): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(iv) as BufferSource },
+    key,
+    base64ToBytes(data) as BufferSource
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Creates the config for a new passphrase, returning it with the derived key
+ */
+export async function createEncryptionConfig(
+  passphrase: string
+): Promise<{ config: EncryptionConfig; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveEncryptionKey(passphrase, salt);
+  const verifier = await encryptString(KEY_CHECK_TEXT, key);
+
+  return {
+    config: {
+      version: ENCRYPTION_VERSION,
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: JSON.stringify(verifier)
+    },
+    key
+  };
+}
+
+/**
+ * Derives the key for a passphrase and checks it against the stored verifier.
+ * Returns null when the passphrase is wrong.
+ */
+export async function unlockEncryptionKey(
+  config: EncryptionConfig,
+  passphrase: string
+): Promise<CryptoKey | null> {
+  const key = await deriveEncryptionKey(passphrase, base64ToBytes(config.salt), config.iterations);
+  try {
+    const { iv, data } = JSON.parse(config.verifier);
+    return (await decryptString(iv, data, key)) === KEY_CHECK_TEXT ? key : null;
+  } catch {
+    // AES-GCM authentication fails for a wrong key
+    return null;
+  }
+}
+
+// Encrypted binary payloads start with this tag, followed by the IV and the ciphertext
+const ENCRYPTED_BINARY_MAGIC = 'MPRE';
+
+function splitEncryptedBytes(bytes: Uint8Array): { iv: Uint8Array; data: Uint8Array } {
+  const ivStart = ENCRYPTED_BINARY_MAGIC.length;
+  return { iv: bytes.subarray(ivStart, ivStart + IV_BYTES), data: bytes.subarray(ivStart + IV_BYTES) };
+}
+
+export function isEncryptedPayload(stored: StoredValue): boolean {
+  if (typeof stored === 'string') {
+    return stored.startsWith('{"encrypted":true');
+  }
+  return new TextDecoder().decode(stored.subarray(0, ENCRYPTED_BINARY_MAGIC.length)) === ENCRYPTED_BINARY_MAGIC;
+}
+
+/**
+ * Encrypts an encoded (and usually compressed) payload for storage; binary payloads stay binary
+ */
+export async function encryptPayload(payload: StoredValue, key: CryptoKey): Promise<StoredValue> {
+  if (typeof payload === 'string') {
+    const { iv, data } = await encryptString(payload, key);
+    return JSON.stringify({ encrypted: true, version: ENCRYPTION_VERSION, iv, data });
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, payload as BufferSource)
+  );
+  const bytes = new Uint8Array(ENCRYPTED_BINARY_MAGIC.length + IV_BYTES + ciphertext.length);
+  bytes.set(new TextEncoder().encode(ENCRYPTED_BINARY_MAGIC), 0);
+  bytes.set(iv, ENCRYPTED_BINARY_MAGIC.length);
+  bytes.set(ciphertext, ENCRYPTED_BINARY_MAGIC.length + IV_BYTES);
+  return bytes;
+}
+
+async function decryptBytes(iv: Uint8Array, data: Uint8Array, key: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key, data as BufferSource)
+  );
+}
+
+/**
+ * Reverses encryptPayload; plaintext payloads pass through unchanged
+ */
+export async function decryptPayload(stored: StoredValue, key: CryptoKey | null): Promise<StoredValue> {
+  if (!isEncryptedPayload(stored)) return stored;
+  if (!key) {
+    throw new Error('Library is encrypted and locked');
+  }
+
+  if (typeof stored !== 'string') {
+    const { iv, data } = splitEncryptedBytes(stored);
+    return decryptBytes(iv, data, key);
+  }
+
+  const { iv, data, binary } = JSON.parse(stored);
+  // Binary payloads converted to text by toTextPayload decrypt back to bytes
+  if (binary) {
+    return decryptBytes(base64ToBytes(iv), base64ToBytes(data), key);
+  }
+  return decryptString(iv, data, key);
+}
+
 // Helper function to format bytes
-function formatBytes(bytes: number): string {
+export function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
   const i = Math.floor(Math.log(bytes) / Math.log(k));
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateGroups, mergeDuplicates } from './duplicates';
+import type { Article, ArticleWithHighlights } from './types';
+
+const article = (url: string, fields: Partial<Article> = {}): Article => ({
+  title: url || 'Untitled',
+  url,
+  time_added: 1700000000,
+  tags: '',
+  status: 'unread',
+  isFavorite: false,
+  parsedTags: [],
+  ...fields
+});
+
+const highlights = (url: string, quotes: string[]): ArticleWithHighlights => ({
+  url,
+  title: url,
+  highlights: quotes.map((quote, index) => ({ quote, created_at: index + 1 }))
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups URL variants, oldest first, and counts their highlights', () => {
+    const groups = findDuplicateGroups(
+      [
+        article('http://www.example.com/a/', { time_added: 3 }),
+        article('https://example.com/a?utm_source=feed', { time_added: 1 }),
+        article('https://example.com/b')
+      ],
+      [highlights('https://example.com/a', ['One', 'Two'])]
+    );
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].articles.map((item) => item.time_added)).toEqual([1, 3]);
+    expect(groups[0].highlightCount).toBe(2);
+  });
+
+  it('never treats articles without a URL as duplicates', () => {
+    const groups = findDuplicateGroups([article('', { title: 'One' }), article('', { title: 'Two' })], []);
+    expect(groups).toEqual([]);
+  });
+});
+
+describe('mergeDuplicates', () => {
+  it('unions tags, favorites and highlights into the oldest copy, dropping its tracking parameters', () => {
+    const result = mergeDuplicates(
+      [
+        article('https://example.com/a', { time_added: 5, title: 'Newer', parsedTags: ['news'], isFavorite: true }),
+        article('https://example.com/b'),
+        article('https://example.com/a?utm_source=feed', { time_added: 2, title: 'Older', parsedTags: ['tech'] })
+      ],
+      [highlights('https://example.com/a', ['One', 'Two']), highlights('http://www.example.com/a/', ['One', 'Three'])]
+    );
+
+    expect(result).toMatchObject({ merged: 1, removed: 1 });
+    expect(result.articles.map((item) => item.url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(result.articles[0]).toMatchObject({
+      title: 'Older',
+      time_added: 2,
+      isFavorite: true,
+      parsedTags: ['tech', 'news'],
+      tags: 'tech|news|*'
+    });
+    expect(result.highlightData).toHaveLength(1);
+    expect(result.highlightData[0].url).toBe('https://example.com/a');
+    expect(result.highlightData[0].highlights.map((item) => item.quote)).toEqual(['One', 'Two', 'Three']);
+  });
+
+  it('leaves articles without a URL and their highlights alone', () => {
+    const articles = [article('', { title: 'One' }), article('', { title: 'Two' })];
+    const highlightData = [highlights('', ['Kept'])];
+
+    const result = mergeDuplicates(articles, highlightData);
+    expect(result).toEqual({ articles, highlightData, merged: 0, removed: 0 });
+  });
+});
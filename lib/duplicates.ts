@@ -0,0 +1,134 @@
+import { highlightKey } from './import-merge';
+import type { Article, ArticleWithHighlights, Highlight } from './types';
+import { canonicalizeUrl, normalizeUrl } from './url';
+
+// Articles saved more than once under variants of the same URL
+// (tracking parameters, http vs https, "www.", trailing slashes)
+export interface DuplicateGroup {
+  key: string;
+  // Oldest first; the first one is kept when the group is merged
+  articles: Article[];
+  highlightCount: number;
+}
+
+export interface DuplicateMergeResult {
+  articles: Article[];
+  highlightData: ArticleWithHighlights[];
+  merged: number;
+  removed: number;
+}
+
+function highlightsByKey(highlightData: ArticleWithHighlights[]): Map<string, ArticleWithHighlights[]> {
+  const byKey = new Map<string, ArticleWithHighlights[]>();
+  for (const item of highlightData) {
+    const key = normalizeUrl(item.url);
+    if (!key) continue;
+    byKey.set(key, [...(byKey.get(key) || []), item]);
+  }
+  return byKey;
+}
+
+/**
+ * Groups articles whose URLs normalize to the same key, largest groups first. Articles
+ * without a URL are never duplicates of each other.
+ */
+export function findDuplicateGroups(articles: Article[], highlightData: ArticleWithHighlights[]): DuplicateGroup[] {
+  const byKey = new Map<string, Article[]>();
+  for (const article of articles) {
+    const key = normalizeUrl(article.url);
+    if (!key) continue;
+    byKey.set(key, [...(byKey.get(key) || []), article]);
+  }
+
+  const highlights = highlightsByKey(highlightData);
+  const groups: DuplicateGroup[] = [];
+  byKey.forEach((group, key) => {
+    if (group.length < 2) return;
+    groups.push({
+      key,
+      articles: [...group].sort((a, b) => a.time_added - b.time_added),
+      highlightCount: (highlights.get(key) || []).reduce((sum, item) => sum + item.highlights.length, 0)
+    });
+  });
+
+  return groups.sort((a, b) => b.articles.length - a.articles.length || a.key.localeCompare(b.key));
+}
+
+/**
+ * Combines duplicates into the oldest article: tags are unioned, the earliest time_added
+ * is kept and the article is a favorite if any copy was. The oldest copy's status is kept,
+ * as is its title unless it is only the URL.
+ */
+export function mergeDuplicateArticles(group: Article[]): Article {
+  const [oldest] = [...group].sort((a, b) => a.time_added - b.time_added);
+  const tags = Array.from(new Set(group.flatMap((article) => article.parsedTags)));
+  const isFavorite = group.some((article) => article.isFavorite);
+  const titled = [oldest, ...group].find((article) => article.title && article.title !== article.url);
+
+  return {
+    ...oldest,
+    url: canonicalizeUrl(oldest.url),
+    title: titled ? titled.title : oldest.title,
+    tags: [...tags, ...(isFavorite ? ['*'] : [])].join('|'),
+    parsedTags: tags,
+    isFavorite
+  };
+}
+
+/**
+ * Merges the given duplicate groups (all of them when no keys are given). Each merged
+ * article takes the place of its oldest copy and their highlights are unioned under its URL.
+ */
+export function mergeDuplicates(
+  articles: Article[],
+  highlightData: ArticleWithHighlights[],
+  keys?: string[]
+): DuplicateMergeResult {
+  const groups = findDuplicateGroups(articles, highlightData).filter((group) => !keys || keys.includes(group.key));
+  if (groups.length === 0) return { articles, highlightData, merged: 0, removed: 0 };
+
+  const mergedByKey = new Map(groups.map((group) => [group.key, mergeDuplicateArticles(group.articles)]));
+  const placed = new Set<string>();
+  const nextArticles: Article[] = [];
+  for (const article of articles) {
+    const key = normalizeUrl(article.url);
+    const merged = key ? mergedByKey.get(key) : undefined;
+    if (!merged) {
+      nextArticles.push(article);
+    } else if (!placed.has(key)) {
+      placed.add(key);
+      nextArticles.push(merged);
+    }
+  }
+
+  const highlights = highlightsByKey(highlightData);
+  const nextHighlights: ArticleWithHighlights[] = [];
+  const combined = new Set<string>();
+  for (const item of highlightData) {
+    const key = normalizeUrl(item.url);
+    const merged = key ? mergedByKey.get(key) : undefined;
+    if (!merged) {
+      nextHighlights.push(item);
+      continue;
+    }
+    if (combined.has(key)) continue;
+    combined.add(key);
+
+    const seen = new Set<string>();
+    const union: Highlight[] = [];
+    for (const highlight of (highlights.get(key) || []).flatMap((entry) => entry.highlights)) {
+      const hKey = highlightKey(highlight);
+      if (seen.has(hKey)) continue;
+      seen.add(hKey);
+      union.push(highlight);
+    }
+    nextHighlights.push({ url: merged.url, title: merged.title, highlights: union });
+  }
+
+  return {
+    articles: nextArticles,
+    highlightData: nextHighlights,
+    merged: groups.length,
+    removed: articles.length - nextArticles.length
+  };
+}
@@ -0,0 +1,120 @@
+import type { SortOrder } from './backup';
+import type { Article, ArticleWithHighlights } from './types';
+import { normalizeUrl } from './url';
+
+// Which articles an export covers, and a record of the filters that chose them so the
+// person receiving a partial export can tell what they were given.
+
+export type ExportScopeKind = 'library' | 'view' | 'selection';
+
+// The article list filters as set in the UI
+export interface LibraryFilters {
+  searchTerm: string;
+  tags: string[];
+  favoritesOnly: boolean;
+  highlightsOnly: boolean;
+  readOnly: boolean;
+  unreadOnly: boolean;
+  brokenOnly: boolean;
+  sortBy: SortOrder;
+}
+
+export interface ExportScope {
+  kind: ExportScopeKind;
+  articles: Article[];
+  highlightData: ArticleWithHighlights[];
+  // Set for the filtered view
+  filters?: LibraryFilters;
+}
+
+// What an export file records about how it was produced
+export interface ExportInfo {
+  scope: ExportScopeKind;
+  description: string;
+  filters?: LibraryFilters;
+  articleCount: number;
+  highlightCount: number;
+}
+
+/**
+ * The whole library exports every highlight, including highlights whose article isn't in
+ * the library; a view or selection only exports the highlights of its articles.
+ */
+export function createExportScope(
+  kind: ExportScopeKind,
+  articles: Article[],
+  highlightData: ArticleWithHighlights[],
+  filters?: LibraryFilters
+): ExportScope {
+  if (kind === 'library') return { kind, articles, highlightData };
+
+  const urls = new Set(articles.map((article) => normalizeUrl(article.url)));
+  return {
+    kind,
+    articles,
+    highlightData: highlightData.filter((item) => urls.has(normalizeUrl(item.url))),
+    ...(kind === 'view' && filters ? { filters } : {})
+  };
+}
+
+/**
+ * e.g. 'search "rust", tags: programming + to-read, unread only'
+ */
+export function describeFilters(filters: LibraryFilters): string {
+  const parts = [
+    filters.searchTerm ? `search "${filters.searchTerm}"` : '',
+    filters.tags.length > 0 ? `tags: ${filters.tags.join(' + ')}` : '',
+    filters.favoritesOnly ? 'favorites only' : '',
+    filters.highlightsOnly ? 'with highlights only' : '',
+    filters.readOnly ? 'read only' : '',
+    filters.unreadOnly ? 'unread only' : '',
+    filters.brokenOnly ? 'broken links only' : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no filters';
+}
+
+export function describeExportScope(scope: ExportScope): string {
+  switch (scope.kind) {
+    case 'library':
+      return 'Whole library';
+    case 'view':
+      return `Filtered view (${scope.filters ? describeFilters(scope.filters) : 'no filters'})`;
+    case 'selection':
+      return `${scope.articles.length} selected ${scope.articles.length === 1 ? 'article' : 'articles'}`;
+  }
+}
+
+export function createExportInfo(scope: ExportScope): ExportInfo {
+  return {
+    scope: scope.kind,
+    description: describeExportScope(scope),
+    ...(scope.filters ? { filters: scope.filters } : {}),
+    articleCount: scope.articles.length,
+    highlightCount: scope.highlightData.reduce((sum, item) => sum + item.highlights.length, 0)
+  };
+}
+
+/**
+ * Human-readable note added to ZIP exports. Markdown rather than JSON so importing the
+ * ZIP again doesn't mistake it for a highlights file.
+ */
+export function exportInfoMarkdown(scope: ExportScope, exportedAt: Date = new Date()): string {
+  const info = createExportInfo(scope);
+  const lines = [
+    '# MyPocket Reader export',
+    '',
+    `- Exported: ${exportedAt.toISOString()}`,
+    `- Contents: ${info.description}`,
+    `- Articles: ${info.articleCount}`,
+    `- Highlights: ${info.highlightCount}`
+  ];
+  if (info.filters) {
+    lines.push(`- Sort: ${info.filters.sortBy}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Suffix for export file names, e.g. "mypocket-reader-export-view-2024-05-01.zip"
+export function exportFileSuffix(scope: ExportScope): string {
+  return scope.kind === 'library' ? '' : `-${scope.kind}`;
+}
@@ -0,0 +1,56 @@
+import { runImportJob, type ImportJobProgress, type ImportJobResult, type ImportWorkerMessage } from './import-job';
+
+/**
+ * Runs an import in the import worker, reporting progress. Aborting the signal terminates
+ * the worker and rejects with the abort reason; nothing has been staged at that point,
+ * so the library is untouched. Falls back to the main thread where workers are unavailable.
+ */
+export function startImportJob(
+  file: File,
+  options: { signal: AbortSignal; onProgress: (progress: ImportJobProgress) => void }
+): Promise<ImportJobResult> {
+  const { signal, onProgress } = options;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  if (typeof Worker === 'undefined') {
+    return runImportJob(file, file.name, (progress) => {
+      // Throwing from the progress callback stops the job at the next report
+      signal.throwIfAborted();
+      onProgress(progress);
+    });
+  }
+
+  return new Promise<ImportJobResult>((resolve, reject) => {
+    const worker = new Worker(new URL('./import.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', abort);
+
+    worker.addEventListener('message', (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'done') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'Import worker failed'));
+    });
+
+    worker.postMessage({ file });
+  });
+}
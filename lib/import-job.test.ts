@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { emptyParseStats, type ParsedImport } from './importers';
+import { mergeImportParts, rejectedRowsToCSV } from './import-job';
+import type { Article } from './types';
+
+const article = (url: string, title = url): Article => ({
+  title,
+  url,
+  time_added: 1700000000,
+  tags: '',
+  status: 'unread',
+  isFavorite: false,
+  parsedTags: []
+});
+
+const part = (name: string, articles: Article[]): { name: string; parsed: ParsedImport } => ({
+  name,
+  parsed: { format: 'pocket-csv', articles, highlights: [], stats: emptyParseStats(), rejected: [] }
+});
+
+describe('mergeImportParts', () => {
+  it('keeps the first article for each normalized URL across files', () => {
+    const result = mergeImportParts([
+      part('a.csv', [article('https://example.com/post?utm_source=x', 'First')]),
+      part('b.csv', [article('http://www.example.com/post/', 'Second')])
+    ]);
+
+    expect(result.articles.map((item) => item.title)).toEqual(['First']);
+    expect(result.articles[0].url).toBe('https://example.com/post');
+    expect(result.report[1]).toContain('1 duplicate articles skipped');
+  });
+
+  it('keeps every article without a URL', () => {
+    const result = mergeImportParts([
+      part('a.csv', [article('', 'Untitled one'), article('', 'Untitled two')]),
+      part('b.csv', [article('', 'Untitled three')])
+    ]);
+
+    expect(result.articles.map((item) => item.title)).toEqual(['Untitled one', 'Untitled two', 'Untitled three']);
+    expect(result.report.join('\n')).not.toContain('duplicate');
+  });
+
+  it('merges highlights for the same URL, skipping exact repeats', () => {
+    const highlight = { quote: 'A line', created_at: 1 };
+    const parsed = (quotes: (typeof highlight)[]): { name: string; parsed: ParsedImport } => ({
+      name: 'highlights.json',
+      parsed: {
+        format: 'pocket-highlights-json',
+        articles: [],
+        highlights: [{ url: 'https://example.com/a', title: 'A', highlights: quotes }],
+        stats: emptyParseStats(),
+        rejected: []
+      }
+    });
+
+    const result = mergeImportParts([parsed([highlight]), parsed([highlight, { quote: 'Another', created_at: 2 }])]);
+    expect(result.highlights).toHaveLength(1);
+    expect(result.highlights[0].highlights.map((item) => item.quote)).toEqual(['A line', 'Another']);
+  });
+});
+
+describe('rejectedRowsToCSV', () => {
+  it('writes one column per field seen in any row, leaving missing fields empty', () => {
+    const csv = rejectedRowsToCSV([
+      { file: 'a.csv', location: 'line 2', reason: 'No URL or title', record: { title: '', url: '' } },
+      { file: 'b.csv', location: 'line 5', reason: 'Bad date', record: { url: 'https://example.com', time_added: 'x' } }
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'import_file,import_location,import_error,title,url,time_added',
+      'a.csv,line 2,No URL or title,,,',
+      'b.csv,line 5,Bad date,,https://example.com,x'
+    ]);
+  });
+
+  it('escapes values a spreadsheet would evaluate as formulas', () => {
+    const csv = rejectedRowsToCSV([{ file: 'a.csv', location: 'line 2', reason: 'Bad', record: { title: '=1+1' } }]);
+    expect(csv).toContain("'=1+1");
+  });
+});
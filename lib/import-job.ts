@@ -0,0 +1,361 @@
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { UNSAFE_URL_REASON } from './import-schemas';
+import {
+  createRejectionLog,
+  detectCSVFormat,
+  detectJSONFormat,
+  emptyParseStats,
+  parseInstapaperCSV,
+  parseKindleClippings,
+  parseOmnivoreJSON,
+  parsePocketCSV,
+  parsePocketHighlightsJSON,
+  parseRaindropCSV,
+  parseReadwiseCSV,
+  parseTagsAndFavorites,
+  toRecord,
+  IMPORT_FORMAT_LABELS,
+  type ImportParseStats,
+  type ImportSanitizers,
+  type ParsedImport,
+  type ParseOptions,
+  type RejectedRow
+} from './importers';
+import type { Article, ArticleWithHighlights } from './types';
+import { canonicalizeUrl, normalizeUrl } from './url';
+
+// The import pipeline that runs in the import worker: read, unzip, parse and sanitize.
+// Nothing here touches the DOM; HTML files are handed back for the main thread to parse.
+
+export const isZipFile = (name: string) => /\.zip$/i.test(name);
+export const isHTMLFile = (name: string) => /\.html?$/i.test(name);
+// Kindle's "My Clippings.txt"
+export const isTextFile = (name: string) => /\.txt$/i.test(name);
+const isCSVFile = (name: string) => /\.csv$/i.test(name);
+const isJSONFile = (name: string) => /\.json$/i.test(name);
+
+export interface ImportJobProgress {
+  phase: 'reading' | 'unzipping' | 'parsing';
+  fileName: string;
+  // Bytes while reading, files while unzipping, characters while parsing
+  completed: number;
+  total: number;
+  rowsParsed: number;
+}
+
+export type ImportJobPart =
+  | { name: string; parsed: ParsedImport }
+  // Needs the DOM (DOMPurify) to parse
+  | { name: string; html: string }
+  | { name: string; error: string };
+
+// A rejected record together with the file it came from
+export interface FileRejection extends RejectedRow {
+  file: string;
+}
+
+export interface ImportJobResult {
+  parts: ImportJobPart[];
+  // Importable files found; zero for a ZIP without any
+  fileCount: number;
+}
+
+// Messages between the importer component and the import worker
+export type ImportWorkerRequest = { file: File };
+export type ImportWorkerMessage =
+  | { type: 'progress'; progress: ImportJobProgress }
+  | { type: 'done'; result: ImportJobResult }
+  | { type: 'error'; message: string };
+
+/**
+ * DOMPurify needs a DOM, which workers lack. It returns strings without "<" unchanged,
+ * so for those these pass-throughs give the same result; strings with markup are
+ * finished on the main thread by `completeSanitizing`.
+ */
+export const workerSanitizers: ImportSanitizers = {
+  sanitizeString: (input) => (typeof input === 'string' ? input : ''),
+  sanitizeHighlight: (input) => (typeof input === 'string' ? input : ''),
+  sanitizeUrl: (input) => (typeof input === 'string' && /^https?:\/\//i.test(input) ? input : ''),
+  parseTagsAndFavorites
+};
+
+const hasMarkup = (value: string | undefined) => Boolean(value && value.includes('<'));
+
+/**
+ * Runs the DOM sanitizers over the fields the worker could not finish (those containing "<").
+ * Rows whose URL does not survive are dropped and counted as invalid.
+ */
+export function completeSanitizing(parsed: ParsedImport, sanitizers: ImportSanitizers): ParsedImport {
+  const stats = { ...parsed.stats };
+  // The worker no longer knows where these rows were, so they are reported without a location
+  const log = createRejectionLog(stats);
+
+  const articles: Article[] = [];
+  for (const article of parsed.articles) {
+    const fields = [article.title, article.url, article.tags, article.status, ...article.parsedTags];
+    if (!fields.some(hasMarkup)) {
+      articles.push(article);
+      continue;
+    }
+
+    const url = article.url ? sanitizers.sanitizeUrl(article.url) : '';
+    if (article.url && !url) {
+      log.reject('', toRecord(article), UNSAFE_URL_REASON, true);
+      continue;
+    }
+    const tags = sanitizers.sanitizeString(article.tags);
+    const parsedTags = sanitizers.parseTagsAndFavorites(tags);
+    articles.push({
+      ...article,
+      title: sanitizers.sanitizeString(article.title),
+      url,
+      tags,
+      status: sanitizers.sanitizeString(article.status) || 'unread',
+      isFavorite: parsedTags.isFavorite || article.isFavorite,
+      parsedTags: parsedTags.tags.map((tag) => sanitizers.sanitizeString(tag))
+    });
+  }
+
+  const highlights: ArticleWithHighlights[] = [];
+  for (const item of parsed.highlights) {
+    const url = hasMarkup(item.url) ? sanitizers.sanitizeUrl(item.url) : item.url;
+    if (!url) {
+      log.reject('', toRecord(item), UNSAFE_URL_REASON, true);
+      continue;
+    }
+    highlights.push({
+      url,
+      title: hasMarkup(item.title) ? sanitizers.sanitizeString(item.title) : item.title,
+      highlights: item.highlights
+        .map((highlight) => ({
+          ...highlight,
+          quote: hasMarkup(highlight.quote) ? sanitizers.sanitizeHighlight(highlight.quote) : highlight.quote,
+          ...(hasMarkup(highlight.location) ? { location: sanitizers.sanitizeString(highlight.location ?? '') } : {})
+        }))
+        .filter((highlight) => highlight.quote)
+    });
+  }
+
+  return { ...parsed, articles, highlights, stats, rejected: [...parsed.rejected, ...log.rejected] };
+}
+
+/**
+ * Parses one non-HTML file, picking the importer from its extension and content
+ */
+export function parseImportFile(
+  name: string,
+  text: string,
+  sanitizers: ImportSanitizers,
+  options: ParseOptions = {}
+): ParsedImport {
+  if (isTextFile(name)) {
+    return parseKindleClippings(text, sanitizers, options);
+  }
+
+  if (isJSONFile(name)) {
+    const data = JSON.parse(text);
+    options.onProgress?.({ rows: Array.isArray(data) ? data.length : 0, position: text.length });
+    return detectJSONFormat(data) === 'omnivore-json'
+      ? parseOmnivoreJSON(data, sanitizers)
+      : parsePocketHighlightsJSON(data, sanitizers);
+  }
+
+  switch (detectCSVFormat(text)) {
+    case 'instapaper-csv':
+      return parseInstapaperCSV(text, sanitizers, options);
+    case 'raindrop-csv':
+      return parseRaindropCSV(text, sanitizers, options);
+    case 'readwise-csv':
+      return parseReadwiseCSV(text, sanitizers, options);
+    default:
+      return parsePocketCSV(text, sanitizers, options);
+  }
+}
+
+async function readFile(file: Blob, name: string, onProgress: (progress: ImportJobProgress) => void): Promise<Uint8Array> {
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes.set(value, offset);
+    offset += value.length;
+    onProgress({ phase: 'reading', fileName: name, completed: offset, total: file.size, rowsParsed: 0 });
+  }
+  return bytes;
+}
+
+// Pocket splits large exports into part_000000.csv, part_000001.csv, ... so every part is collected.
+// Older exports are a single ril_export.html; Omnivore exports are metadata_*.json parts.
+async function extractZip(
+  bytes: Uint8Array,
+  name: string,
+  onProgress: (progress: ImportJobProgress) => void
+): Promise<{ name: string; text: string }[]> {
+  const zip = await JSZip.loadAsync(bytes);
+  const articleEntries: JSZip.JSZipObject[] = [];
+  const highlightEntries: JSZip.JSZipObject[] = [];
+
+  for (const [filename, entry] of Object.entries(zip.files)) {
+    // Skip directories and macOS metadata entries
+    if (entry.dir || filename.startsWith('__MACOSX/')) continue;
+
+    if (isCSVFile(filename) || isHTMLFile(filename)) {
+      articleEntries.push(entry);
+    } else if (isJSONFile(filename) || isTextFile(filename)) {
+      highlightEntries.push(entry);
+    }
+  }
+
+  // Merge parts in export order (part_000000 before part_000001, numeric-aware), articles before highlights
+  const byPartOrder = (a: JSZip.JSZipObject, b: JSZip.JSZipObject) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+  const entries = [...articleEntries.sort(byPartOrder), ...highlightEntries.sort(byPartOrder)];
+
+  const files: { name: string; text: string }[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const text = await entry.async('string', (metadata) =>
+      onProgress({
+        phase: 'unzipping',
+        fileName: `${name}: ${entry.name}`,
+        completed: index + metadata.percent / 100,
+        total: entries.length,
+        rowsParsed: 0
+      })
+    );
+    files.push({ name: entry.name, text });
+  }
+  return files;
+}
+
+/**
+ * Reads an upload (a ZIP of export parts or a single export file) and parses every part.
+ * One unreadable part is reported without failing the rest.
+ */
+export async function runImportJob(
+  file: Blob,
+  name: string,
+  onProgress: (progress: ImportJobProgress) => void,
+  sanitizers: ImportSanitizers = workerSanitizers
+): Promise<ImportJobResult> {
+  const bytes = await readFile(file, name, onProgress);
+  const files = isZipFile(name) ? await extractZip(bytes, name, onProgress) : [{ name, text: new TextDecoder().decode(bytes) }];
+
+  const total = files.reduce((sum, part) => sum + part.text.length, 0);
+  const parts: ImportJobPart[] = [];
+  let completed = 0;
+  let rowsParsed = 0;
+
+  for (const part of files) {
+    if (isHTMLFile(part.name)) {
+      parts.push({ name: part.name, html: part.text });
+    } else {
+      try {
+        const parsed = parseImportFile(part.name, part.text, sanitizers, {
+          onProgress: ({ rows, position }) =>
+            onProgress({
+              phase: 'parsing',
+              fileName: part.name,
+              completed: completed + position,
+              total,
+              rowsParsed: rowsParsed + rows
+            })
+        });
+        rowsParsed += parsed.stats.totalRows;
+        parts.push({ name: part.name, parsed });
+      } catch (error) {
+        console.error(`Error parsing ${part.name}:`, error);
+        parts.push({ name: part.name, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+    completed += part.text.length;
+  }
+
+  return { parts, fileCount: files.length };
+}
+
+// One report line per parsed file, e.g. "export.csv (Instapaper CSV): 120 articles, 14 highlights for 9 articles"
+export const describeParsedImport = (name: string, parsed: ParsedImport) => {
+  const highlightCount = parsed.highlights.reduce((sum, item) => sum + item.highlights.length, 0);
+  const parts = [
+    parsed.articles.length > 0 || parsed.highlights.length === 0 ? `${parsed.articles.length} articles` : '',
+    highlightCount > 0 ? `${highlightCount} highlights for ${parsed.highlights.length} articles` : ''
+  ].filter(Boolean);
+  return `${name} (${IMPORT_FORMAT_LABELS[parsed.format]}): ${parts.join(', ')}`;
+};
+
+/**
+ * Combines parsed parts into one import: URLs are canonicalized, the first occurrence of
+ * each normalized URL wins (articles without a URL are all kept) and highlights for the
+ * same URL are merged, skipping exact repeats.
+ */
+export function mergeImportParts(parts: { name: string; parsed: ParsedImport }[]): {
+  articles: Article[];
+  highlights: ArticleWithHighlights[];
+  stats: ImportParseStats;
+  report: string[];
+  rejected: FileRejection[];
+} {
+  const articles: Article[] = [];
+  const rejected: FileRejection[] = [];
+  const highlights = new Map<string, ArticleWithHighlights>();
+  const stats = emptyParseStats();
+  const report: string[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const { name, parsed } of parts) {
+    stats.totalRows += parsed.stats.totalRows;
+    stats.invalidUrlRows += parsed.stats.invalidUrlRows;
+    stats.emptyRows += parsed.stats.emptyRows;
+    stats.warnings += parsed.stats.warnings;
+    rejected.push(...parsed.rejected.map((row) => ({ ...row, file: name })));
+
+    let duplicates = 0;
+    for (const article of parsed.articles) {
+      const key = normalizeUrl(article.url);
+      // Rows kept for their title alone have no URL to tell them apart
+      if (key && seenUrls.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seenUrls.add(key);
+      articles.push({ ...article, url: canonicalizeUrl(article.url) });
+    }
+
+    for (const item of parsed.highlights) {
+      const key = normalizeUrl(item.url);
+      const existing = highlights.get(key);
+      if (existing) {
+        const seenQuotes = new Set(existing.highlights.map((h) => `${h.created_at}:${h.quote}`));
+        existing.highlights.push(...item.highlights.filter((h) => !seenQuotes.has(`${h.created_at}:${h.quote}`)));
+      } else {
+        highlights.set(key, { url: canonicalizeUrl(item.url), title: item.title, highlights: [...item.highlights] });
+      }
+    }
+
+    report.push(describeParsedImport(name, parsed) + (duplicates > 0 ? ` (${duplicates} duplicate articles skipped)` : ''));
+  }
+
+  return { articles, highlights: Array.from(highlights.values()), stats, report, rejected };
+}
+
+/**
+ * Writes rejected records as CSV: where each came from and why, followed by its original
+ * fields, so the rows can be fixed and imported again.
+ */
+export function rejectedRowsToCSV(rows: FileRejection[]): string {
+  const recordFields = Array.from(new Set(rows.flatMap((row) => Object.keys(row.record))));
+  return Papa.unparse(
+    {
+      fields: ['import_file', 'import_location', 'import_error', ...recordFields],
+      data: rows.map((row) => {
+        const values = new Map(Object.entries(row.record));
+        return [row.file, row.location, row.reason, ...recordFields.map((field) => values.get(field) ?? '')];
+      })
+    },
+    // SECURITY: Rejected rows are untrusted; keep spreadsheet apps from evaluating them as formulas
+    { escapeFormulae: true }
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { mergeArticles, mergeHighlights } from './import-merge';
+import type { Article } from './types';
+
+const article = (url: string, fields: Partial<Article> = {}): Article => ({
+  title: url || 'Untitled',
+  url,
+  time_added: 1700000000,
+  tags: '',
+  status: 'unread',
+  isFavorite: false,
+  parsedTags: [],
+  ...fields
+});
+
+describe('mergeArticles', () => {
+  const existing = [article('https://example.com/a', { title: 'A' }), article('https://example.com/b', { title: 'B' })];
+
+  it('replace mode keeps the import and skips repeated URLs in it', () => {
+    const { items, summary } = mergeArticles(
+      existing,
+      [article('https://example.com/c'), article('http://www.example.com/c/')],
+      'replace'
+    );
+    expect(items.map((item) => item.url)).toEqual(['https://example.com/c']);
+    expect(summary).toEqual({ added: 1, updated: 0, skipped: 1, removed: 2 });
+  });
+
+  it('merge mode adds new articles and leaves existing ones alone', () => {
+    const { items, summary } = mergeArticles(
+      existing,
+      [article('https://example.com/a?utm_source=feed', { title: 'Renamed' }), article('https://example.com/c')],
+      'merge'
+    );
+    expect(items.map((item) => item.title)).toEqual(['A', 'B', 'https://example.com/c']);
+    expect(summary).toEqual({ added: 1, updated: 0, skipped: 1, removed: 0 });
+  });
+
+  it('update mode overwrites imported fields without erasing existing ones', () => {
+    const { items, summary } = mergeArticles(
+      existing,
+      [article('https://example.com/b', { title: 'B, renamed', status: 'archive', tags: '' })],
+      'update'
+    );
+    expect(items[1]).toMatchObject({ title: 'B, renamed', status: 'archive', url: 'https://example.com/b' });
+    expect(summary.updated).toBe(1);
+  });
+
+  it.each(['replace', 'merge', 'update'] as const)('%s mode keeps every article without a URL', (mode) => {
+    const library = [...existing, article('', { title: 'Kept from before' })];
+    const { items, summary } = mergeArticles(
+      library,
+      [article('', { title: 'Untitled one' }), article('', { title: 'Untitled two' })],
+      mode
+    );
+    const titles = items.map((item) => item.title);
+    expect(titles).toContain('Untitled one');
+    expect(titles).toContain('Untitled two');
+    if (mode !== 'replace') expect(titles).toContain('Kept from before');
+    expect(summary.added).toBe(2);
+    expect(summary.skipped).toBe(0);
+  });
+});
+
+describe('mergeHighlights', () => {
+  it('adds only highlights that are not already there', () => {
+    const existing = [{ url: 'https://example.com/a', title: 'A', highlights: [{ quote: 'One', created_at: 1 }] }];
+    const incoming = [
+      {
+        url: 'https://www.example.com/a/',
+        title: 'A',
+        highlights: [
+          { quote: 'One', created_at: 1 },
+          { quote: 'Two', created_at: 2 }
+        ]
+      }
+    ];
+    const { items, summary } = mergeHighlights(existing, incoming, 'merge');
+    expect(items).toHaveLength(1);
+    expect(items[0].highlights.map((highlight) => highlight.quote)).toEqual(['One', 'Two']);
+    expect(summary).toMatchObject({ added: 1, skipped: 1 });
+  });
+});
@@ -0,0 +1,169 @@
+import type { Article, ArticleWithHighlights, Highlight } from './types';
+import { normalizeUrl } from './url';
+
+/**
+ * How an import is combined with the library already in the browser:
+ * - replace: the imported data replaces the existing data
+ * - merge: existing records are kept, only new ones are added
+ * - update: new records are added and imported fields overwrite existing ones
+ */
+export type ImportMode = 'replace' | 'merge' | 'update';
+
+export interface MergeSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+}
+
+export interface MergeResult<T> {
+  items: T[];
+  summary: MergeSummary;
+}
+
+function emptySummary(): MergeSummary {
+  return { added: 0, updated: 0, skipped: 0, removed: 0 };
+}
+
+export function highlightKey(highlight: Highlight): string {
+  return `${highlight.created_at}:${highlight.quote.trim()}`;
+}
+
+/**
+ * Applies the fields of an imported article on top of an existing one.
+ * Empty imported values never erase existing data.
+ */
+function applyArticleUpdate(existing: Article, incoming: Article): Article {
+  return {
+    ...existing,
+    title: incoming.title && incoming.title !== incoming.url ? incoming.title : existing.title,
+    tags: incoming.tags || existing.tags,
+    parsedTags: incoming.tags ? incoming.parsedTags : existing.parsedTags,
+    isFavorite: incoming.tags ? incoming.isFavorite : existing.isFavorite,
+    status: incoming.status || existing.status,
+    time_added: incoming.time_added || existing.time_added,
+  };
+}
+
+function articlesDiffer(a: Article, b: Article): boolean {
+  return (
+    a.title !== b.title ||
+    a.tags !== b.tags ||
+    a.status !== b.status ||
+    a.isFavorite !== b.isFavorite ||
+    a.time_added !== b.time_added
+  );
+}
+
+/**
+ * Combines imported articles with the existing library.
+ * Articles are matched by normalized URL; duplicates inside the import are skipped.
+ * Articles without a URL can't be matched, so they are always added.
+ */
+export function mergeArticles(existing: Article[], incoming: Article[], mode: ImportMode): MergeResult<Article> {
+  const summary = emptySummary();
+
+  if (mode === 'replace') {
+    const seen = new Set<string>();
+    const items: Article[] = [];
+    for (const article of incoming) {
+      const key = normalizeUrl(article.url);
+      if (key && seen.has(key)) {
+        summary.skipped++;
+        continue;
+      }
+      seen.add(key);
+      items.push(article);
+    }
+    summary.added = items.length;
+    summary.removed = existing.length;
+    return { items, summary };
+  }
+
+  const items = [...existing];
+  const indexByKey = new Map<string, number>();
+  items.forEach((article, index) => {
+    const key = normalizeUrl(article.url);
+    if (key) indexByKey.set(key, index);
+  });
+  const touched = new Set<number>();
+
+  for (const article of incoming) {
+    const key = normalizeUrl(article.url);
+    const index = key ? indexByKey.get(key) : undefined;
+
+    if (index === undefined) {
+      if (key) indexByKey.set(key, items.length);
+      touched.add(items.length);
+      items.push(article);
+      summary.added++;
+      continue;
+    }
+
+    // Already added or updated by an earlier row of this import
+    if (mode === 'merge' || touched.has(index)) {
+      summary.skipped++;
+      continue;
+    }
+
+    const current = items.at(index) as Article;
+    const updated = applyArticleUpdate(current, article);
+    if (articlesDiffer(current, updated)) {
+      items.splice(index, 1, updated);
+      touched.add(index);
+      summary.updated++;
+    } else {
+      summary.skipped++;
+    }
+  }
+
+  return { items, summary };
+}
+
+/**
+ * Combines imported highlights with the existing ones.
+ * Articles are matched by normalized URL and highlights are deduplicated by quote text and created_at.
+ * Counts in the summary are per highlight, not per article.
+ */
+export function mergeHighlights(
+  existing: ArticleWithHighlights[],
+  incoming: ArticleWithHighlights[],
+  mode: ImportMode
+): MergeResult<ArticleWithHighlights> {
+  const summary = emptySummary();
+  const base = mode === 'replace' ? [] : existing;
+  if (mode === 'replace') {
+    summary.removed = existing.reduce((sum, item) => sum + item.highlights.length, 0);
+  }
+
+  const items = base.map((item) => ({ ...item, highlights: [...item.highlights] }));
+  const byKey = new Map<string, ArticleWithHighlights>();
+  items.forEach((item) => byKey.set(normalizeUrl(item.url), item));
+
+  for (const item of incoming) {
+    const key = normalizeUrl(item.url);
+    let target = byKey.get(key);
+
+    if (!target) {
+      target = { url: item.url, title: item.title, highlights: [] };
+      byKey.set(key, target);
+      items.push(target);
+    } else if (mode === 'update' && item.title && item.title !== target.title) {
+      target.title = item.title;
+    }
+
+    const seen = new Set(target.highlights.map(highlightKey));
+    for (const highlight of item.highlights) {
+      const hKey = highlightKey(highlight);
+      if (seen.has(hKey)) {
+        summary.skipped++;
+        continue;
+      }
+      seen.add(hKey);
+      target.highlights.push(highlight);
+      summary.added++;
+    }
+  }
+
+  return { items: items.filter((item) => item.highlights.length > 0), summary };
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+
+// Shapes of the raw records in every import format. A record that doesn't match is
+// rejected with the schema's reason instead of being dropped silently.
+
+export const INVALID_URL_MESSAGE = 'URL is not a valid http(s) link';
+// Passed the schema but removed by the DOMPurify-based URL sanitizer
+export const UNSAFE_URL_REASON = 'url: URL was blocked as unsafe';
+
+export const httpUrlSchema = z
+  .string()
+  .trim()
+  .min(1, 'URL is missing')
+  .pipe(z.url({ protocol: /^https?$/, error: INVALID_URL_MESSAGE }));
+
+const isHttpUrl = (value: string) => httpUrlSchema.safeParse(value).success;
+
+// CSV cells are strings; a missing column is undefined
+const cell = z.string().default('');
+// JSON timestamps come as Unix seconds, numeric strings or ISO dates
+const timestamp = z.union([z.number(), z.string()]).optional();
+
+export const pocketCsvRowSchema = z
+  .object({ title: cell, url: cell, time_added: cell, tags: cell, status: cell })
+  .refine((row) => row.title || row.url, { error: 'Row has neither a title nor a URL' })
+  .refine((row) => !row.url || isHttpUrl(row.url), { error: INVALID_URL_MESSAGE, path: ['url'] });
+
+export const instapaperRowSchema = z.object({
+  url: httpUrlSchema,
+  title: cell,
+  selection: cell,
+  folder: cell,
+  timestamp: cell
+});
+
+export const raindropRowSchema = z.object({
+  url: httpUrlSchema,
+  title: cell,
+  folder: cell,
+  tags: cell,
+  created: cell,
+  highlights: cell,
+  favorite: cell
+});
+
+export const readwiseRowSchema = z.object({
+  highlight: z.string().trim().min(1, 'Highlight text is missing'),
+  'book title': z.string().trim().min(1, 'Book title is missing'),
+  'book author': cell,
+  'amazon book id': cell,
+  'location type': cell,
+  location: cell,
+  'highlighted at': cell,
+  'document tags': cell
+});
+
+export const kindleClippingSchema = z.object({
+  heading: z.string().trim().min(1, 'Book title line is missing'),
+  meta: z.string().regex(/^-\s*Your Highlight\b/i, 'Expected a "- Your Highlight on ..." line after the title'),
+  quote: z.string().trim().min(1, 'Highlight text is missing')
+});
+
+// A link from an HTML export (Pocket's ril_export.html or a bookmarks file)
+export const htmlLinkSchema = z.object({ url: httpUrlSchema, title: z.string() });
+
+export const pocketHighlightsItemSchema = z.object({
+  url: httpUrlSchema,
+  title: z.string().default(''),
+  highlights: z
+    .array(
+      z.object({
+        quote: z.string(),
+        created_at: z.coerce.number().catch(0),
+        location: z.string().optional()
+      })
+    )
+    .default([])
+});
+
+export const omnivoreItemSchema = z.object({
+  url: httpUrlSchema,
+  title: z.string().default(''),
+  state: z.string().optional(),
+  labels: z.array(z.union([z.string(), z.object({ name: z.string() })])).default([]),
+  savedAt: timestamp,
+  createdAt: timestamp,
+  highlights: z
+    .array(
+      z.object({
+        quote: z.string().nullish(),
+        createdAt: timestamp,
+        updatedAt: timestamp
+      })
+    )
+    .default([])
+});
+
+// Records of a .mypocket.json backup, after the library schema migrations have run
+// Link check results are a cache; a damaged one is dropped rather than rejecting the article
+export const linkHealthSchema = z.object({
+  status: z.enum(['ok', 'moved', 'restricted', 'broken', 'unreachable']),
+  httpStatus: z.number().int().nonnegative(),
+  finalUrl: httpUrlSchema.optional(),
+  checkedAt: z.number().nonnegative(),
+  waybackUrl: httpUrlSchema.optional(),
+  waybackTimestamp: z.string().regex(/^\d{1,14}$/).optional()
+});
+
+// Pocket CSV rows with a title but no URL are kept, so a stored article's URL may be empty
+export const backupArticleSchema = z
+  .object({
+    title: z.string(),
+    url: z
+      .string()
+      .trim()
+      .refine((url) => url === '' || isHttpUrl(url), { error: INVALID_URL_MESSAGE }),
+    time_added: z.number().int().nonnegative(),
+    tags: z.string(),
+    status: z.string(),
+    isFavorite: z.boolean(),
+    parsedTags: z.array(z.string()),
+    linkHealth: linkHealthSchema.optional().catch(undefined)
+  })
+  .refine((article) => article.title || article.url, { error: 'Article has neither a title nor a URL' });
+
+export const backupHighlightsSchema = z.object({
+  url: httpUrlSchema,
+  title: z.string(),
+  highlights: z.array(
+    z.object({
+      quote: z.string(),
+      created_at: z.number(),
+      location: z.string().optional()
+    })
+  )
+});
+
+/**
+ * One line per issue, e.g. "url: URL is not a valid http(s) link"
+ */
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+// True when a failed record was rejected for its URL rather than for missing content
+export function isUrlIssue(error: z.ZodError): boolean {
+  return error.issues.some((issue) => issue.path[0] === 'url');
+}
@@ -0,0 +1,16 @@
+import { runImportJob, type ImportWorkerMessage, type ImportWorkerRequest } from './import-job';
+
+// Import worker: runs the import pipeline off the main thread so large exports don't freeze the tab.
+// Cancelling terminates the worker, so it keeps no state between requests.
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<ImportWorkerRequest>) => {
+  const { file } = event.data;
+  try {
+    const result = await runImportJob(file, file.name, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
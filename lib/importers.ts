@@ -0,0 +1,712 @@
+import Papa from 'papaparse';
+import type { z } from 'zod';
+import {
+  describeIssues,
+  instapaperRowSchema,
+  isUrlIssue,
+  kindleClippingSchema,
+  omnivoreItemSchema,
+  pocketCsvRowSchema,
+  pocketHighlightsItemSchema,
+  raindropRowSchema,
+  readwiseRowSchema,
+  UNSAFE_URL_REASON
+} from './import-schemas';
+import type { Article, ArticleWithHighlights, Highlight } from './types';
+
+// Importers for every supported export. Only the HTML formats need the DOM and are parsed in the importer
+// component; everything here is DOM-free so it can also run in the import worker.
+
+export type ImportFormat =
+  | 'pocket-csv'
+  | 'pocket-html'
+  | 'pocket-highlights-json'
+  | 'netscape-bookmarks'
+  | 'instapaper-csv'
+  | 'raindrop-csv'
+  | 'omnivore-json'
+  | 'kindle-clippings'
+  | 'readwise-csv'
+  | 'mypocket-backup';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  'pocket-csv': 'Pocket CSV',
+  'pocket-html': 'Pocket HTML',
+  'pocket-highlights-json': 'Pocket highlights JSON',
+  'netscape-bookmarks': 'Browser bookmarks HTML',
+  'instapaper-csv': 'Instapaper CSV',
+  'raindrop-csv': 'Raindrop.io CSV',
+  'omnivore-json': 'Omnivore JSON',
+  'kindle-clippings': 'Kindle My Clippings',
+  'readwise-csv': 'Readwise CSV',
+  'mypocket-backup': 'MyPocket Reader backup'
+};
+
+// Row counts collected while parsing an import file
+export interface ImportParseStats {
+  totalRows: number;
+  invalidUrlRows: number;
+  emptyRows: number;
+  warnings: number;
+}
+
+export const emptyParseStats = (): ImportParseStats => ({ totalRows: 0, invalidUrlRows: 0, emptyRows: 0, warnings: 0 });
+
+// A record that could not be imported, kept so the user can fix it and import it again
+export interface RejectedRow {
+  // Where it sits in its file: "line 12" in text formats, "item 3" in JSON arrays
+  location: string;
+  reason: string;
+  // The record's original fields
+  record: Record<string, string>;
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  articles: Article[];
+  highlights: ArticleWithHighlights[];
+  stats: ImportParseStats;
+  rejected: RejectedRow[];
+}
+
+/**
+ * The app's sanitization path, passed in so every importer cleans input the same way
+ */
+export interface ImportSanitizers {
+  sanitizeString(input: string): string;
+  sanitizeUrl(input: string): string;
+  sanitizeHighlight(input: string): string;
+  parseTagsAndFavorites(tagString: string): { tags: string[]; isFavorite: boolean };
+}
+
+// Reported while a file is parsed; `position` is how many characters of the text have been consumed
+export interface ParseProgress {
+  rows: number;
+  position: number;
+}
+
+export interface ParseOptions {
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+// Progress is reported every this many rows
+const PROGRESS_INTERVAL_ROWS = 1000;
+
+const INSTAPAPER_COLUMNS = ['url', 'title', 'selection', 'folder'];
+const RAINDROP_COLUMNS = ['id', 'title', 'url', 'folder', 'tags', 'created'];
+const READWISE_COLUMNS = ['highlight', 'book title', 'book author', 'location'];
+// Instapaper's built-in folders; any other folder name becomes a tag
+const INSTAPAPER_FOLDERS = new Set(['unread', 'archive', 'starred']);
+
+function toUnixSeconds(value: unknown): number {
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.floor(value) : 0;
+  const text = String(value ?? '').trim();
+  if (/^\d+$/.test(text)) return Number.parseInt(text, 10);
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? 0 : Math.floor(parsed / 1000);
+}
+
+/**
+ * Splits Pocket's "|"-separated tag string; "*" and "***" mark a favorite rather than a tag
+ */
+export function parseTagsAndFavorites(tagString: string): { tags: string[]; isFavorite: boolean } {
+  if (!tagString) return { tags: [], isFavorite: false };
+
+  const tagParts = tagString
+    .split('|')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+  const isFavorite = tagParts.includes('*') || tagParts.includes('***');
+  const tags = tagParts.filter((tag) => tag !== '*' && tag !== '***');
+
+  return { tags, isFavorite };
+}
+
+// "|" separates tags in the stored tag string, so it cannot appear inside a tag name
+function toTagName(value: string): string {
+  return value.replace(/\|/g, '/').trim();
+}
+
+/**
+ * Picks the CSV importer from the header row
+ */
+export function detectCSVFormat(csvText: string): 'pocket-csv' | 'instapaper-csv' | 'raindrop-csv' | 'readwise-csv' {
+  const { data } = Papa.parse<string[]>(csvText, { preview: 1, skipEmptyLines: true });
+  const headers = new Set((data[0] ?? []).map((header) => String(header).trim().toLowerCase()));
+
+  if (READWISE_COLUMNS.every((column) => headers.has(column))) return 'readwise-csv';
+  if (RAINDROP_COLUMNS.every((column) => headers.has(column))) return 'raindrop-csv';
+  if (INSTAPAPER_COLUMNS.every((column) => headers.has(column))) return 'instapaper-csv';
+  return 'pocket-csv';
+}
+
+/**
+ * Tells Omnivore's export (saved items with labels and slugs) from Pocket's highlights JSON
+ */
+export function detectJSONFormat(data: unknown): 'pocket-highlights-json' | 'omnivore-json' {
+  const items = Array.isArray(data) ? data : [];
+  const isOmnivore = items.some(
+    (item) => item && typeof item === 'object' && ('savedAt' in item || 'slug' in item || 'labels' in item)
+  );
+  return isOmnivore ? 'omnivore-json' : 'pocket-highlights-json';
+}
+
+// Flattens a JSON record for the rejected-rows report
+export function toRecord(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { value: JSON.stringify(value) ?? '' };
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, typeof field === 'string' ? field : JSON.stringify(field) ?? ''])
+  );
+}
+
+/**
+ * Collects rejected records for one file and keeps the drop counts in step
+ */
+export function createRejectionLog(stats: ImportParseStats) {
+  const rejected: RejectedRow[] = [];
+
+  const reject = (location: string, record: Record<string, string>, reason: string, invalidUrl = false) => {
+    if (invalidUrl) stats.invalidUrlRows++;
+    else stats.emptyRows++;
+    rejected.push({ location, reason, record });
+  };
+
+  // Returns the parsed record, or null after rejecting it with the schema's reasons
+  const validate = <T extends z.ZodType>(
+    schema: T,
+    value: unknown,
+    location: string,
+    record: Record<string, string>
+  ): z.output<T> | null => {
+    const result = schema.safeParse(value);
+    if (result.success) return result.data;
+    reject(location, record, describeIssues(result.error), isUrlIssue(result.error));
+    return null;
+  };
+
+  return { rejected, reject, validate };
+}
+
+type RejectionLog = ReturnType<typeof createRejectionLog>;
+
+interface CSVRow {
+  // 1-based line where the row starts; the header is line 1
+  line: number;
+  record: Record<string, string>;
+}
+
+const countNewlines = (text: string) => {
+  let count = 0;
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) count++;
+  return count;
+};
+
+function parseRows(csvText: string, options: ParseOptions = {}): { rows: CSVRow[]; warnings: number } {
+  const rows: CSVRow[] = [];
+  const errors: Papa.ParseError[] = [];
+  // Papa's cursor points past each row's line break; skipped blank lines sit before the next row
+  let consumed = 0;
+  let line = 1;
+
+  // Row by row so large exports can report progress
+  Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header: string) => header.trim().toLowerCase(),
+    transform: (value: string) => value.trim(),
+    step: (result) => {
+      const text = csvText.slice(consumed, result.meta.cursor);
+      const blankLines = /^(?:[ \t]*\r?\n)*/.exec(text)?.[0] ?? '';
+      if (rows.length === 0) {
+        // The header line comes before the first row
+        line += countNewlines(csvText.slice(0, consumed));
+      }
+      rows.push({ line: line + countNewlines(blankLines), record: result.data });
+      line += countNewlines(text);
+      consumed = result.meta.cursor;
+
+      errors.push(...result.errors);
+      if (options.onProgress && rows.length % PROGRESS_INTERVAL_ROWS === 0) {
+        options.onProgress({ rows: rows.length, position: result.meta.cursor });
+      }
+    }
+  });
+  options.onProgress?.({ rows: rows.length, position: csvText.length });
+
+  if (errors.length > 0) {
+    console.warn('CSV parsing warnings:', errors);
+  }
+  return { rows, warnings: errors.length };
+}
+
+/**
+ * Builds an article from validated raw fields, running every field through the sanitizers.
+ * Returns null when the sanitizer removes the URL; `reject` records why.
+ */
+function buildArticle(
+  fields: { url: string; title: string; tagNames: string[]; favorite: boolean; status: string; timeAdded: number },
+  sanitizers: ImportSanitizers,
+  reject: (reason: string) => void
+): Article | null {
+  const url = sanitizers.sanitizeUrl(fields.url);
+  if (!url) {
+    console.warn('🔒 SECURITY: Skipping article with invalid URL:', fields.url);
+    reject(UNSAFE_URL_REASON);
+    return null;
+  }
+
+  const tagString = sanitizers.sanitizeString(
+    [...fields.tagNames.map(toTagName).filter(Boolean), ...(fields.favorite ? ['*'] : [])].join('|')
+  );
+  const { tags, isFavorite } = sanitizers.parseTagsAndFavorites(tagString);
+
+  return {
+    title: sanitizers.sanitizeString(fields.title),
+    url,
+    time_added: fields.timeAdded,
+    tags: tagString,
+    status: fields.status,
+    isFavorite,
+    parsedTags: tags.map((tag) => sanitizers.sanitizeString(tag))
+  };
+}
+
+function sanitizeHighlights(quotes: Highlight[], sanitizers: ImportSanitizers): Highlight[] {
+  return quotes
+    .map(({ quote, created_at, location }) => ({
+      quote: sanitizers.sanitizeHighlight(quote.trim()),
+      created_at,
+      ...(location ? { location: sanitizers.sanitizeString(location) } : {})
+    }))
+    .filter((highlight) => highlight.quote);
+}
+
+function parseCSVRows(csvText: string, options: ParseOptions) {
+  try {
+    return parseRows(csvText, options);
+  } catch (error) {
+    console.error('Error parsing CSV with Papa Parse:', error);
+    throw new Error('Failed to parse CSV file. Please check the file format.');
+  }
+}
+
+/**
+ * Pocket CSV: title, url, time_added, tags, status. Tags are "|"-separated with "*" marking a favorite,
+ * and Pocket's "archive" status means read. Rows with a title but no URL are kept.
+ */
+export function parsePocketCSV(csvText: string, sanitizers: ImportSanitizers, options: ParseOptions = {}): ParsedImport {
+  const { rows, warnings } = parseCSVRows(csvText, options);
+  const stats: ImportParseStats = { ...emptyParseStats(), totalRows: rows.length, warnings };
+  const log = createRejectionLog(stats);
+  const articles: Article[] = [];
+
+  for (const { line, record } of rows) {
+    const location = `line ${line}`;
+    const row = log.validate(pocketCsvRowSchema, record, location, record);
+    if (!row) continue;
+
+    // SECURITY: Sanitize all user input from CSV to prevent XSS attacks
+    const url = row.url ? sanitizers.sanitizeUrl(row.url) : '';
+    if (row.url && !url) {
+      console.warn('🔒 SECURITY: Skipping article with invalid URL:', row.url);
+      log.reject(location, record, UNSAFE_URL_REASON, true);
+      continue;
+    }
+
+    const tagString = sanitizers.sanitizeString(row.tags);
+    const status = sanitizers.sanitizeString(row.status || 'unread');
+    const { tags, isFavorite } = sanitizers.parseTagsAndFavorites(tagString);
+
+    articles.push({
+      title: sanitizers.sanitizeString(row.title),
+      url,
+      time_added: Number.parseInt(row.time_added) || 0,
+      tags: tagString,
+      status: status === 'archive' ? 'read' : status || 'unread',
+      isFavorite,
+      parsedTags: tags.map((tag) => sanitizers.sanitizeString(tag))
+    });
+  }
+
+  return { format: 'pocket-csv', articles, highlights: [], stats, rejected: log.rejected };
+}
+
+/**
+ * Pocket highlights JSON: [{ url, title, highlights: [{ quote, created_at }] }].
+ * Our own exports also carry each highlight's location.
+ */
+export function parsePocketHighlightsJSON(data: unknown, sanitizers: ImportSanitizers): ParsedImport {
+  if (!Array.isArray(data)) {
+    throw new Error('Expected an array of articles with highlights');
+  }
+
+  // SECURITY: Sanitize all highlights content to prevent XSS attacks
+  const stats: ImportParseStats = { ...emptyParseStats(), totalRows: data.length };
+  const log = createRejectionLog(stats);
+  const highlights: ArticleWithHighlights[] = [];
+
+  for (const [index, value] of data.entries()) {
+    const location = `item ${index + 1}`;
+    const item = log.validate(pocketHighlightsItemSchema, value, location, toRecord(value));
+    if (!item) continue;
+
+    const url = sanitizers.sanitizeUrl(item.url);
+    if (!url) {
+      log.reject(location, toRecord(value), UNSAFE_URL_REASON, true);
+      continue;
+    }
+
+    highlights.push({
+      url,
+      title: sanitizers.sanitizeString(item.title),
+      highlights: sanitizeHighlights(item.highlights, sanitizers)
+    });
+  }
+
+  return { format: 'pocket-highlights-json', articles: [], highlights, stats, rejected: log.rejected };
+}
+
+/**
+ * Instapaper CSV: URL, Title, Selection, Folder[, Timestamp].
+ * "Archive" means read, "Starred" means favorite, other folders become tags and
+ * the selected text becomes a highlight.
+ */
+export function parseInstapaperCSV(csvText: string, sanitizers: ImportSanitizers, options: ParseOptions = {}): ParsedImport {
+  const { rows, warnings } = parseCSVRows(csvText, options);
+  const stats: ImportParseStats = { ...emptyParseStats(), totalRows: rows.length, warnings };
+  const log = createRejectionLog(stats);
+  const articles: Article[] = [];
+  const highlights: ArticleWithHighlights[] = [];
+
+  for (const { line, record } of rows) {
+    const location = `line ${line}`;
+    const row = log.validate(instapaperRowSchema, record, location, record);
+    if (!row) continue;
+
+    const folder = row.folder.toLowerCase();
+    const timeAdded = toUnixSeconds(row.timestamp);
+    const article = buildArticle(
+      {
+        url: row.url,
+        title: row.title,
+        tagNames: row.folder && !INSTAPAPER_FOLDERS.has(folder) ? [row.folder] : [],
+        favorite: folder === 'starred',
+        status: folder === 'archive' ? 'read' : 'unread',
+        timeAdded
+      },
+      sanitizers,
+      (reason) => log.reject(location, record, reason, true)
+    );
+    if (!article) continue;
+    articles.push(article);
+
+    const selection = sanitizeHighlights([{ quote: row.selection, created_at: timeAdded }], sanitizers);
+    if (selection.length > 0) {
+      highlights.push({ url: article.url, title: article.title, highlights: selection });
+    }
+  }
+
+  return { format: 'instapaper-csv', articles, highlights, stats, rejected: log.rejected };
+}
+
+// Raindrop writes each highlight as "Highlight: ..." optionally followed by "Note: ..."
+function splitRaindropHighlights(value: string): string[] {
+  if (!value) return [];
+  if (!/^\s*Highlight:/im.test(value)) {
+    return value.split(/\n\s*\n/);
+  }
+  return value
+    .split(/^\s*Highlight:\s*/im)
+    .map((part) => part.split(/^\s*Note:/im)[0])
+    .filter((part) => part.trim());
+}
+
+/**
+ * Raindrop.io CSV: id, title, note, excerpt, url, folder, tags, created, cover, highlights, favorite.
+ * The collection (folder) becomes a tag next to the comma-separated tags.
+ */
+export function parseRaindropCSV(csvText: string, sanitizers: ImportSanitizers, options: ParseOptions = {}): ParsedImport {
+  const { rows, warnings } = parseCSVRows(csvText, options);
+  const stats: ImportParseStats = { ...emptyParseStats(), totalRows: rows.length, warnings };
+  const log = createRejectionLog(stats);
+  const articles: Article[] = [];
+  const highlights: ArticleWithHighlights[] = [];
+
+  for (const { line, record } of rows) {
+    const location = `line ${line}`;
+    const row = log.validate(raindropRowSchema, record, location, record);
+    if (!row) continue;
+
+    const timeAdded = toUnixSeconds(row.created);
+    const article = buildArticle(
+      {
+        url: row.url,
+        title: row.title,
+        tagNames: [...(row.folder && row.folder.toLowerCase() !== 'unsorted' ? [row.folder] : []), ...row.tags.split(',')],
+        favorite: row.favorite.toLowerCase() === 'true',
+        status: 'unread',
+        timeAdded
+      },
+      sanitizers,
+      (reason) => log.reject(location, record, reason, true)
+    );
+    if (!article) continue;
+    articles.push(article);
+
+    const quotes = splitRaindropHighlights(row.highlights).map((quote) => ({ quote, created_at: timeAdded }));
+    const sanitized = sanitizeHighlights(quotes, sanitizers);
+    if (sanitized.length > 0) {
+      highlights.push({ url: article.url, title: article.title, highlights: sanitized });
+    }
+  }
+
+  return { format: 'raindrop-csv', articles, highlights, stats, rejected: log.rejected };
+}
+
+/**
+ * Omnivore JSON export: saved items with labels (strings or { name }) and highlights.
+ * Archived items are read; deleted items are skipped.
+ */
+export function parseOmnivoreJSON(data: unknown, sanitizers: ImportSanitizers): ParsedImport {
+  if (!Array.isArray(data)) {
+    throw new Error('Expected an array of Omnivore items');
+  }
+
+  const stats: ImportParseStats = { ...emptyParseStats(), totalRows: data.length };
+  const log = createRejectionLog(stats);
+  const articles: Article[] = [];
+  const highlights: ArticleWithHighlights[] = [];
+
+  for (const [index, value] of data.entries()) {
+    if (String(value?.state).toLowerCase() === 'deleted') {
+      stats.emptyRows++;
+      continue;
+    }
+
+    const location = `item ${index + 1}`;
+    const item = log.validate(omnivoreItemSchema, value, location, toRecord(value));
+    if (!item) continue;
+
+    const timeAdded = toUnixSeconds(item.savedAt ?? item.createdAt);
+    const article = buildArticle(
+      {
+        url: item.url,
+        title: item.title,
+        tagNames: item.labels.map((label) => (typeof label === 'string' ? label : label.name)),
+        favorite: false,
+        status: item.state?.toLowerCase() === 'archived' ? 'read' : 'unread',
+        timeAdded
+      },
+      sanitizers,
+      (reason) => log.reject(location, toRecord(value), reason, true)
+    );
+    if (!article) continue;
+    articles.push(article);
+
+    // Notes without a quote are annotations only and have nothing to show as a highlight
+    const quotes = item.highlights.flatMap((highlight) =>
+      highlight.quote
+        ? [{ quote: highlight.quote, created_at: toUnixSeconds(highlight.createdAt ?? highlight.updatedAt) || timeAdded }]
+        : []
+    );
+    const sanitized = sanitizeHighlights(quotes, sanitizers);
+    if (sanitized.length > 0) {
+      highlights.push({ url: article.url, title: article.title, highlights: sanitized });
+    }
+  }
+
+  return { format: 'omnivore-json', articles, highlights, stats, rejected: log.rejected };
+}
+
+/**
+ * Books have no URL, so highlights are attached to one derived from the book's identifier:
+ * Open Library for an ISBN, Amazon for an ASIN, and otherwise a synthetic URL on the
+ * reserved .invalid domain built from the title and author.
+ */
+export function bookUrl(book: { title: string; author?: string; identifier?: string }): string {
+  const identifier = (book.identifier || '').replace(/[\s-]/g, '').toUpperCase();
+  if (/^(97[89]\d{10}|\d{9}[\dX])$/.test(identifier)) return `https://openlibrary.org/isbn/${identifier}`;
+  if (/^[A-Z0-9]{10}$/.test(identifier)) return `https://www.amazon.com/dp/${identifier}`;
+
+  const slug = [book.title, book.author]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `https://book.invalid/${slug || 'untitled'}`;
+}
+
+interface BookHighlights {
+  url: string;
+  title: string;
+  tagNames: string[];
+  highlights: Highlight[];
+}
+
+// Collects highlights per book, skipping exact repeats (Kindle keeps the old clipping when a highlight is extended)
+function addBookHighlight(
+  books: Map<string, BookHighlights>,
+  book: { title: string; author?: string; identifier?: string; tagNames?: string[] },
+  highlight: Highlight
+): void {
+  const url = bookUrl(book);
+  let entry = books.get(url);
+  if (!entry) {
+    entry = { url, title: book.author ? `${book.title} (${book.author})` : book.title, tagNames: [], highlights: [] };
+    books.set(url, entry);
+  }
+  for (const tag of book.tagNames ?? []) {
+    if (!entry.tagNames.includes(tag)) entry.tagNames.push(tag);
+  }
+  if (!entry.highlights.some((existing) => existing.quote === highlight.quote)) {
+    entry.highlights.push(highlight);
+  }
+}
+
+// One article per book so its highlights show up in the library
+function booksToImport(
+  format: ImportFormat,
+  books: Map<string, BookHighlights>,
+  sanitizers: ImportSanitizers,
+  stats: ImportParseStats,
+  log: RejectionLog
+): ParsedImport {
+  const articles: Article[] = [];
+  const highlights: ArticleWithHighlights[] = [];
+
+  for (const book of books.values()) {
+    const sanitized = sanitizeHighlights(book.highlights, sanitizers);
+    if (sanitized.length === 0) continue;
+    const dates = sanitized.map((highlight) => highlight.created_at).filter((date) => date > 0);
+
+    const article = buildArticle(
+      {
+        url: book.url,
+        title: book.title,
+        tagNames: book.tagNames,
+        favorite: false,
+        status: 'unread',
+        // Added to the library when it was first highlighted
+        timeAdded: dates.length > 0 ? Math.min(...dates) : 0
+      },
+      sanitizers,
+      (reason) => log.reject(`book "${book.title}"`, { title: book.title, url: book.url }, reason, true)
+    );
+    if (!article) continue;
+    articles.push(article);
+    highlights.push({ url: article.url, title: article.title, highlights: sanitized });
+  }
+
+  return { format, articles, highlights, stats, rejected: log.rejected };
+}
+
+/**
+ * Kindle "My Clippings.txt": entries separated by "==========", each a "Title (Author)" line,
+ * a "- Your Highlight on page 12 | Location 180-182 | Added on <date>" line and the quote.
+ * Notes and bookmarks carry no quote and are skipped.
+ */
+export function parseKindleClippings(text: string, sanitizers: ImportSanitizers, options: ParseOptions = {}): ParsedImport {
+  // Group lines into entries, remembering the line each entry starts on
+  const entries: { line: number; lines: string[]; end: number }[] = [];
+  let current: { line: number; lines: string[]; end: number } | null = null;
+  let position = 0;
+  for (const [index, line] of text.replace(/^\uFEFF/, '').split(/\r?\n/).entries()) {
+    position += line.length + 1;
+    if (/^={10}\s*$/.test(line)) {
+      if (current) entries.push(current);
+      current = null;
+    } else if (current) {
+      current.lines.push(line);
+      current.end = position;
+    } else if (line.trim()) {
+      current = { line: index + 1, lines: [line], end: position };
+    }
+  }
+  if (current) entries.push(current);
+
+  const stats: ImportParseStats = { ...emptyParseStats(), totalRows: entries.length };
+  const log = createRejectionLog(stats);
+  const books = new Map<string, BookHighlights>();
+
+  for (const [index, entry] of entries.entries()) {
+    if (options.onProgress && (index + 1) % PROGRESS_INTERVAL_ROWS === 0) {
+      options.onProgress({ rows: index + 1, position: entry.end });
+    }
+
+    const heading = entry.lines[0].trim();
+    const meta = (entry.lines[1] || '').trim();
+    const record = { title: heading, details: meta, quote: entry.lines.slice(2).join('\n').trim() };
+    if (/^-\s*Your (Note|Bookmark)\b/i.test(meta)) {
+      stats.emptyRows++;
+      continue;
+    }
+    const clipping = log.validate(kindleClippingSchema, { heading, meta, quote: record.quote }, `line ${entry.line}`, record);
+    if (!clipping) continue;
+
+    const [, title = clipping.heading, author] = /^(.*?)\s*\(([^()]*)\)$/.exec(clipping.heading) ?? [];
+    const parts = clipping.meta
+      .replace(/^-\s*/, '')
+      .split('|')
+      .map((part) => part.trim());
+    const added = parts.find((part) => /^Added on\b/i.test(part)) ?? '';
+    const location = parts
+      .filter((part) => part !== added)
+      .map((part) => part.replace(/^Your Highlight (on|at)\s*/i, ''))
+      .filter(Boolean)
+      .join(', ');
+
+    addBookHighlight(
+      books,
+      { title, author },
+      {
+        quote: clipping.quote,
+        // "Added on Monday, March 3, 2025 9:15:02 PM"; the weekday trips up Date.parse in some engines
+        created_at: toUnixSeconds(added.replace(/^Added on\s*/i, '').replace(/^[A-Za-z]+,\s*/, '')),
+        location
+      }
+    );
+  }
+
+  options.onProgress?.({ rows: entries.length, position: text.length });
+  return booksToImport('kindle-clippings', books, sanitizers, stats, log);
+}
+
+/**
+ * Readwise CSV: Highlight, Book Title, Book Author, Amazon Book ID, Note, Color, Tags,
+ * Location Type, Location, Highlighted at, Document tags.
+ * Document tags become article tags; the location keeps its type ("page 12", "location 1234").
+ */
+export function parseReadwiseCSV(csvText: string, sanitizers: ImportSanitizers, options: ParseOptions = {}): ParsedImport {
+  const { rows, warnings } = parseCSVRows(csvText, options);
+  const stats: ImportParseStats = { ...emptyParseStats(), totalRows: rows.length, warnings };
+  const log = createRejectionLog(stats);
+  const books = new Map<string, BookHighlights>();
+
+  for (const { line, record } of rows) {
+    const row = log.validate(readwiseRowSchema, record, `line ${line}`, record);
+    if (!row) continue;
+
+    // "order" is Readwise's position for web articles and means nothing outside Readwise
+    const locationType = row['location type'].toLowerCase();
+    const location = row.location && locationType !== 'order' ? `${locationType} ${row.location}`.trim() : '';
+
+    addBookHighlight(
+      books,
+      {
+        title: row['book title'],
+        author: row['book author'],
+        identifier: row['amazon book id'],
+        tagNames: row['document tags'].split(',').map((tag) => tag.trim()).filter(Boolean)
+      },
+      { quote: row.highlight, created_at: toUnixSeconds(row['highlighted at']), location }
+    );
+  }
+
+  return booksToImport('readwise-csv', books, sanitizers, stats, log);
+}
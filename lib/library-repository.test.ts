@@ -0,0 +1,101 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import type { LibraryFilters } from './export-scope';
+import { createLibraryRepository } from './library-repository';
+import { getDatabase } from './server-db';
+import type { Article } from './types';
+
+// node:sqlite needs Node.js 22.13 or later; on older versions these tests are skipped
+// (getDatabase creates the directory, so nothing is left behind when they are)
+const directory = path.join(os.tmpdir(), `mypocket-test-${crypto.randomUUID()}`);
+process.env.MYPOCKET_DATABASE_PATH = path.join(directory, 'library.db');
+const database = getDatabase();
+
+afterAll(() => {
+  if (database.ok) database.db.close();
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+// Each test gets a library of its own
+function openRepository() {
+  if (!database.ok) throw new Error(database.message);
+  return createLibraryRepository(database.db, crypto.randomUUID());
+}
+
+const allArticles: LibraryFilters = {
+  searchTerm: '',
+  tags: [],
+  favoritesOnly: false,
+  highlightsOnly: false,
+  readOnly: false,
+  unreadOnly: false,
+  brokenOnly: false,
+  sortBy: 'default'
+};
+
+const article = (url: string, title: string): Article => ({
+  title,
+  url,
+  time_added: 1700000000,
+  tags: '',
+  status: 'unread',
+  isFavorite: false,
+  parsedTags: []
+});
+
+describe.skipIf(!database.ok)('library repository', () => {
+  it('stores every article without a URL when the library is replaced', () => {
+    const library = openRepository();
+    const articles = [article('', 'First note'), article('https://example.com/', 'Linked'), article('', 'Second note')];
+    library.replaceLibrary({ articles, highlightData: [] });
+
+    expect(library.readLibrary().data.articles).toEqual(
+      articles.map((item) => ({ ...item, id: expect.any(Number) }))
+    );
+  });
+
+  it('keeps an article without a URL in place when other fields change', () => {
+    const library = openRepository();
+    library.replaceLibrary({ articles: [article('', 'Note'), article('', 'Other note')], highlightData: [] });
+    const [note] = library.listArticles(allArticles, { page: 1, pageSize: 10 }).items;
+
+    expect(library.updateArticle(note.id, { status: 'read' })).toMatchObject({
+      ok: true,
+      value: { url: '', status: 'read' }
+    });
+    expect(library.readLibrary().data.articles.map((item) => item.title)).toEqual(['Note', 'Other note']);
+  });
+
+  it('moves highlights along when an article changes URL', () => {
+    const library = openRepository();
+    const article = library.createArticle({ url: 'https://example.com/old', title: 'Moved' });
+    if (!article.ok) throw new Error(article.reason);
+    library.createHighlight({ url: 'https://example.com/old', quote: 'Kept' });
+
+    const updated = library.updateArticle(article.value.id, { url: 'https://example.com/new' });
+    expect(updated.ok).toBe(true);
+    expect(library.listHighlights({ page: 1, pageSize: 10, url: 'https://example.com/old' }).total).toBe(0);
+    const moved = library.listHighlights({ page: 1, pageSize: 10, url: 'https://example.com/new' }).items;
+    expect(moved.map((highlight) => [highlight.url, highlight.quote])).toEqual([['https://example.com/new', 'Kept']]);
+    expect(library.readLibrary().data.highlightData).toEqual([
+      { url: 'https://example.com/new', title: 'Moved', highlights: [expect.objectContaining({ quote: 'Kept' })] }
+    ]);
+  });
+
+  it('refuses to move an article onto a URL another article has', () => {
+    const library = openRepository();
+    library.createArticle({ url: 'https://example.com/a' });
+    const second = library.createArticle({ url: 'https://example.com/b' });
+    if (!second.ok) throw new Error(second.reason);
+    library.createHighlight({ url: 'https://example.com/b', quote: 'Stays' });
+
+    expect(library.updateArticle(second.value.id, { url: 'https://www.example.com/a/' })).toEqual({
+      ok: false,
+      reason: 'duplicate'
+    });
+    expect(library.listHighlights({ page: 1, pageSize: 10, url: 'https://example.com/b' }).total).toBe(1);
+  });
+});
@@ -0,0 +1,615 @@
+import 'server-only';
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import type { LibraryFilters } from './export-scope';
+import { transaction } from './server-db';
+import type { Article, ArticleWithHighlights, CachedData, Highlight, LinkHealth } from './types';
+import { normalizeUrl } from './url';
+
+// Reads and writes one library in the server database. Queries mirror the article list
+// in the UI: the same filters, the same sort orders, library order by default. Every
+// write bumps the library's revision, which clients use to tell whether they are behind.
+
+export interface StoredArticle extends Article {
+  id: number;
+  updatedAt: number;
+}
+
+export interface StoredHighlight extends Highlight {
+  id: number;
+  // The article the highlight belongs to, as in ArticleWithHighlights
+  url: string;
+  title: string;
+}
+
+// The whole library in the shape the client stores, with the id each record has in the API
+export interface LibraryRecords {
+  articles: (Article & { id: number })[];
+  highlightData: (Omit<ArticleWithHighlights, 'highlights'> & { highlights: (Highlight & { id: number })[] })[];
+}
+
+export interface ResultPage<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface Pagination {
+  // 1-based
+  page: number;
+  pageSize: number;
+}
+
+export interface ArticleInput {
+  url: string;
+  title?: string;
+  time_added?: number;
+  tags?: string[];
+  isFavorite?: boolean;
+  status?: string;
+  linkHealth?: LinkHealth;
+}
+
+export interface ArticleChanges {
+  url?: string;
+  title?: string;
+  time_added?: number;
+  tags?: string[];
+  isFavorite?: boolean;
+  status?: string;
+  // null clears the last link check
+  linkHealth?: LinkHealth | null;
+}
+
+export interface HighlightInput {
+  url: string;
+  // Defaults to the article's title when the article is in the library
+  title?: string;
+  quote: string;
+  created_at?: number;
+  location?: string;
+}
+
+export interface HighlightChanges {
+  quote?: string;
+  location?: string | null;
+}
+
+export interface HighlightQuery extends Pagination {
+  url?: string;
+  searchTerm?: string;
+}
+
+export type WriteResult<T> =
+  | { ok: true; value: T; revision: number }
+  | { ok: false; reason: 'not-found' | 'duplicate' };
+
+export interface LibraryRepository {
+  revision(): number;
+  listArticles(filters: LibraryFilters, pagination: Pagination): ResultPage<StoredArticle>;
+  getArticle(id: number): StoredArticle | null;
+  createArticle(input: ArticleInput): WriteResult<StoredArticle>;
+  updateArticle(id: number, changes: ArticleChanges): WriteResult<StoredArticle>;
+  deleteArticle(id: number): WriteResult<null>;
+  listHighlights(query: HighlightQuery): ResultPage<StoredHighlight>;
+  getHighlight(id: number): StoredHighlight | null;
+  createHighlight(input: HighlightInput): WriteResult<StoredHighlight>;
+  updateHighlight(id: number, changes: HighlightChanges): WriteResult<StoredHighlight>;
+  deleteHighlight(id: number): WriteResult<null>;
+  // Tags with the number of articles carrying each, most used first
+  listTags(): { tag: string; count: number }[];
+  // Renaming onto an existing tag merges the two
+  renameTag(tag: string, newName: string): WriteResult<number>;
+  deleteTag(tag: string): WriteResult<number>;
+  readLibrary(): { data: LibraryRecords; revision: number };
+  replaceLibrary(data: Pick<CachedData, 'articles' | 'highlightData'>): number;
+}
+
+interface ArticleRow {
+  id: number;
+  url: string;
+  url_key: string;
+  title: string;
+  time_added: number;
+  tags: string;
+  status: string;
+  is_favorite: number;
+  link_health: string | null;
+  updated_at: number;
+}
+
+interface HighlightRow {
+  id: number;
+  url: string;
+  title: string;
+  quote: string;
+  created_at: number;
+  location: string | null;
+}
+
+const ARTICLE_COLUMNS =
+  'a.id, a.url, a.url_key, a.title, a.time_added, a.tags, a.status, a.is_favorite, a.link_health, a.updated_at';
+const HIGHLIGHT_COLUMNS = 'h.id, h.url, h.title, h.quote, h.created_at, h.location';
+
+const BROKEN_STATUSES = "('broken', 'unreachable', 'moved')";
+
+// Articles imported with a title but no URL each get a key of their own, so they don't
+// collide in the unique index. Only http(s) URLs are stored, so no real key looks like this.
+const NO_URL_KEY_PREFIX = 'no-url:';
+
+const SORT_CLAUSES: Record<LibraryFilters['sortBy'], string> = {
+  default: 'a.position',
+  newest: 'a.time_added DESC, a.position',
+  oldest: 'a.time_added ASC, a.position',
+  'title-asc': 'a.title COLLATE NOCASE ASC, a.position',
+  'title-desc': 'a.title COLLATE NOCASE DESC, a.position'
+};
+
+// "*" in the stored tag string marks a favorite, as in Pocket exports
+function tagString(tags: string[], isFavorite: boolean): string {
+  return [...tags, ...(isFavorite ? ['*'] : [])].join('|');
+}
+
+function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter((tag) => tag && tag !== '*' && tag !== '***')));
+}
+
+function parseLinkHealth(value: string | null): LinkHealth | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as LinkHealth;
+  } catch {
+    return undefined;
+  }
+}
+
+function toPage<T>(items: T[], total: number, pagination: Pagination): ResultPage<T> {
+  return {
+    items,
+    page: pagination.page,
+    pageSize: pagination.pageSize,
+    total,
+    totalPages: Math.ceil(total / pagination.pageSize)
+  };
+}
+
+function toHighlight(row: HighlightRow): StoredHighlight {
+  return {
+    id: row.id,
+    url: row.url,
+    title: row.title,
+    quote: row.quote,
+    created_at: row.created_at,
+    ...(row.location ? { location: row.location } : {})
+  };
+}
+
+export function createLibraryRepository(db: DatabaseSync, libraryId: string): LibraryRepository {
+  const selectTags = db.prepare('SELECT tag FROM article_tags WHERE article_id = ? ORDER BY rowid');
+  const deleteTags = db.prepare('DELETE FROM article_tags WHERE article_id = ?');
+  const insertTag = db.prepare('INSERT INTO article_tags (article_id, tag) VALUES (?, ?)');
+
+  const tagsOf = (articleId: number): string[] =>
+    (selectTags.all(articleId) as { tag: string }[]).map((row) => row.tag);
+
+  const toArticle = (row: ArticleRow, tags = tagsOf(row.id)): StoredArticle => {
+    const linkHealth = parseLinkHealth(row.link_health);
+    return {
+      id: row.id,
+      title: row.title,
+      url: row.url,
+      time_added: row.time_added,
+      tags: row.tags,
+      status: row.status,
+      isFavorite: row.is_favorite === 1,
+      parsedTags: tags,
+      ...(linkHealth ? { linkHealth } : {}),
+      updatedAt: row.updated_at
+    };
+  };
+
+  const bumpRevision = (): number => {
+    const row = db
+      .prepare(
+        `INSERT INTO library_meta (library_id, revision, updated_at) VALUES (?, 1, ?)
+         ON CONFLICT (library_id) DO UPDATE SET revision = revision + 1, updated_at = excluded.updated_at
+         RETURNING revision`
+      )
+      .get(libraryId, Date.now()) as { revision: number };
+    return row.revision;
+  };
+
+  const setTags = (articleId: number, tags: string[]) => {
+    deleteTags.run(articleId);
+    tags.forEach((tag) => insertTag.run(articleId, tag));
+  };
+
+  const findArticleRow = (id: number) =>
+    db.prepare(`SELECT ${ARTICLE_COLUMNS} FROM articles a WHERE a.library_id = ? AND a.id = ?`).get(libraryId, id) as
+      | ArticleRow
+      | undefined;
+
+  const findArticleIdByUrl = (urlKey: string) =>
+    (
+      db.prepare('SELECT id FROM articles WHERE library_id = ? AND url_key = ?').get(libraryId, urlKey) as
+        | { id: number }
+        | undefined
+    )?.id;
+
+  const findHighlightRow = (id: number) =>
+    db
+      .prepare(`SELECT ${HIGHLIGHT_COLUMNS} FROM highlights h WHERE h.library_id = ? AND h.id = ?`)
+      .get(libraryId, id) as HighlightRow | undefined;
+
+  const insertArticle = db.prepare(
+    `INSERT INTO articles
+       (library_id, url, url_key, title, time_added, tags, status, is_favorite, link_health, position, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`
+  );
+  const insertHighlight = db.prepare(
+    `INSERT INTO highlights (library_id, url, url_key, title, quote, created_at, location, position)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`
+  );
+
+  // WHERE clause for the article list filters, over articles aliased as "a"
+  const filterClause = (filters: LibraryFilters): { where: string; params: SQLInputValue[] } => {
+    const conditions = ['a.library_id = ?'];
+    const params: SQLInputValue[] = [libraryId];
+
+    if (filters.searchTerm) {
+      const term = filters.searchTerm.toLowerCase();
+      conditions.push(
+        `(instr(lower_unicode(a.title), ?) > 0 OR instr(lower_unicode(a.url), ?) > 0 OR EXISTS (
+          SELECT 1 FROM highlights h
+          WHERE h.library_id = a.library_id AND h.url_key = a.url_key AND instr(lower_unicode(h.quote), ?) > 0
+        ))`
+      );
+      params.push(term, term, term);
+    }
+    filters.tags.forEach((tag) => {
+      conditions.push('EXISTS (SELECT 1 FROM article_tags t WHERE t.article_id = a.id AND t.tag = ?)');
+      params.push(tag);
+    });
+    if (filters.favoritesOnly) conditions.push('a.is_favorite = 1');
+    if (filters.highlightsOnly) {
+      conditions.push(
+        'EXISTS (SELECT 1 FROM highlights h WHERE h.library_id = a.library_id AND h.url_key = a.url_key)'
+      );
+    }
+    // Both set means either status, as in the UI
+    const statuses = [...(filters.readOnly ? ['read'] : []), ...(filters.unreadOnly ? ['unread'] : [])];
+    if (statuses.length > 0) {
+      conditions.push(`a.status IN (${statuses.map(() => '?').join(', ')})`);
+      params.push(...statuses);
+    }
+    if (filters.brokenOnly) conditions.push(`json_extract(a.link_health, '$.status') IN ${BROKEN_STATUSES}`);
+
+    return { where: conditions.join(' AND '), params };
+  };
+
+  const repository: LibraryRepository = {
+    revision() {
+      const row = db.prepare('SELECT revision FROM library_meta WHERE library_id = ?').get(libraryId) as
+        | { revision: number }
+        | undefined;
+      return row?.revision ?? 0;
+    },
+
+    listArticles(filters, pagination) {
+      const { where, params } = filterClause(filters);
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM articles a WHERE ${where}`).get(...params) as {
+        total: number;
+      };
+      const order = SORT_CLAUSES[filters.sortBy];
+      const rows = db
+        .prepare(`SELECT ${ARTICLE_COLUMNS} FROM articles a WHERE ${where} ORDER BY ${order} LIMIT ? OFFSET ?`)
+        .all(...params, pagination.pageSize, (pagination.page - 1) * pagination.pageSize) as unknown as ArticleRow[];
+      return toPage(rows.map((row) => toArticle(row)), total, pagination);
+    },
+
+    getArticle(id) {
+      const row = findArticleRow(id);
+      return row ? toArticle(row) : null;
+    },
+
+    createArticle(input) {
+      const urlKey = normalizeUrl(input.url);
+      return transaction(db, () => {
+        if (findArticleIdByUrl(urlKey) !== undefined) return { ok: false, reason: 'duplicate' };
+
+        const tags = uniqueTags(input.tags ?? []);
+        const isFavorite = input.isFavorite ?? false;
+        // New articles go to the top of the library, as when they are added in the app
+        const { first } = db
+          .prepare('SELECT COALESCE(MIN(position), 0) AS first FROM articles WHERE library_id = ?')
+          .get(libraryId) as { first: number };
+        const { id } = insertArticle.get(
+          libraryId,
+          input.url,
+          urlKey,
+          input.title?.trim() || input.url,
+          input.time_added ?? Math.floor(Date.now() / 1000),
+          tagString(tags, isFavorite),
+          input.status ?? 'unread',
+          isFavorite ? 1 : 0,
+          input.linkHealth ? JSON.stringify(input.linkHealth) : null,
+          first - 1,
+          Date.now()
+        ) as { id: number };
+        setTags(id, tags);
+        return { ok: true, value: toArticle(findArticleRow(id)!), revision: bumpRevision() };
+      });
+    },
+
+    updateArticle(id, changes) {
+      return transaction(db, () => {
+        const row = findArticleRow(id);
+        if (!row) return { ok: false, reason: 'not-found' };
+
+        const url = changes.url ?? row.url;
+        const urlKey = changes.url === undefined ? row.url_key : normalizeUrl(url);
+        const owner = findArticleIdByUrl(urlKey);
+        if (owner !== undefined && owner !== id) return { ok: false, reason: 'duplicate' };
+
+        const tagsChanged = changes.tags !== undefined || changes.isFavorite !== undefined;
+        const tags = changes.tags ? uniqueTags(changes.tags) : tagsOf(id);
+        const isFavorite = changes.isFavorite ?? row.is_favorite === 1;
+        const linkHealth =
+          changes.linkHealth === undefined ? row.link_health : changes.linkHealth && JSON.stringify(changes.linkHealth);
+
+        // Highlights belong to an article through its URL, so they move with it
+        if (url !== row.url) {
+          db.prepare('UPDATE highlights SET url = ?, url_key = ? WHERE library_id = ? AND url_key = ?').run(
+            url,
+            urlKey,
+            libraryId,
+            row.url_key
+          );
+        }
+        db.prepare(
+          `UPDATE articles SET url = ?, url_key = ?, title = ?, time_added = ?, tags = ?, status = ?, is_favorite = ?,
+           link_health = ?, updated_at = ? WHERE id = ?`
+        ).run(
+          url,
+          urlKey,
+          changes.title?.trim() || row.title,
+          changes.time_added ?? row.time_added,
+          // The imported tag string is kept until the tags are edited
+          tagsChanged ? tagString(tags, isFavorite) : row.tags,
+          changes.status ?? row.status,
+          isFavorite ? 1 : 0,
+          linkHealth,
+          Date.now(),
+          id
+        );
+        if (changes.tags) setTags(id, tags);
+        return { ok: true, value: toArticle(findArticleRow(id)!), revision: bumpRevision() };
+      });
+    },
+
+    deleteArticle(id) {
+      return transaction(db, () => {
+        const { changes } = db.prepare('DELETE FROM articles WHERE library_id = ? AND id = ?').run(libraryId, id);
+        if (Number(changes) === 0) return { ok: false, reason: 'not-found' };
+        return { ok: true, value: null, revision: bumpRevision() };
+      });
+    },
+
+    listHighlights(query) {
+      const conditions = ['h.library_id = ?'];
+      const params: SQLInputValue[] = [libraryId];
+      if (query.url) {
+        conditions.push('h.url_key = ?');
+        params.push(normalizeUrl(query.url));
+      }
+      if (query.searchTerm) {
+        conditions.push('instr(lower_unicode(h.quote), ?) > 0');
+        params.push(query.searchTerm.toLowerCase());
+      }
+      const where = conditions.join(' AND ');
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM highlights h WHERE ${where}`).get(...params) as {
+        total: number;
+      };
+      const rows = db
+        .prepare(`SELECT ${HIGHLIGHT_COLUMNS} FROM highlights h WHERE ${where} ORDER BY h.position LIMIT ? OFFSET ?`)
+        .all(...params, query.pageSize, (query.page - 1) * query.pageSize) as unknown as HighlightRow[];
+      return toPage(rows.map(toHighlight), total, query);
+    },
+
+    getHighlight(id) {
+      const row = findHighlightRow(id);
+      return row ? toHighlight(row) : null;
+    },
+
+    createHighlight(input) {
+      const urlKey = normalizeUrl(input.url);
+      return transaction(db, () => {
+        const article = db
+          .prepare('SELECT title FROM articles WHERE library_id = ? AND url_key = ?')
+          .get(libraryId, urlKey) as { title: string } | undefined;
+        const { last } = db
+          .prepare('SELECT COALESCE(MAX(position), 0) AS last FROM highlights WHERE library_id = ?')
+          .get(libraryId) as { last: number };
+        const { id } = insertHighlight.get(
+          libraryId,
+          input.url,
+          urlKey,
+          input.title?.trim() || article?.title || input.url,
+          input.quote,
+          input.created_at ?? Math.floor(Date.now() / 1000),
+          input.location ?? null,
+          last + 1
+        ) as { id: number };
+        return { ok: true, value: toHighlight(findHighlightRow(id)!), revision: bumpRevision() };
+      });
+    },
+
+    updateHighlight(id, changes) {
+      return transaction(db, () => {
+        const row = findHighlightRow(id);
+        if (!row) return { ok: false, reason: 'not-found' };
+        db.prepare('UPDATE highlights SET quote = ?, location = ? WHERE id = ?').run(
+          changes.quote ?? row.quote,
+          changes.location === undefined ? row.location : changes.location,
+          id
+        );
+        return { ok: true, value: toHighlight(findHighlightRow(id)!), revision: bumpRevision() };
+      });
+    },
+
+    deleteHighlight(id) {
+      return transaction(db, () => {
+        const { changes } = db.prepare('DELETE FROM highlights WHERE library_id = ? AND id = ?').run(libraryId, id);
+        if (Number(changes) === 0) return { ok: false, reason: 'not-found' };
+        return { ok: true, value: null, revision: bumpRevision() };
+      });
+    },
+
+    listTags() {
+      return db
+        .prepare(
+          `SELECT t.tag AS tag, COUNT(*) AS count FROM article_tags t JOIN articles a ON a.id = t.article_id
+           WHERE a.library_id = ? GROUP BY t.tag ORDER BY count DESC, t.tag`
+        )
+        .all(libraryId) as unknown as { tag: string; count: number }[];
+    },
+
+    renameTag(tag, newName) {
+      return transaction(db, () => {
+        const ids = articleIdsWithTag(tag);
+        if (ids.length === 0) return { ok: false, reason: 'not-found' };
+        ids.forEach((id) => retag(id, (tags) => uniqueTags(tags.map((name) => (name === tag ? newName : name)))));
+        return { ok: true, value: ids.length, revision: bumpRevision() };
+      });
+    },
+
+    deleteTag(tag) {
+      return transaction(db, () => {
+        const ids = articleIdsWithTag(tag);
+        if (ids.length === 0) return { ok: false, reason: 'not-found' };
+        ids.forEach((id) => retag(id, (tags) => tags.filter((name) => name !== tag)));
+        return { ok: true, value: ids.length, revision: bumpRevision() };
+      });
+    },
+
+    readLibrary() {
+      // Tags are read in one pass rather than once per article
+      const tagsByArticle = new Map<number, string[]>();
+      (
+        db
+          .prepare(
+            `SELECT t.article_id AS article_id, t.tag AS tag FROM article_tags t JOIN articles a ON a.id = t.article_id
+             WHERE a.library_id = ? ORDER BY t.rowid`
+          )
+          .all(libraryId) as { article_id: number; tag: string }[]
+      ).forEach(({ article_id, tag }) => {
+        const tags = tagsByArticle.get(article_id);
+        if (tags) tags.push(tag);
+        else tagsByArticle.set(article_id, [tag]);
+      });
+
+      const articles = (
+        db.prepare(`SELECT ${ARTICLE_COLUMNS} FROM articles a WHERE a.library_id = ? ORDER BY a.position`).all(
+          libraryId
+        ) as unknown as ArticleRow[]
+      ).map((row) => {
+        const { updatedAt: _updatedAt, ...article } = toArticle(row, tagsByArticle.get(row.id) ?? []);
+        return article;
+      });
+
+      // Highlights are grouped per article in the order each article's first highlight was saved
+      const groups = new Map<string, LibraryRecords['highlightData'][number]>();
+      (
+        db
+          .prepare(
+            `SELECT ${HIGHLIGHT_COLUMNS}, h.url_key FROM highlights h WHERE h.library_id = ? ORDER BY h.position`
+          )
+          .all(libraryId) as unknown as (HighlightRow & { url_key: string })[]
+      ).forEach((row) => {
+        let group = groups.get(row.url_key);
+        if (!group) {
+          group = { url: row.url, title: row.title, highlights: [] };
+          groups.set(row.url_key, group);
+        }
+        const { url: _url, title: _title, ...highlight } = toHighlight(row);
+        group.highlights.push(highlight);
+      });
+
+      return { data: { articles, highlightData: Array.from(groups.values()) }, revision: repository.revision() };
+    },
+
+    replaceLibrary(data) {
+      return transaction(db, () => {
+        db.prepare('DELETE FROM articles WHERE library_id = ?').run(libraryId);
+        db.prepare('DELETE FROM highlights WHERE library_id = ?').run(libraryId);
+
+        const now = Date.now();
+        const seen = new Set<string>();
+        data.articles.forEach((article, index) => {
+          const urlKey = article.url ? normalizeUrl(article.url) : `${NO_URL_KEY_PREFIX}${index}`;
+          // The client keeps one article per URL; a repeat would break the unique index
+          if (seen.has(urlKey)) return;
+          seen.add(urlKey);
+          const { id } = insertArticle.get(
+            libraryId,
+            article.url,
+            urlKey,
+            article.title,
+            article.time_added,
+            article.tags,
+            article.status,
+            article.isFavorite ? 1 : 0,
+            article.linkHealth ? JSON.stringify(article.linkHealth) : null,
+            index,
+            now
+          ) as { id: number };
+          setTags(id, uniqueTags(article.parsedTags));
+        });
+
+        let position = 0;
+        data.highlightData.forEach((item) => {
+          const urlKey = normalizeUrl(item.url);
+          item.highlights.forEach((highlight) => {
+            insertHighlight.run(
+              libraryId,
+              item.url,
+              urlKey,
+              item.title,
+              highlight.quote,
+              highlight.created_at,
+              highlight.location ?? null,
+              position++
+            );
+          });
+        });
+
+        return bumpRevision();
+      });
+    }
+  };
+
+  function articleIdsWithTag(tag: string): number[] {
+    return (
+      db
+        .prepare(
+          `SELECT a.id AS id FROM articles a JOIN article_tags t ON t.article_id = a.id
+           WHERE a.library_id = ? AND t.tag = ? ORDER BY a.position`
+        )
+        .all(libraryId, tag) as { id: number }[]
+    ).map((row) => row.id);
+  }
+
+  function retag(id: number, change: (tags: string[]) => string[]) {
+    const tags = change(tagsOf(id));
+    const row = findArticleRow(id)!;
+    db.prepare('UPDATE articles SET tags = ?, updated_at = ? WHERE id = ?').run(
+      tagString(tags, row.is_favorite === 1),
+      Date.now(),
+      id
+    );
+    setTags(id, tags);
+  }
+
+  return repository;
+}
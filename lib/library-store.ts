@@ -0,0 +1,417 @@
+import {
+  decodePayload,
+  decryptPayload,
+  encodePayload,
+  encryptPayload,
+  formatBytes,
+  toTextPayload,
+  type CodecId,
+  type CompressionMetadata
+} from './compression';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION } from './schema';
+import type { StorageAdapter, StoredValue } from './storage';
+import type { Article, ArticleWithHighlights, CachedData } from './types';
+
+// Records are spread over hash buckets so an edit rewrites only the bucket that holds it
+const RECORDS_PER_BUCKET = 250;
+const LIBRARY_FORMAT = 'chunked-v1';
+
+type RecordKind = 'articles' | 'highlights';
+
+interface LibraryManifest {
+  format: typeof LIBRARY_FORMAT;
+  // Shape of the stored records, see lib/schema.ts
+  schemaVersion: number;
+  timestamp: number;
+  compressed: boolean;
+  // Codec of every entry; manifests written before codecs existed imply LZ-string
+  codec?: CodecId;
+  bucketCount: { articles: number; highlights: number };
+  // URLs in display order; buckets themselves are unordered
+  articleOrder: string[];
+  highlightOrder: string[];
+}
+
+export interface LibrarySaveResult {
+  metadata: CompressionMetadata;
+  writtenChunks: number;
+  fullRewrite: boolean;
+}
+
+export interface LoadedLibrary {
+  // Records exactly as stored; callers migrate them from `schemaVersion` before use
+  data: CachedData;
+  metadata: CompressionMetadata;
+  schemaVersion: number;
+}
+
+export interface LibraryStore {
+  load(): Promise<LoadedLibrary | null>;
+  // `codec: null` stores the library uncompressed
+  save(data: CachedData, options: { codec: CodecId | null; fullRewrite?: boolean }): Promise<LibrarySaveResult>;
+  clear(): Promise<void>;
+  // Every key the stored library occupies, whether or not it was loaded
+  keys(): Promise<string[]>;
+  exportRaw(): Promise<Record<string, string>>;
+}
+
+// djb2 string hash - stable across sessions, which is all bucketing needs
+function hashString(value: string): number {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+function bucketFor(url: string, bucketCount: number): number {
+  return hashString(url) % bucketCount;
+}
+
+function bucketCountFor(recordCount: number): number {
+  return Math.max(1, Math.ceil(recordCount / RECORDS_PER_BUCKET));
+}
+
+function sumMetadata(parts: Iterable<CompressionMetadata>, timestamp: number): CompressionMetadata {
+  let originalSize = 0;
+  let compressedSize = 0;
+  let durationMs = 0;
+  let version = 'v1';
+  let codec: CodecId | undefined;
+  for (const part of parts) {
+    originalSize += part.originalSize;
+    compressedSize += part.compressedSize;
+    durationMs += part.durationMs ?? 0;
+    version = part.version;
+    codec = part.codec ?? codec;
+  }
+  return {
+    version,
+    timestamp,
+    originalSize,
+    compressedSize,
+    compressionRatio: originalSize > 0 ? ((originalSize - compressedSize) / originalSize) * 100 : 0,
+    codec,
+    durationMs
+  };
+}
+
+/**
+ * Rebuilds display order from the manifest. Records missing from the order
+ * (e.g. a write interrupted before the manifest was saved) go to the end.
+ */
+function restoreOrder<T extends { url: string }>(buckets: T[][], order: string[]): T[] {
+  const byUrl = new Map<string, T[]>();
+  for (const bucket of buckets) {
+    for (const record of bucket) {
+      const list = byUrl.get(record.url);
+      if (list) list.push(record);
+      else byUrl.set(record.url, [record]);
+    }
+  }
+
+  const ordered: T[] = [];
+  for (const url of order) {
+    const next = byUrl.get(url)?.shift();
+    if (next) ordered.push(next);
+  }
+  byUrl.forEach((rest) => ordered.push(...rest));
+  return ordered;
+}
+
+function manifestCodec(manifest: LibraryManifest): CodecId | null {
+  return manifest.compressed ? manifest.codec ?? 'lz-string' : null;
+}
+
+function sameOrder(records: { url: string }[], order: string[]): boolean {
+  return records.length === order.length && records.every((record, index) => record.url === order.at(index));
+}
+
+/**
+ * Creates a store that persists the library as one manifest plus hashed record
+ * buckets. The store remembers what it last wrote, so incremental saves only
+ * rewrite buckets whose records changed identity (React state updates replace
+ * only the edited objects). Legacy single-blob payloads under `baseKey` are
+ * converted on first load. With an encryption key every entry is compressed
+ * first and then encrypted. Binary codecs write bytes where the adapter
+ * supports them and base64 text otherwise.
+ */
+export function createLibraryStore(
+  adapter: StorageAdapter,
+  baseKey: string,
+  options: { encryptionKey?: CryptoKey | null } = {}
+): LibraryStore {
+  const encryptionKey = options.encryptionKey ?? null;
+  const manifestKey = `${baseKey}:manifest`;
+  const chunkKey = (kind: RecordKind, index: number) => `${baseKey}:${kind}:${index}`;
+
+  // State of what is currently persisted
+  let manifest: LibraryManifest | null = null;
+  // undefined until something was loaded or saved; null means uncompressed
+  let lastCodec: CodecId | null | undefined;
+  const savedBuckets = new Map<string, unknown[]>();
+  const chunkMetadata = new Map<string, CompressionMetadata>();
+
+  // compress → encrypt → store
+  async function writeEntry(key: string, payload: StoredValue): Promise<void> {
+    await adapter.setValue(key, encryptionKey ? await encryptPayload(payload, encryptionKey) : payload);
+  }
+
+  // load → decrypt → decompress
+  async function readEntry(stored: StoredValue): Promise<{ data: unknown; metadata: CompressionMetadata }> {
+    return decodePayload(await decryptPayload(stored, encryptionKey));
+  }
+
+  async function writeChunk(key: string, records: unknown[], codec: CodecId | null): Promise<void> {
+    const { payload, metadata } = await encodePayload(records, codec, adapter.supportsBinary);
+    await writeEntry(key, payload);
+    savedBuckets.set(key, records);
+    chunkMetadata.set(key, metadata);
+  }
+
+  async function writeManifest(next: LibraryManifest, codec: CodecId | null): Promise<void> {
+    const { payload, metadata } = await encodePayload(next, codec, adapter.supportsBinary);
+    await writeEntry(manifestKey, payload);
+    chunkMetadata.set(manifestKey, metadata);
+    manifest = next;
+  }
+
+  function bucketize<T extends { url: string }>(records: T[], bucketCount: number): T[][] {
+    const buckets: T[][] = Array.from({ length: bucketCount }, () => []);
+    for (const record of records) {
+      buckets.at(bucketFor(record.url, bucketCount))?.push(record);
+    }
+    return buckets;
+  }
+
+  // A bucket is dirty when any record in it is a different object than last written
+  function bucketChanged(key: string, records: unknown[]): boolean {
+    const previous = savedBuckets.get(key);
+    return !previous || previous.length !== records.length || records.some((record, i) => record !== previous.at(i));
+  }
+
+  async function removeStaleChunks(kind: RecordKind, from: number, to: number): Promise<void> {
+    for (let i = from; i < to; i++) {
+      const key = chunkKey(kind, i);
+      await adapter.removeItem(key);
+      savedBuckets.delete(key);
+      chunkMetadata.delete(key);
+    }
+  }
+
+  async function saveAll(data: CachedData, codec: CodecId | null): Promise<number> {
+    const previousCounts = manifest?.bucketCount ?? { articles: 0, highlights: 0 };
+    const bucketCount = {
+      articles: bucketCountFor(data.articles.length),
+      highlights: bucketCountFor(data.highlightData.length)
+    };
+
+    const articleBuckets = bucketize(data.articles, bucketCount.articles);
+    const highlightBuckets = bucketize(data.highlightData, bucketCount.highlights);
+
+    for (const [i, bucket] of articleBuckets.entries()) {
+      await writeChunk(chunkKey('articles', i), bucket, codec);
+    }
+    for (const [i, bucket] of highlightBuckets.entries()) {
+      await writeChunk(chunkKey('highlights', i), bucket, codec);
+    }
+
+    await writeManifest(
+      {
+        format: LIBRARY_FORMAT,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        timestamp: data.timestamp,
+        compressed: codec !== null,
+        ...(codec ? { codec } : {}),
+        bucketCount,
+        articleOrder: data.articles.map((article) => article.url),
+        highlightOrder: data.highlightData.map((item) => item.url)
+      },
+      codec
+    );
+
+    await removeStaleChunks('articles', bucketCount.articles, previousCounts.articles);
+    await removeStaleChunks('highlights', bucketCount.highlights, previousCounts.highlights);
+
+    // A legacy single-blob payload is dropped only once its replacement is fully written
+    if ((await adapter.getItem(baseKey)) !== null) {
+      await adapter.removeItem(baseKey);
+      console.log('🔄 Converted single-blob cache to per-record storage:', {
+        articles: data.articles.length,
+        highlights: data.highlightData.length
+      });
+    }
+    return articleBuckets.length + highlightBuckets.length + 1;
+  }
+
+  async function saveChanges(current: LibraryManifest, data: CachedData, codec: CodecId | null): Promise<number> {
+    let written = 0;
+
+    const articleBuckets = bucketize(data.articles, current.bucketCount.articles);
+    for (const [i, bucket] of articleBuckets.entries()) {
+      const key = chunkKey('articles', i);
+      if (bucketChanged(key, bucket)) {
+        await writeChunk(key, bucket, codec);
+        written++;
+      }
+    }
+
+    const highlightBuckets = bucketize(data.highlightData, current.bucketCount.highlights);
+    for (const [i, bucket] of highlightBuckets.entries()) {
+      const key = chunkKey('highlights', i);
+      if (bucketChanged(key, bucket)) {
+        await writeChunk(key, bucket, codec);
+        written++;
+      }
+    }
+
+    // The manifest only changes when records are added, removed or reordered
+    if (!sameOrder(data.articles, current.articleOrder) || !sameOrder(data.highlightData, current.highlightOrder)) {
+      await writeManifest(
+        {
+          ...current,
+          timestamp: data.timestamp,
+          articleOrder: data.articles.map((article) => article.url),
+          highlightOrder: data.highlightData.map((item) => item.url)
+        },
+        codec
+      );
+      written++;
+    } else if (written > 0) {
+      manifest = { ...current, timestamp: data.timestamp };
+    }
+
+    return written;
+  }
+
+  async function storedKeys(): Promise<string[]> {
+    let counts = manifest?.bucketCount;
+    const storedManifest = counts ? null : await adapter.getValue(manifestKey);
+    if (storedManifest) {
+      try {
+        counts = ((await readEntry(storedManifest)).data as Partial<LibraryManifest> | null)?.bucketCount;
+      } catch {
+        // Unreadable manifest - the chunks cannot be enumerated
+      }
+    }
+    return [
+      baseKey,
+      manifestKey,
+      ...Array.from({ length: counts?.articles ?? 0 }, (_, i) => chunkKey('articles', i)),
+      ...Array.from({ length: counts?.highlights ?? 0 }, (_, i) => chunkKey('highlights', i))
+    ];
+  }
+
+  async function readChunks<T>(kind: RecordKind, count: number): Promise<T[][]> {
+    const buckets: T[][] = [];
+    for (let i = 0; i < count; i++) {
+      const key = chunkKey(kind, i);
+      const stored = await adapter.getValue(key);
+      if (!stored) continue;
+
+      const { data, metadata } = await readEntry(stored);
+      const records = Array.isArray(data) ? (data as T[]) : [];
+      buckets.push(records);
+      savedBuckets.set(key, records);
+      chunkMetadata.set(key, metadata);
+    }
+    return buckets;
+  }
+
+  return {
+    async load() {
+      const storedManifest = await adapter.getValue(manifestKey);
+
+      if (!storedManifest) {
+        // A legacy single-blob payload is returned as-is; the first save converts it into buckets
+        const legacy = await adapter.getItem(baseKey);
+        if (!legacy) return null;
+
+        const { data, metadata } = await readEntry(legacy);
+        if (!data || typeof data !== 'object') return null;
+
+        const schemaVersion = 'schemaVersion' in data ? data.schemaVersion : undefined;
+        return {
+          data: data as CachedData,
+          metadata,
+          schemaVersion: typeof schemaVersion === 'number' ? schemaVersion : LEGACY_SCHEMA_VERSION
+        };
+      }
+
+      const { data: storedManifestData, metadata: manifestMetadata } = await readEntry(storedManifest);
+      const parsedManifest = storedManifestData as Partial<LibraryManifest> | null;
+      if (!parsedManifest || parsedManifest.format !== LIBRARY_FORMAT) {
+        throw new Error(`Unsupported library format: ${parsedManifest?.format}`);
+      }
+      manifest = parsedManifest as LibraryManifest;
+      chunkMetadata.set(manifestKey, manifestMetadata);
+      lastCodec = manifestCodec(manifest);
+
+      const articleBuckets = await readChunks<Article>('articles', manifest.bucketCount.articles);
+      const highlightBuckets = await readChunks<ArticleWithHighlights>('highlights', manifest.bucketCount.highlights);
+
+      const data: CachedData = {
+        articles: restoreOrder(articleBuckets, manifest.articleOrder),
+        highlightData: restoreOrder(highlightBuckets, manifest.highlightOrder),
+        timestamp: manifest.timestamp
+      };
+
+      // Remember loaded records by bucket so the first edit is also incremental
+      bucketize(data.articles, manifest.bucketCount.articles).forEach((bucket, i) =>
+        savedBuckets.set(chunkKey('articles', i), bucket)
+      );
+      bucketize(data.highlightData, manifest.bucketCount.highlights).forEach((bucket, i) =>
+        savedBuckets.set(chunkKey('highlights', i), bucket)
+      );
+
+      return {
+        data,
+        metadata: sumMetadata(chunkMetadata.values(), data.timestamp),
+        schemaVersion: manifest.schemaVersion ?? LEGACY_SCHEMA_VERSION
+      };
+    },
+
+    async save(data, { codec, fullRewrite = false }) {
+      // Switching codecs re-encodes every entry
+      const rewrite = fullRewrite || !manifest || lastCodec !== codec;
+      const writtenChunks = rewrite || !manifest
+        ? await saveAll(data, codec)
+        : await saveChanges(manifest, data, codec);
+      lastCodec = codec;
+
+      const metadata = sumMetadata(chunkMetadata.values(), data.timestamp);
+      console.log(rewrite ? '💾 Library rewritten:' : '💾 Library changes saved:', {
+        backend: adapter.backend,
+        writtenChunks,
+        totalSize: formatBytes(metadata.compressedSize)
+      });
+      return { metadata, writtenChunks, fullRewrite: rewrite };
+    },
+
+    async clear() {
+      const counts = manifest?.bucketCount;
+      if (counts) {
+        await removeStaleChunks('articles', 0, counts.articles);
+        await removeStaleChunks('highlights', 0, counts.highlights);
+      }
+      await adapter.removeItem(manifestKey);
+      await adapter.removeItem(baseKey);
+      manifest = null;
+      lastCodec = undefined;
+      savedBuckets.clear();
+      chunkMetadata.clear();
+    },
+
+    keys: storedKeys,
+
+    // Every stored entry verbatim (binary entries as text), for backups when the library cannot be loaded
+    async exportRaw() {
+      const raw = new Map<string, string>();
+      for (const key of await storedKeys()) {
+        const value = await adapter.getValue(key);
+        if (value !== null) raw.set(key, toTextPayload(value));
+      }
+      return Object.fromEntries(raw);
+    }
+  };
+}
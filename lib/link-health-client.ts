@@ -0,0 +1,77 @@
+import { LINK_CHECK_BATCH_SIZE, type LinkCheckResult } from './link-health';
+import type { Article } from './types';
+
+// Browser side of the /api/link-health route: sends the library in batches, one batch
+// at a time, waiting out the route's rate limit instead of failing.
+
+const LINK_HEALTH_ENDPOINT = '/api/link-health';
+// Rate-limit retries per batch before the check gives up
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+type BatchResponse =
+  | { ok: true; results: LinkCheckResult[] }
+  | { ok: false; error: string; retryAfterSeconds?: number };
+
+async function checkBatch(articles: Article[], wayback: boolean, signal: AbortSignal): Promise<BatchResponse> {
+  let response: Response;
+  try {
+    response = await fetch(LINK_HEALTH_ENDPOINT, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        links: articles.map((article) => ({ url: article.url, savedAt: article.time_added })),
+        wayback
+      }),
+      signal
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    return { ok: false, error: 'Could not reach the link checker' };
+  }
+  const body = await response.json().catch(() => null);
+
+  if (response.ok && Array.isArray(body?.results)) return { ok: true, results: body.results };
+  const error = typeof body?.error === 'string' ? body.error : `Request failed with HTTP ${response.status}`;
+  if (response.status === 429) {
+    return { ok: false, error, retryAfterSeconds: Number(response.headers.get('retry-after')) || 60 };
+  }
+  return { ok: false, error };
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Checks the articles' links, reporting each batch's results as they arrive.
+ * Rejects with the abort reason when the signal is aborted, and with an error when a
+ * batch fails; results reported before that stay valid.
+ */
+export async function checkLinks(
+  articles: Article[],
+  options: { wayback: boolean; signal: AbortSignal; onResults: (results: LinkCheckResult[]) => void }
+): Promise<void> {
+  const { wayback, signal, onResults } = options;
+
+  for (let start = 0; start < articles.length; start += LINK_CHECK_BATCH_SIZE) {
+    const batch = articles.slice(start, start + LINK_CHECK_BATCH_SIZE);
+    let response = await checkBatch(batch, wayback, signal);
+    for (let retry = 0; !response.ok && response.retryAfterSeconds && retry < MAX_RATE_LIMIT_RETRIES; retry++) {
+      await wait(response.retryAfterSeconds * 1000, signal);
+      response = await checkBatch(batch, wayback, signal);
+    }
+    signal.throwIfAborted();
+    if (!response.ok) throw new Error(response.error);
+    onResults(response.results);
+  }
+}
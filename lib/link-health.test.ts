@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { classifyLink, isBrokenLink } from './link-health';
+import type { Article, LinkHealthStatus } from './types';
+
+describe('classifyLink', () => {
+  it('treats a working page at the saved address as ok', () => {
+    expect(classifyLink('https://example.com/post', 200, 'https://example.com/post')).toBe('ok');
+    expect(classifyLink('https://www.example.com/post', 200, 'https://example.com/post/')).toBe('ok');
+    expect(classifyLink('https://example.com/', 200, 'https://example.com/')).toBe('ok');
+  });
+
+  it('treats a redirect to another site as moved', () => {
+    expect(classifyLink('https://example.com/post', 200, 'https://example.org/post')).toBe('moved');
+  });
+
+  it('treats a deep link that lands on the home page as moved, as parked domains do', () => {
+    expect(classifyLink('https://example.com/2019/post', 200, 'https://example.com/')).toBe('moved');
+  });
+
+  it('treats sites that refuse automated requests as restricted', () => {
+    for (const status of [401, 403, 429, 999]) {
+      expect(classifyLink('https://example.com/post', status, 'https://example.com/post')).toBe('restricted');
+    }
+  });
+
+  it('treats error statuses as broken and no response as unreachable', () => {
+    expect(classifyLink('https://example.com/post', 404, 'https://example.com/post')).toBe('broken');
+    expect(classifyLink('https://example.com/post', 500, 'https://example.com/post')).toBe('broken');
+    expect(classifyLink('https://example.com/post', 0, 'https://example.com/post')).toBe('unreachable');
+  });
+});
+
+describe('isBrokenLink', () => {
+  const article = (status?: LinkHealthStatus): Article => ({
+    title: 'Post',
+    url: 'https://example.com/post',
+    time_added: 1,
+    tags: '',
+    status: 'unread',
+    isFavorite: false,
+    parsedTags: [],
+    ...(status ? { linkHealth: { status, httpStatus: 200, checkedAt: 1 } } : {})
+  });
+
+  it('shows moved, broken and unreachable links but not restricted or unchecked ones', () => {
+    expect(isBrokenLink(article('moved'))).toBe(true);
+    expect(isBrokenLink(article('broken'))).toBe(true);
+    expect(isBrokenLink(article('unreachable'))).toBe(true);
+    expect(isBrokenLink(article('ok'))).toBe(false);
+    expect(isBrokenLink(article('restricted'))).toBe(false);
+    expect(isBrokenLink(article())).toBe(false);
+  });
+});
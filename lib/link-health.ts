@@ -0,0 +1,55 @@
+import type { Article, LinkHealth, LinkHealthStatus } from './types';
+
+// Link checks shared by the /api/link-health route and the client: what a check result
+// means for an article, and which results the "Broken links" filter shows.
+
+// Links per request to the route, and how many of them the route checks at once
+export const LINK_CHECK_BATCH_SIZE = 10;
+export const LINK_CHECK_CONCURRENCY = 4;
+
+// One link's result as returned by the route
+export interface LinkCheckResult {
+  url: string;
+  health: LinkHealth;
+}
+
+// Sites that refuse automated requests; the page is most likely still there
+const RESTRICTED_STATUSES = new Set([401, 403, 429, 999]);
+
+function siteOf(url: URL): string {
+  return url.hostname.replace(/^www\./, '').toLowerCase();
+}
+
+/**
+ * Classifies a check: no response is unreachable, error statuses are broken, and a
+ * working page on another site (or on the home page of the same site, when a deeper
+ * page was saved) counts as moved, which is how domain parking usually looks.
+ */
+export function classifyLink(articleUrl: string, httpStatus: number, finalUrl: string): LinkHealthStatus {
+  if (httpStatus === 0) return 'unreachable';
+  if (RESTRICTED_STATUSES.has(httpStatus)) return 'restricted';
+  if (httpStatus >= 400) return 'broken';
+
+  try {
+    const original = new URL(articleUrl);
+    const final = new URL(finalUrl);
+    if (siteOf(original) !== siteOf(final)) return 'moved';
+    if (original.pathname.replace(/\/+$/, '') !== '' && final.pathname.replace(/\/+$/, '') === '') return 'moved';
+  } catch {
+    // Unparseable URLs were already rejected by the check itself
+  }
+  return 'ok';
+}
+
+export function isBrokenLink(article: Article): boolean {
+  const status = article.linkHealth?.status;
+  return status === 'broken' || status === 'unreachable' || status === 'moved';
+}
+
+export const LINK_STATUS_LABELS: Record<LinkHealthStatus, string> = {
+  ok: 'Working',
+  moved: 'Moved',
+  restricted: 'Blocks checks',
+  broken: 'Broken',
+  unreachable: 'Unreachable'
+};
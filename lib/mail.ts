@@ -0,0 +1,117 @@
+import 'server-only';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { sendSmtp } from './smtp';
+
+// Outgoing mail for sign-in links. Which transport is used comes from the environment:
+// SMTP for real deployments, or a stand-in that writes messages to files or the server log
+// for local development and tests, where no mail server is around.
+
+export const DEFAULT_MAIL_FROM = 'MyPocket Reader <no-reply@localhost>';
+export const DEFAULT_MAIL_DIR = 'data/mail';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: 'smtp' | 'file' | 'console';
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransportResult = { ok: true; transport: MailTransport } | { ok: false; message: string };
+
+// Header values are single-line; non-ASCII is sent as an RFC 2047 encoded word
+function headerValue(value: string): string {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line).toString('base64')}?=`;
+}
+
+function addressOf(from: string): string {
+  return /<([^>]+)>/.exec(from)?.[1] ?? from.trim();
+}
+
+/**
+ * The message as RFC 5322 text, ready for SMTP DATA or an .eml file
+ */
+export function formatMessage(from: string, message: MailMessage): string {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    message.text
+  ].join('\r\n');
+}
+
+export function createSmtpTransport(url: URL, from: string): MailTransport {
+  return {
+    name: 'smtp',
+    send: (message) => sendSmtp(url, { from: addressOf(from), to: message.to }, formatMessage(from, message))
+  };
+}
+
+// Each message becomes an .eml file, which mail clients open and tests can read back
+export function createFileTransport(directory: string, from: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const file = path.join(directory, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+      await fs.writeFile(file, formatMessage(from, message), { mode: 0o600 });
+      console.log(`📧 Mail to ${message.to} written to ${file}`);
+    }
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+  };
+}
+
+/**
+ * The transport named by MYPOCKET_MAIL_TRANSPORT (smtp, file or console). Defaults to smtp
+ * when MYPOCKET_SMTP_URL is set; with neither, accounts are off.
+ */
+export function getMailTransport(): MailTransportResult | null {
+  const from = process.env.MYPOCKET_MAIL_FROM || DEFAULT_MAIL_FROM;
+  const smtpUrl = process.env.MYPOCKET_SMTP_URL;
+  const kind = process.env.MYPOCKET_MAIL_TRANSPORT || (smtpUrl ? 'smtp' : '');
+
+  switch (kind) {
+    case '':
+      return null;
+    case 'smtp': {
+      let url: URL | null = null;
+      try {
+        url = new URL(smtpUrl || '');
+      } catch {}
+      if (!url || (url.protocol !== 'smtp:' && url.protocol !== 'smtps:')) {
+        return { ok: false, message: 'MYPOCKET_SMTP_URL must be an smtp:// or smtps:// URL' };
+      }
+      return { ok: true, transport: createSmtpTransport(url, from) };
+    }
+    case 'file':
+      return {
+        ok: true,
+        transport: createFileTransport(path.resolve(process.env.MYPOCKET_MAIL_DIR || DEFAULT_MAIL_DIR), from)
+      };
+    case 'console':
+      return { ok: true, transport: createConsoleTransport() };
+    default:
+      return { ok: false, message: `Unknown MYPOCKET_MAIL_TRANSPORT "${kind}"` };
+  }
+}
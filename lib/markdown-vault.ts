@@ -0,0 +1,163 @@
+import type { Article, ArticleWithHighlights, Highlight } from './types';
+import { normalizeUrl } from './url';
+
+// Markdown vault for Obsidian or Logseq: one note per article with YAML frontmatter and its
+// highlights as blockquotes, plus one index note per tag linking to its articles.
+
+export const VAULT_ARTICLES_FOLDER = 'Articles';
+export const VAULT_TAGS_FOLDER = 'Tags';
+
+// Longest file name stem; keeps full paths well under the usual 255-byte limits
+const MAX_FILE_NAME_LENGTH = 100;
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_FILE_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+export interface VaultOptions {
+  // Skip articles without highlights
+  highlightsOnly: boolean;
+}
+
+export interface VaultFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Turns a title into a file name stem that is valid on every platform and doesn't break
+ * wikilinks: path separators, characters Windows rejects and Obsidian's link syntax
+ * ([ ] # ^ |) are replaced, and trailing dots and spaces are trimmed.
+ */
+export function toSafeFileName(value: string): string {
+  const cleaned = value
+    .replace(/[\u0000-\u001f\u007f]/g, ' ')
+    .replace(/[\\/:*?"<>|#^[\]]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .replace(/[. ]+$/, '')
+    .replace(/^\.+/, '');
+  if (!cleaned) return 'Untitled';
+  return RESERVED_FILE_NAMES.test(cleaned) ? `${cleaned}_` : cleaned;
+}
+
+/**
+ * Hands out file names that are unique within one folder, comparing case-insensitively
+ * since macOS and Windows file systems do: "Title", "Title (2)", "Title (3)", ...
+ */
+function createNameAllocator() {
+  const used = new Set<string>();
+  return (value: string): string => {
+    const base = toSafeFileName(value);
+    let name = base;
+    for (let suffix = 2; used.has(name.toLowerCase()); suffix++) {
+      name = `${base} (${suffix})`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  };
+}
+
+// JSON strings are valid double-quoted YAML scalars, which sidesteps YAML's quoting rules
+const yamlString = (value: string) => JSON.stringify(value);
+
+// Obsidian tags can't contain spaces or most punctuation
+function toVaultTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_\-/]/gu, '');
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().split('T')[0];
+}
+
+function frontmatter(article: Article): string[] {
+  const tags = Array.from(new Set(article.parsedTags.map(toVaultTag).filter(Boolean)));
+  return [
+    '---',
+    `title: ${yamlString(article.title || article.url)}`,
+    `url: ${yamlString(article.url)}`,
+    tags.length > 0 ? `tags:\n${tags.map((tag) => `  - ${yamlString(tag)}`).join('\n')}` : 'tags: []',
+    `status: ${yamlString(article.status || 'unread')}`,
+    `favorite: ${article.isFavorite}`,
+    ...(article.time_added > 0 ? [`added: ${formatDate(article.time_added)}`] : []),
+    '---'
+  ];
+}
+
+function highlightBlock(highlight: Highlight): string {
+  const lines = highlight.quote
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => (line ? `> ${line}` : '>'));
+  const details = [highlight.location, highlight.created_at > 0 ? formatDate(highlight.created_at) : '']
+    .filter(Boolean)
+    .join(' · ');
+  if (details) lines.push('>', `> — ${details}`);
+  return lines.join('\n');
+}
+
+function articleNote(article: Article, highlights: Highlight[]): string {
+  const lines = [...frontmatter(article), '', `# ${article.title || article.url}`, '', `<${article.url}>`];
+  if (highlights.length > 0) {
+    lines.push('', '## Highlights', '', highlights.map(highlightBlock).join('\n\n'));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function wikilink(folder: string, name: string, label: string): string {
+  // "|" is the alias separator, so it can't appear in the label either
+  return `[[${folder}/${name}|${label.replace(/[[\]|]/g, '-')}]]`;
+}
+
+/**
+ * Builds the vault's notes. Articles keep their order; tag index notes are sorted by tag
+ * and list their articles newest first.
+ */
+export function buildMarkdownVault(
+  articles: Article[],
+  highlightData: ArticleWithHighlights[],
+  options: VaultOptions
+): VaultFile[] {
+  const highlightsByUrl = new Map<string, Highlight[]>();
+  for (const item of highlightData) {
+    const key = normalizeUrl(item.url);
+    highlightsByUrl.set(key, [...(highlightsByUrl.get(key) || []), ...item.highlights]);
+  }
+
+  const articleName = createNameAllocator();
+  const files: VaultFile[] = [];
+  const byTag = new Map<string, { name: string; article: Article }[]>();
+
+  for (const article of articles) {
+    const highlights = highlightsByUrl.get(normalizeUrl(article.url)) || [];
+    if (options.highlightsOnly && highlights.length === 0) continue;
+
+    const name = articleName(article.title || article.url);
+    files.push({ path: `${VAULT_ARTICLES_FOLDER}/${name}.md`, content: articleNote(article, highlights) });
+    for (const tag of article.parsedTags) {
+      byTag.set(tag, [...(byTag.get(tag) || []), { name, article }]);
+    }
+  }
+
+  const tagName = createNameAllocator();
+  const tags = Array.from(byTag.keys()).sort((a, b) => a.localeCompare(b));
+  for (const tag of tags) {
+    const entries = [...(byTag.get(tag) || [])].sort((a, b) => b.article.time_added - a.article.time_added);
+    const vaultTag = toVaultTag(tag);
+    const lines = [
+      '---',
+      `title: ${yamlString(tag)}`,
+      ...(vaultTag ? [`tags:\n  - ${yamlString(vaultTag)}`] : []),
+      '---',
+      '',
+      `# ${tag}`,
+      '',
+      ...entries.map(({ name, article }) => `- ${wikilink(VAULT_ARTICLES_FOLDER, name, article.title || article.url)}`)
+    ];
+    files.push({ path: `${VAULT_TAGS_FOLDER}/${tagName(tag)}.md`, content: `${lines.join('\n')}\n` });
+  }
+
+  return files;
+}
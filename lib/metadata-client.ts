@@ -0,0 +1,95 @@
+import type { PageMetadata } from './page-metadata';
+
+// Browser side of the /api/metadata route: asks for consent once, then fetches page titles
+// one or many at a time, waiting out the route's rate limit instead of failing.
+
+export const METADATA_CONSENT_KEY = 'mypocket-reader-metadata-consent';
+const METADATA_ENDPOINT = '/api/metadata';
+// Parallel requests in a batch; the route allows 30 per minute per caller
+const BATCH_CONCURRENCY = 3;
+// Rate-limit retries per URL before it is reported as failed
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+export type MetadataResponse =
+  | { ok: true; metadata: PageMetadata }
+  | { ok: false; error: string; retryAfterSeconds?: number };
+
+export function hasMetadataConsent(): boolean {
+  try {
+    return localStorage.getItem(METADATA_CONSENT_KEY) === 'granted';
+  } catch {
+    return false;
+  }
+}
+
+export function setMetadataConsent(granted: boolean): void {
+  try {
+    if (granted) localStorage.setItem(METADATA_CONSENT_KEY, 'granted');
+    else localStorage.removeItem(METADATA_CONSENT_KEY);
+  } catch {
+    // localStorage can throw in privacy modes; consent is then asked again next time
+  }
+}
+
+export async function fetchPageMetadata(url: string, signal?: AbortSignal): Promise<MetadataResponse> {
+  let response: Response;
+  try {
+    response = await fetch(METADATA_ENDPOINT, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ url }),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return { ok: false, error: 'Could not reach the metadata service' };
+  }
+  const body = await response.json().catch(() => null);
+
+  if (response.ok && body) return { ok: true, metadata: body as PageMetadata };
+  const error = typeof body?.error === 'string' ? body.error : `Request failed with HTTP ${response.status}`;
+  if (response.status === 429) {
+    return { ok: false, error, retryAfterSeconds: Number(response.headers.get('retry-after')) || 60 };
+  }
+  return { ok: false, error };
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Fetches metadata for many URLs, reporting each result as it arrives.
+ * Rejects with the abort reason when the signal is aborted.
+ */
+export async function fetchMetadataBatch(
+  urls: string[],
+  options: { signal: AbortSignal; onResult: (url: string, result: MetadataResponse) => void }
+): Promise<void> {
+  const { signal, onResult } = options;
+  const queue = [...urls];
+
+  const runWorker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      let result = await fetchPageMetadata(url, signal);
+      for (let retry = 0; !result.ok && result.retryAfterSeconds && retry < MAX_RATE_LIMIT_RETRIES; retry++) {
+        await wait(result.retryAfterSeconds * 1000, signal);
+        result = await fetchPageMetadata(url, signal);
+      }
+      signal.throwIfAborted();
+      onResult(url, result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, urls.length) }, runWorker));
+}
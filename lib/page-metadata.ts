@@ -0,0 +1,112 @@
+// Title, description and images of a web page, read from its <head> without a DOM so it
+// can run in the metadata route. Values are plain text; the client still sanitizes them.
+
+export interface PageMetadata {
+  // The page that was read, after redirects
+  url: string;
+  title: string;
+  description: string;
+  siteName: string;
+  favicon: string;
+  image: string;
+}
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”'
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanText(value: string | undefined, maxLength: number): string {
+  if (!value) return '';
+  return decodeEntities(value).replace(/\s+/g, ' ').trim().slice(0, maxLength);
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/<>"']+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+// Resolves a link from the page; only http(s) results are kept
+function resolveLink(href: string | undefined, base: string): string {
+  if (!href) return '';
+  try {
+    const url = new URL(decodeEntities(href.trim()), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Prefers OpenGraph and Twitter card tags over <title> and <meta name="description">.
+ * Falls back to the host name for the site name and /favicon.ico for the icon.
+ */
+export function extractPageMetadata(html: string, pageUrl: string): PageMetadata {
+  const headEnd = html.search(/<\/head\s*>/i);
+  const head = headEnd >= 0 ? html.slice(0, headEnd) : html;
+
+  const meta = new Map<string, string>();
+  for (const tag of head.match(/<meta\b[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
+
+  let favicon = '';
+  for (const tag of head.match(/<link\b[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel || '').toLowerCase().split(/\s+/);
+    if (rel.includes('icon') || rel.includes('apple-touch-icon')) {
+      favicon = resolveLink(attributes.href, pageUrl);
+      if (favicon) break;
+    }
+  }
+
+  const titleTag = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(head)?.[1];
+  const { hostname, origin } = new URL(pageUrl);
+
+  return {
+    url: pageUrl,
+    title: cleanText(meta.get('og:title') || meta.get('twitter:title') || titleTag, MAX_TITLE_LENGTH),
+    description: cleanText(
+      meta.get('og:description') || meta.get('description') || meta.get('twitter:description'),
+      MAX_DESCRIPTION_LENGTH
+    ),
+    siteName:
+      cleanText(meta.get('og:site_name') || meta.get('application-name'), MAX_TITLE_LENGTH) ||
+      hostname.replace(/^www\./, ''),
+    favicon: favicon || `${origin}/favicon.ico`,
+    image: resolveLink(meta.get('og:image') || meta.get('og:image:url') || meta.get('twitter:image'), pageUrl)
+  };
+}
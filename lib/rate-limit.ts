@@ -0,0 +1,56 @@
+// Fixed-window request counter per caller. State lives in the server instance's memory, so
+// each instance (or serverless worker) limits on its own; that is enough to stop one client
+// from turning an API route into a crawler.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the caller's window resets
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(key: string): RateLimitResult;
+}
+
+// Windows are swept once this many callers are tracked, so memory stays bounded
+const SWEEP_THRESHOLD = 10000;
+
+export function createRateLimiter(options: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (now - window.startedAt >= options.windowMs) windows.delete(key);
+    });
+  };
+
+  return {
+    check(key) {
+      const now = Date.now();
+      if (windows.size >= SWEEP_THRESHOLD) sweep(now);
+
+      let window = windows.get(key);
+      if (!window || now - window.startedAt >= options.windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(key, window);
+      }
+
+      const retryAfterSeconds = Math.max(1, Math.ceil((window.startedAt + options.windowMs - now) / 1000));
+      if (window.count >= options.limit) {
+        return { allowed: false, remaining: 0, retryAfterSeconds };
+      }
+      window.count++;
+      return { allowed: true, remaining: options.limit - window.count, retryAfterSeconds };
+    }
+  };
+}
+
+/**
+ * The caller's address as reported by the hosting proxy. Only trustworthy behind a proxy
+ * that sets these headers itself (Vercel does); otherwise callers share one bucket.
+ */
+export function clientKey(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || headers.get('x-real-ip')?.trim() || 'unknown';
+}
@@ -0,0 +1,305 @@
+import 'server-only';
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import type { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+
+// Server-side fetch of user-supplied URLs that can't be pointed at the server's own network
+// (SSRF). Every address a host resolves to is checked at connect time, so a DNS answer that
+// changes between check and use (rebinding) can't slip through, and redirects are followed
+// by hand so each hop is checked the same way.
+
+export const MAX_REDIRECTS = 3;
+export const FETCH_TIMEOUT_MS = 8000;
+// Metadata lives in <head>; reading stops here and the rest is never downloaded
+export const MAX_RESPONSE_BYTES = 1024 * 1024;
+// Upper bound for callers that need the whole page (archiving article content)
+export const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+const ALLOWED_PORTS = new Set(['', '80', '443']);
+
+export type SafeFetchFailureKind =
+  | 'invalid-url'
+  | 'blocked-address'
+  | 'too-many-redirects'
+  | 'timeout'
+  | 'not-html'
+  | 'upstream-error';
+
+export type SafeFetchResult =
+  | { ok: true; url: string; body: string }
+  | { ok: false; kind: SafeFetchFailureKind; message: string };
+
+type SafeFetchFailure = Extract<SafeFetchResult, { ok: false }>;
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved ranges,
+// plus IPv6 transition prefixes that can embed any IPv4 address. IPv4-mapped IPv6 gets its
+// own list: BlockList also matches plain IPv4 addresses against a ::ffff:0:0/96 rule.
+const ipv4BlockList = new net.BlockList();
+const ipv6BlockList = new net.BlockList();
+const ipv4MappedList = new net.BlockList();
+ipv4MappedList.addSubnet('::ffff:0:0', 96, 'ipv6');
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.88.99.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4]
+  ] as const
+).forEach(([network, prefix]) => ipv4BlockList.addSubnet(network, prefix, 'ipv4'));
+(
+  [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96],
+    ['100::', 64],
+    ['2001::', 32],
+    ['2001:db8::', 32],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+  ] as const
+).forEach(([network, prefix]) => ipv6BlockList.addSubnet(network, prefix, 'ipv6'));
+
+// The IPv4 address inside ::ffff:127.0.0.1 or ::ffff:7f00:1
+function embeddedIPv4(address: string): string | null {
+  const dotted = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i.exec(address);
+  if (dotted) return dotted[1];
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return ipv4BlockList.check(address, 'ipv4');
+  if (family !== 6) return true;
+  if (ipv4MappedList.check(address, 'ipv6')) {
+    // Mapped addresses in a form we can't read are refused
+    const ipv4 = embeddedIPv4(address);
+    return ipv4 === null || ipv4BlockList.check(ipv4, 'ipv4');
+  }
+  return ipv6BlockList.check(address, 'ipv6');
+}
+
+const BLOCKED_CODE = 'EBLOCKEDADDRESS';
+
+// dns.lookup that fails for hosts resolving to any blocked address
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const list = addresses as unknown as dns.LookupAddress[];
+    if (list.length === 0 || list.some(({ address }) => isBlockedAddress(address))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a blocked address`), { code: BLOCKED_CODE }), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+function checkUrl(url: URL): SafeFetchFailure | null {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { ok: false, kind: 'invalid-url', message: 'Only http and https URLs can be fetched' };
+  }
+  if (url.username || url.password) {
+    return { ok: false, kind: 'invalid-url', message: 'URLs with credentials cannot be fetched' };
+  }
+  if (!ALLOWED_PORTS.has(url.port)) {
+    return { ok: false, kind: 'blocked-address', message: `Port ${url.port} is not allowed` };
+  }
+  // IP literals never reach the lookup, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    return { ok: false, kind: 'blocked-address', message: 'This address is not allowed' };
+  }
+  return null;
+}
+
+function decodeBody(bytes: Buffer, contentType: string): string {
+  const head = bytes.subarray(0, 2048).toString('latin1');
+  const charset =
+    /charset=["']?([\w-]+)/i.exec(contentType)?.[1] ?? /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1] ?? 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decompress(response: http.IncomingMessage): Readable {
+  switch ((response.headers['content-encoding'] || '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip());
+    case 'deflate':
+      return response.pipe(zlib.createInflate());
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+type Hop<T> = { redirect: string } | T | SafeFetchFailure;
+
+const TIMEOUT_FAILURE: SafeFetchFailure = { ok: false, kind: 'timeout', message: 'The page took too long to respond' };
+
+/**
+ * Sends one GET through the safe lookup. Redirects are handed back to the caller;
+ * any other response goes to `onResponse`, which settles the hop.
+ */
+function requestOnce<T extends { ok: boolean }>(
+  url: URL,
+  signal: AbortSignal,
+  onResponse: (response: http.IncomingMessage, resolve: (hop: Hop<T>) => void) => void
+): Promise<Hop<T>> {
+  return new Promise((resolve) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(
+      url,
+      {
+        lookup: safeLookup,
+        signal,
+        headers: {
+          'user-agent': 'MyPocketReader/1.0 (+page fetch)',
+          accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+          'accept-encoding': 'gzip, deflate, br'
+        }
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          resolve({ redirect: response.headers.location });
+          return;
+        }
+        onResponse(response, resolve);
+      }
+    );
+
+    request.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === BLOCKED_CODE) {
+        resolve({ ok: false, kind: 'blocked-address', message: 'This address is not allowed' });
+      } else if (signal.aborted) {
+        resolve(TIMEOUT_FAILURE);
+      } else if (error.code === 'ENOTFOUND') {
+        resolve({ ok: false, kind: 'upstream-error', message: 'Host not found' });
+      } else {
+        resolve({ ok: false, kind: 'upstream-error', message: 'Could not connect to the page' });
+      }
+    });
+  });
+}
+
+// Checks and follows each redirect; the whole exchange is bounded by FETCH_TIMEOUT_MS
+async function followRedirects<T extends { ok: boolean }>(
+  rawUrl: string,
+  send: (url: URL, signal: AbortSignal) => Promise<Hop<T>>
+): Promise<T | SafeFetchFailure> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { ok: false, kind: 'invalid-url', message: 'Invalid URL' };
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const rejection = checkUrl(url);
+    if (rejection) return rejection;
+
+    const result = await send(url, signal);
+    if (!('redirect' in result)) return result;
+
+    try {
+      url = new URL(result.redirect, url);
+    } catch {
+      return { ok: false, kind: 'upstream-error', message: 'The page redirected to an invalid URL' };
+    }
+  }
+  return { ok: false, kind: 'too-many-redirects', message: `More than ${MAX_REDIRECTS} redirects` };
+}
+
+/**
+ * Fetches an HTML page without letting the URL (or any redirect) reach private networks.
+ * The body is cut off after `maxBytes` (at most MAX_PAGE_BYTES).
+ */
+export async function safeFetchHtml(
+  rawUrl: string,
+  options: { maxBytes?: number } = {}
+): Promise<SafeFetchResult> {
+  const maxBytes = Math.min(options.maxBytes ?? MAX_RESPONSE_BYTES, MAX_PAGE_BYTES);
+
+  return followRedirects<SafeFetchResult>(rawUrl, (url, signal) =>
+    requestOnce(url, signal, (response, resolve) => {
+      const status = response.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        response.resume();
+        resolve({ ok: false, kind: 'upstream-error', message: `The page responded with HTTP ${status}` });
+        return;
+      }
+      const contentType = response.headers['content-type'] || '';
+      if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+        response.destroy();
+        resolve({ ok: false, kind: 'not-html', message: 'The URL is not an HTML page' });
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const body = decompress(response);
+      const finish = () => resolve({ ok: true, url: url.toString(), body: decodeBody(Buffer.concat(chunks), contentType) });
+      body.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= maxBytes) {
+          body.removeAllListeners('data');
+          response.destroy();
+          finish();
+        }
+      });
+      body.on('end', finish);
+      body.on('error', () =>
+        resolve(signal.aborted ? TIMEOUT_FAILURE : { ok: false, kind: 'upstream-error', message: 'Could not read the page' })
+      );
+    })
+  );
+}
+
+export type LinkStatusResult = { ok: true; url: string; status: number } | SafeFetchFailure;
+
+/**
+ * Reports the status a URL ends up at after redirects, with the same protections as
+ * safeFetchHtml. Error statuses are results here, not failures; the body is never read.
+ */
+export async function safeCheckLink(rawUrl: string): Promise<LinkStatusResult> {
+  return followRedirects<LinkStatusResult>(rawUrl, (url, signal) =>
+    requestOnce(url, signal, (response, resolve) => {
+      response.destroy();
+      resolve({ ok: true, url: url.toString(), status: response.statusCode ?? 0 });
+    })
+  );
+}
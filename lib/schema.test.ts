@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, migrateLibrary } from './schema';
+
+describe('migrateLibrary', () => {
+  it('fills in the fields legacy caches lack', () => {
+    const legacy = {
+      articles: [{ title: 'Old', url: 'https://example.com/a', time_added: '1600000000', tags: 'rust|*' }],
+      highlightData: [{ url: 'https://example.com/a', highlights: [{ quote: 'Line' }] }],
+      timestamp: 1600000001
+    };
+
+    const { data, applied } = migrateLibrary(legacy, LEGACY_SCHEMA_VERSION);
+    expect(applied).toHaveLength(CURRENT_SCHEMA_VERSION - LEGACY_SCHEMA_VERSION);
+    expect(data.articles[0]).toEqual({
+      title: 'Old',
+      url: 'https://example.com/a',
+      time_added: 1600000000,
+      tags: 'rust|*',
+      status: 'unread',
+      isFavorite: true,
+      parsedTags: ['rust']
+    });
+    expect(data.highlightData[0]).toEqual({
+      url: 'https://example.com/a',
+      title: '',
+      highlights: [{ quote: 'Line', created_at: 0 }]
+    });
+    expect(data.timestamp).toBe(1600000001);
+  });
+
+  it('does not change its input', () => {
+    const legacy = { articles: [{ url: 'https://example.com/a' }], highlightData: [] };
+    const copy = structuredClone(legacy);
+    migrateLibrary(legacy, LEGACY_SCHEMA_VERSION);
+    expect(legacy).toEqual(copy);
+  });
+
+  it('tolerates damaged records', () => {
+    const { data } = migrateLibrary({ articles: [null, 7], highlightData: 'nope' }, LEGACY_SCHEMA_VERSION);
+    expect(data.articles.map((article) => article.url)).toEqual(['', '']);
+    expect(data.highlightData).toEqual([]);
+  });
+
+  it('leaves current data as it is', () => {
+    const current = { articles: [], highlightData: [], timestamp: 1 };
+    expect(migrateLibrary(current, CURRENT_SCHEMA_VERSION)).toEqual({ data: current, applied: [] });
+  });
+
+  it('refuses data from a newer version and data without a library', () => {
+    expect(() => migrateLibrary({ articles: [], highlightData: [] }, CURRENT_SCHEMA_VERSION + 1)).toThrow(
+      /Please update the app/
+    );
+    expect(() => migrateLibrary(null, CURRENT_SCHEMA_VERSION)).toThrow(/missing its articles/);
+  });
+});
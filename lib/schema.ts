@@ -0,0 +1,122 @@
+import type { Article, ArticleWithHighlights, CachedData, Highlight } from './types';
+
+/**
+ * Version of the shape of the cached library (not its encoding - see COMPRESSION_VERSION).
+ * Bump it and append a migration below whenever stored records gain or change fields.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Caches written before schema versioning existed
+export const LEGACY_SCHEMA_VERSION = 1;
+
+interface SchemaMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(data: unknown): unknown;
+}
+
+// Stored data is untrusted; anything that isn't an object reads as one without fields
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function toTimestamp(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+// Ordered chain of forward migrations; each step must be pure and must not mutate its input
+const MIGRATIONS: SchemaMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Fill in missing article and highlight fields',
+    migrate: (data) => {
+      const library = asRecord(data);
+      return {
+        ...library,
+        articles: asArray(library.articles).map((value): Article => {
+          const article = asRecord(value);
+          const tags = typeof article.tags === 'string' ? article.tags : '';
+          const tagParts = tags.split('|').map((tag) => tag.trim()).filter(Boolean);
+          return {
+            title: typeof article.title === 'string' ? article.title : '',
+            url: typeof article.url === 'string' ? article.url : '',
+            time_added: toTimestamp(article.time_added),
+            tags,
+            status: typeof article.status === 'string' && article.status ? article.status : 'unread',
+            isFavorite:
+              typeof article.isFavorite === 'boolean'
+                ? article.isFavorite
+                : tagParts.includes('*') || tagParts.includes('***'),
+            parsedTags: Array.isArray(article.parsedTags)
+              ? article.parsedTags.filter((tag): tag is string => typeof tag === 'string')
+              : tagParts.filter((tag) => tag !== '*' && tag !== '***')
+          };
+        }),
+        highlightData: asArray(library.highlightData).map((value): ArticleWithHighlights => {
+          const item = asRecord(value);
+          return {
+            url: typeof item.url === 'string' ? item.url : '',
+            title: typeof item.title === 'string' ? item.title : '',
+            highlights: asArray(item.highlights).map((entry): Highlight => {
+              const highlight = asRecord(entry);
+              return {
+                quote: typeof highlight.quote === 'string' ? highlight.quote : '',
+                created_at: toTimestamp(highlight.created_at)
+              };
+            })
+          };
+        }),
+        timestamp: toTimestamp(library.timestamp) || Date.now()
+      };
+    }
+  }
+];
+
+/**
+ * Runs every migration between `fromVersion` and CURRENT_SCHEMA_VERSION in order.
+ * Throws without side effects when a step fails or the data comes from a newer app version.
+ */
+export function migrateLibrary(data: unknown, fromVersion: number): { data: CachedData; applied: string[] } {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored library uses schema v${fromVersion}, but this app only understands up to v${CURRENT_SCHEMA_VERSION}. ` +
+        'Please update the app.'
+    );
+  }
+
+  let current: unknown = data;
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) {
+      throw new Error(`No migration available from schema v${version}`);
+    }
+
+    try {
+      current = step.migrate(current);
+    } catch (error) {
+      throw new Error(
+        `Migration v${step.from} → v${step.to} (${step.description}) failed: ` +
+          (error instanceof Error ? error.message : String(error))
+      );
+    }
+    applied.push(`v${step.from} → v${step.to}: ${step.description}`);
+    version = step.to;
+  }
+
+  const library = asRecord(current);
+  if (!Array.isArray(library.articles) || !Array.isArray(library.highlightData)) {
+    throw new Error('Stored library is missing its articles or highlights');
+  }
+
+  return { data: current as CachedData, applied };
+}
@@ -0,0 +1,153 @@
+import 'server-only';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+
+// Embedded SQLite database for the optional server storage. node:sqlite ships with
+// Node.js 22.13 and later; it is loaded at runtime so the rest of the app keeps working
+// (and building) on older versions, where the /api/v1 routes report themselves unavailable.
+
+export const DEFAULT_DATABASE_PATH = 'data/mypocket.db';
+
+export type DatabaseResult = { ok: true; db: DatabaseSync } | { ok: false; message: string };
+
+// Each entry moves the schema one version forward; PRAGMA user_version records the last one applied
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE library_meta (
+    library_id TEXT PRIMARY KEY,
+    revision INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE articles (
+    id INTEGER PRIMARY KEY,
+    library_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    url_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    time_added INTEGER NOT NULL,
+    tags TEXT NOT NULL,
+    status TEXT NOT NULL,
+    is_favorite INTEGER NOT NULL,
+    link_health TEXT,
+    position REAL NOT NULL,
+    updated_at INTEGER NOT NULL,
+    UNIQUE (library_id, url_key)
+  );
+  CREATE INDEX articles_library_position ON articles (library_id, position);
+  CREATE TABLE article_tags (
+    article_id INTEGER NOT NULL REFERENCES articles (id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (article_id, tag)
+  );
+  CREATE INDEX article_tags_tag ON article_tags (tag);
+  CREATE TABLE highlights (
+    id INTEGER PRIMARY KEY,
+    library_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    url_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    quote TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    location TEXT,
+    position REAL NOT NULL
+  );
+  CREATE INDEX highlights_library_url ON highlights (library_id, url_key);
+  `,
+  // Accounts: each user's library is stored under their own library_id
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    created_at INTEGER NOT NULL,
+    last_sign_in_at INTEGER
+  );
+  CREATE TABLE login_tokens (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER
+  );
+  CREATE INDEX login_tokens_expires ON login_tokens (expires_at);
+  CREATE TABLE sessions (
+    id_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX sessions_expires ON sessions (expires_at);
+  `
+];
+
+let opened: DatabaseResult | null = null;
+
+function loadSqlite(): typeof import('node:sqlite') | null {
+  try {
+    // getBuiltinModule keeps bundlers from trying to resolve the module at build time
+    return process.getBuiltinModule?.('node:sqlite') ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function migrate(db: DatabaseSync): void {
+  const { user_version: version } = db.prepare('PRAGMA user_version').get() as { user_version: number };
+  for (const [index, migration] of MIGRATIONS.entries()) {
+    if (index < version) continue;
+    db.exec('BEGIN');
+    try {
+      db.exec(migration);
+      db.exec(`PRAGMA user_version = ${index + 1}`);
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Opens (once per server instance) the database at MYPOCKET_DATABASE_PATH and brings its
+ * schema up to date. Reports why when this Node.js has no SQLite or the file can't be opened.
+ */
+export function getDatabase(): DatabaseResult {
+  if (opened?.ok) return opened;
+
+  const sqlite = loadSqlite();
+  if (!sqlite) {
+    return { ok: false, message: 'Server storage needs Node.js 22.13 or later (node:sqlite)' };
+  }
+
+  const file = path.resolve(process.env.MYPOCKET_DATABASE_PATH || DEFAULT_DATABASE_PATH);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new sqlite.DatabaseSync(file);
+    db.exec('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON; PRAGMA busy_timeout = 5000;');
+    // SQLite's lower() only folds ASCII; search matches the way the app's toLowerCase() does
+    db.function('lower_unicode', { deterministic: true }, (value) =>
+      typeof value === 'string' ? value.toLowerCase() : value
+    );
+    migrate(db);
+    opened = { ok: true, db };
+  } catch (error) {
+    console.error('🗄️ Could not open the server database:', error);
+    opened = { ok: false, message: 'The server database could not be opened' };
+  }
+  return opened;
+}
+
+/**
+ * Runs `work` in a write transaction, rolling back if it throws
+ */
+export function transaction<T>(db: DatabaseSync, work: () => T): T {
+  db.exec('BEGIN IMMEDIATE');
+  try {
+    const result = work();
+    db.exec('COMMIT');
+    return result;
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+}
@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { planRecordWrites, pullLibrary, pushChanges, pushLibrary, type ServerRecordIds } from './server-sync';
+import type { Article } from './types';
+
+const article = (url: string, title: string): Article => ({
+  title,
+  url,
+  time_added: 1700000000,
+  tags: '',
+  status: 'unread',
+  isFavorite: false,
+  parsedTags: []
+});
+
+// Answers every request with `body` and records what was sent
+function serverAnswering(body: unknown, status = 200) {
+  const fetch = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => Response.json(body, { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('pullLibrary', () => {
+  it('keeps the records it can read and counts the rest', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    serverAnswering({
+      articles: [article('https://example.com/', 'Linked'), article('', 'Note'), { url: 'https://example.com/x' }],
+      highlightData: [{ url: 'https://example.com/', title: 'Linked', highlights: 'none' }],
+      revision: 4
+    });
+
+    const result = await pullLibrary('token');
+    expect(result).toEqual({
+      ok: true,
+      library: { articles: [article('https://example.com/', 'Linked'), article('', 'Note')], highlightData: [] },
+      revision: 4,
+      ids: { articles: new Map(), highlights: new Map() },
+      skipped: 2
+    });
+  });
+
+  it('reports the server error, or the status when the body is not one', async () => {
+    serverAnswering({ error: 'Sign in or send the API token' }, 401);
+    expect(await pullLibrary('')).toEqual({ ok: false, error: 'Sign in or send the API token' });
+
+    serverAnswering('<html>', 502);
+    expect(await pullLibrary('')).toEqual({ ok: false, error: 'Request failed with HTTP 502' });
+  });
+});
+
+describe('pushLibrary', () => {
+  it('sends the library with the revision it is based on', async () => {
+    const fetch = serverAnswering({ revision: 8, articles: 1 });
+    const library = { articles: [article('https://example.com/', 'Linked')], highlightData: [] };
+
+    expect(await pushLibrary('token', library, { baseRevision: 7 })).toEqual({ ok: true, revision: 8, ids: null });
+    const [, init] = fetch.mock.calls[0];
+    expect(init?.method).toBe('PUT');
+    expect(JSON.parse(String(init?.body))).toEqual({ ...library, baseRevision: 7, force: false });
+  });
+
+  it('hands back the server revision on a conflict', async () => {
+    serverAnswering({ error: 'The library changed on the server since it was last synced', revision: 9 }, 409);
+    expect(await pushLibrary('token', { articles: [], highlightData: [] }, { baseRevision: 7 })).toEqual({
+      ok: false,
+      error: 'The library changed on the server since it was last synced',
+      conflict: { revision: 9 }
+    });
+  });
+});
+
+const linked = article('https://example.com/a', 'A');
+const other = article('https://example.com/b', 'B');
+const highlight = { quote: 'Line', created_at: 1 };
+const ids = (): ServerRecordIds => ({
+  articles: new Map([
+    ['https://example.com/a', 1],
+    ['https://example.com/b', 2]
+  ]),
+  highlights: new Map([[JSON.stringify(['https://example.com/a', 'Line', 1]), 10]])
+});
+const synced = { articles: [linked, other], highlightData: [{ url: linked.url, title: 'A', highlights: [highlight] }] };
+const requests = (writes: ReturnType<typeof planRecordWrites>) =>
+  writes?.map(({ method, path, body }) => ({ method, path, body }));
+
+const manyArticles = Array.from({ length: 60 }, (_, index) => article(`https://example.com/n${index}`, 'N'));
+
+describe('planRecordWrites', () => {
+  it('sends only the fields that changed', () => {
+    const edited = { ...synced, articles: [{ ...linked, title: 'Renamed', status: 'read' }, other] };
+    expect(requests(planRecordWrites(synced, edited, ids()))).toEqual([
+      { method: 'PATCH', path: '/articles/1', body: { title: 'Renamed', status: 'read' } }
+    ]);
+  });
+
+  it('creates new articles at the top and deletes removed records by id', () => {
+    const added = article('https://example.com/c', 'C');
+    const edited = { articles: [added, linked], highlightData: [] };
+    expect(requests(planRecordWrites(synced, edited, ids()))).toEqual([
+      { method: 'DELETE', path: '/articles/2', body: undefined },
+      {
+        method: 'POST',
+        path: '/articles',
+        body: {
+          url: added.url,
+          title: 'C',
+          time_added: added.time_added,
+          tags: [],
+          isFavorite: false,
+          status: 'unread'
+        }
+      },
+      { method: 'DELETE', path: '/highlights/10', body: undefined }
+    ]);
+  });
+
+  it('adds highlights and changes their location', () => {
+    const edited = {
+      ...synced,
+      highlightData: [
+        {
+          url: linked.url,
+          title: 'A',
+          highlights: [{ ...highlight, location: 'page 2' }, { quote: 'New', created_at: 2 }]
+        }
+      ]
+    };
+    expect(requests(planRecordWrites(synced, edited, ids()))).toEqual([
+      { method: 'PATCH', path: '/highlights/10', body: { location: 'page 2' } },
+      { method: 'POST', path: '/highlights', body: { url: linked.url, title: 'A', quote: 'New', created_at: 2 } }
+    ]);
+  });
+
+  it.each([
+    ['an article without a URL changed', { ...synced, articles: [...synced.articles, article('', 'Note')] }],
+    ['the order changed', { ...synced, articles: [other, linked] }],
+    ['a new article is not at the top', { ...synced, articles: [linked, other, article('https://example.com/c', '')] }],
+    ['a status the routes do not take', { ...synced, articles: [{ ...linked, status: 'archived' }, other] }],
+    ['too many records changed', { ...synced, articles: [...manyArticles, linked, other] }]
+  ])('leaves it to a whole copy when %s', (_, edited) => {
+    expect(planRecordWrites(synced, edited, ids())).toBeNull();
+  });
+
+  it('needs the id of every record it changes', () => {
+    const edited = { ...synced, articles: [linked] };
+    expect(planRecordWrites(synced, edited, { articles: new Map(), highlights: new Map() })).toBeNull();
+  });
+});
+
+const conflictError = 'The library changed on the server';
+
+describe('pushChanges', () => {
+  it('sends each change based on the revision the last one left', async () => {
+    const fetch = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const base = Number(String(new Headers(init?.headers).get('if-match')).replace(/"/g, ''));
+      return Response.json(init?.method === 'POST' ? { id: 3, revision: base + 1 } : { revision: base + 1 });
+    });
+    vi.stubGlobal('fetch', fetch);
+    const added = article('https://example.com/c', 'C');
+    const edited = { ...synced, articles: [added, { ...linked, isFavorite: true }, other] };
+
+    const result = await pushChanges('token', synced, edited, { baseRevision: 5, ids: ids() });
+    expect(result).toMatchObject({ ok: true, revision: 7 });
+    expect(result.ok && result.ids?.articles.get('https://example.com/c')).toBe(3);
+    expect(fetch.mock.calls.map(([url, init]) => [init?.method, String(url)])).toEqual([
+      ['PATCH', '/api/v1/articles/1'],
+      ['POST', '/api/v1/articles']
+    ]);
+  });
+
+  it('stops at a conflict and reports how far it got', async () => {
+    const fetch = vi
+      .fn(async (_input: RequestInfo | URL, _init?: RequestInit) => Response.json({ revision: 6 }))
+      .mockResolvedValueOnce(Response.json({ revision: 6 }))
+      .mockResolvedValueOnce(Response.json({ error: conflictError, revision: 9 }, { status: 412 }));
+    vi.stubGlobal('fetch', fetch);
+    const edited = { ...synced, articles: [{ ...linked, title: 'A2' }, { ...other, title: 'B2' }] };
+
+    expect(await pushChanges('token', synced, edited, { baseRevision: 5, ids: ids() })).toEqual({
+      ok: false,
+      error: conflictError,
+      conflict: { revision: 9 },
+      reached: 6
+    });
+  });
+
+  it('sends the whole library when a record is refused', async () => {
+    const fetch = vi
+      .fn(async (_input: RequestInfo | URL, _init?: RequestInit) => Response.json({ revision: 7, articles: 2 }))
+      .mockResolvedValueOnce(Response.json({ error: 'Tag cannot contain "|" or be "*"' }, { status: 400 }));
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const edited = { ...synced, articles: [{ ...linked, parsedTags: ['a|b'] }, other] };
+
+    expect(await pushChanges('token', synced, edited, { baseRevision: 5, ids: ids() })).toEqual({
+      ok: true,
+      revision: 7,
+      ids: null
+    });
+    const [url, init] = fetch.mock.calls[1];
+    expect([init?.method, String(url)]).toEqual(['PUT', '/api/v1/library']);
+    expect(JSON.parse(String(init?.body))).toMatchObject({ baseRevision: 5 });
+  });
+});
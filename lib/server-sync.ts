@@ -0,0 +1,452 @@
+import { z } from 'zod';
+import { backupArticleSchema, backupHighlightsSchema } from './import-schemas';
+import type { Article, ArticleWithHighlights, Highlight } from './types';
+import { normalizeUrl } from './url';
+
+// Browser side of /api/v1: the "sync to server" storage mode. The library is still saved in
+// the browser, so the app works offline; edits are also sent to the server record by record,
+// and the server's copy is fetched on load when another device changed it. The whole library
+// goes over /api/v1/library only for the first copy and to settle conflicts. Each side tracks
+// the server's revision so neither silently overwrites the other.
+
+export const SERVER_SYNC_KEY = 'mypocket-reader-server-sync';
+const API_ENDPOINT = '/api/v1';
+const LIBRARY_ENDPOINT = `${API_ENDPOINT}/library`;
+// Edits are sent once they have settled for this long
+export const SERVER_SYNC_DELAY_MS = 2000;
+// Changes that take more record writes than this (an import, say) are sent as one whole copy
+export const MAX_RECORD_WRITES = 50;
+// The statuses the article routes take; an article with another one goes over in a whole copy
+const RECORD_STATUSES = ['read', 'unread'];
+
+export interface ServerSyncSettings {
+  enabled: boolean;
+  // MYPOCKET_API_TOKEN of the server; kept in localStorage like the other settings
+  token: string;
+  // Email of the signed-in account, when syncing with the session cookie instead of a token
+  account: string;
+  // Server revision this browser's library was last synced with
+  revision: number;
+  // Set while this browser has changes the server hasn't received
+  dirty: boolean;
+}
+
+export const DEFAULT_SERVER_SYNC: ServerSyncSettings = {
+  enabled: false,
+  token: '',
+  account: '',
+  revision: 0,
+  dirty: false
+};
+
+export interface ServerLibrary {
+  articles: Article[];
+  highlightData: ArticleWithHighlights[];
+}
+
+/**
+ * Server ids of the records in the library last exchanged with the server, keyed the way the
+ * server tells records apart: articles by normalized URL, highlights by URL, quote and time.
+ */
+export interface ServerRecordIds {
+  articles: Map<string, number>;
+  highlights: Map<string, number>;
+}
+
+export type PullResult =
+  // `skipped` counts the records this app couldn't read; they are left out of `library`
+  | { ok: true; library: ServerLibrary; revision: number; ids: ServerRecordIds; skipped: number }
+  | { ok: false; error: string };
+
+export type PushResult =
+  // `ids` is null after a whole copy, since the server doesn't send the new ids back
+  | { ok: true; revision: number; ids: ServerRecordIds | null }
+  // `reached` is set when some changes were written before the failure: the revision they got to
+  | { ok: false; error: string; conflict?: { revision: number }; reached?: number };
+
+export function getServerSyncSettings(): ServerSyncSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SERVER_SYNC_KEY) || '{}');
+    const token = typeof stored.token === 'string' ? stored.token : '';
+    const account = typeof stored.account === 'string' ? stored.account : '';
+    return {
+      enabled: stored.enabled === true && (token !== '' || account !== ''),
+      token,
+      account,
+      revision: Number.isInteger(stored.revision) && stored.revision >= 0 ? stored.revision : 0,
+      dirty: stored.dirty === true
+    };
+  } catch {
+    // localStorage can throw in privacy modes, and the stored value may be damaged
+    return DEFAULT_SERVER_SYNC;
+  }
+}
+
+export function setServerSyncSettings(settings: ServerSyncSettings): void {
+  if (settings.enabled || settings.token || settings.account) {
+    localStorage.setItem(SERVER_SYNC_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(SERVER_SYNC_KEY);
+  }
+}
+
+// What the server answers; records are validated one at a time, so one bad record can't fail the pull
+const libraryBodySchema = z.object({
+  articles: z.array(z.unknown()),
+  highlightData: z.array(z.unknown()).catch([]),
+  revision: z.number().int().nonnegative().catch(0)
+});
+const revisionBodySchema = z.object({ revision: z.number().int().nonnegative().catch(0) });
+const errorBodySchema = z.object({ error: z.string() });
+// Record writes answer with the record, or with the revision alone for deletes
+const writeBodySchema = z.object({
+  revision: z.number().int().nonnegative(),
+  id: z.number().int().positive().optional()
+});
+const articleIdSchema = z.object({ id: z.number().int().positive(), url: z.string() });
+const highlightIdsSchema = z.object({
+  url: z.string(),
+  highlights: z.array(z.object({ id: z.number().int().positive(), quote: z.string(), created_at: z.number() }))
+});
+
+// Without a token the request is made with the session cookie, as the signed-in account
+async function request(
+  token: string,
+  init: RequestInit = {},
+  endpoint = LIBRARY_ENDPOINT
+): Promise<{ response: Response; body: unknown } | null> {
+  try {
+    const response = await fetch(endpoint, {
+      ...init,
+      headers: token ? { ...init.headers, authorization: `Bearer ${token}` } : init.headers,
+      cache: 'no-store'
+    });
+    return { response, body: await response.json().catch(() => null) };
+  } catch {
+    return null;
+  }
+}
+
+function errorOf(body: unknown, status: number): string {
+  const parsed = errorBodySchema.safeParse(body);
+  return parsed.success ? parsed.data.error : `Request failed with HTTP ${status}`;
+}
+
+// Records the server sent that don't match the library schema are left out and counted
+function validRecords<T extends z.ZodType>(value: unknown[], schema: T): { records: z.output<T>[]; skipped: number } {
+  const records = value.flatMap((item) => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+  return { records, skipped: value.length - records.length };
+}
+
+function highlightKey(url: string, highlight: Pick<Highlight, 'quote' | 'created_at'>): string {
+  return JSON.stringify([normalizeUrl(url), highlight.quote, highlight.created_at]);
+}
+
+function recordIds(articles: unknown[], highlightData: unknown[]): ServerRecordIds {
+  const ids: ServerRecordIds = { articles: new Map(), highlights: new Map() };
+  articles.forEach((item) => {
+    const parsed = articleIdSchema.safeParse(item);
+    if (parsed.success && parsed.data.url) ids.articles.set(normalizeUrl(parsed.data.url), parsed.data.id);
+  });
+  highlightData.forEach((item) => {
+    const parsed = highlightIdsSchema.safeParse(item);
+    if (!parsed.success) return;
+    const { url, highlights } = parsed.data;
+    highlights.forEach((highlight) => ids.highlights.set(highlightKey(url, highlight), highlight.id));
+  });
+  return ids;
+}
+
+export async function pullLibrary(token: string): Promise<PullResult> {
+  const result = await request(token);
+  if (!result) return { ok: false, error: 'Could not reach the server' };
+  const { response, body } = result;
+
+  const parsed = libraryBodySchema.safeParse(body);
+  if (!response.ok || !parsed.success) return { ok: false, error: errorOf(body, response.status) };
+
+  const articles = validRecords(parsed.data.articles, backupArticleSchema);
+  const highlightData = validRecords(parsed.data.highlightData, backupHighlightsSchema);
+  if (articles.skipped + highlightData.skipped > 0) {
+    console.warn('☁️ Left out records from the server that this app could not read:', {
+      articles: articles.skipped,
+      highlights: highlightData.skipped
+    });
+  }
+  return {
+    ok: true,
+    library: { articles: articles.records, highlightData: highlightData.records },
+    revision: parsed.data.revision,
+    ids: recordIds(parsed.data.articles, parsed.data.highlightData),
+    skipped: articles.skipped + highlightData.skipped
+  };
+}
+
+// Whether two libraries hold the same records, whatever order their fields were written in
+export function sameLibrary(a: ServerLibrary, b: ServerLibrary): boolean {
+  const fingerprint = (library: ServerLibrary) =>
+    JSON.stringify([
+      library.articles.map((article) => [
+        article.url,
+        article.title,
+        article.time_added,
+        article.tags,
+        article.status,
+        article.isFavorite,
+        article.parsedTags,
+        article.linkHealth?.checkedAt ?? null
+      ]),
+      library.highlightData.map((item) => [
+        item.url,
+        item.title,
+        item.highlights.map((highlight) => [highlight.quote, highlight.created_at, highlight.location ?? null])
+      ])
+    ]);
+  return fingerprint(a) === fingerprint(b);
+}
+
+/**
+ * Replaces the server's library. Refused with `conflict` when the server is past
+ * `baseRevision`, unless `force` is set.
+ */
+export async function pushLibrary(
+  token: string,
+  library: ServerLibrary,
+  options: { baseRevision: number; force?: boolean }
+): Promise<PushResult> {
+  const result = await request(token, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ ...library, baseRevision: options.baseRevision, force: options.force === true })
+  });
+  if (!result) return { ok: false, error: 'Could not reach the server' };
+  const { response, body } = result;
+
+  const parsed = revisionBodySchema.safeParse(body);
+  if (response.ok && parsed.success) return { ok: true, revision: parsed.data.revision, ids: null };
+  if (response.status === 409) {
+    return { ok: false, error: errorOf(body, 409), conflict: { revision: parsed.success ? parsed.data.revision : 0 } };
+  }
+  return { ok: false, error: errorOf(body, response.status) };
+}
+
+interface RecordWrite {
+  method: 'POST' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: object;
+  // Keeps the ids current once the write went through; `id` is the new record's
+  apply(ids: ServerRecordIds, id: number | undefined): void;
+}
+
+// The first article for each URL, as the server keeps them after a whole copy
+function articlesByKey(articles: Article[]): Map<string, Article> {
+  const byKey = new Map<string, Article>();
+  articles.forEach((article) => {
+    const key = normalizeUrl(article.url);
+    if (key && !byKey.has(key)) byKey.set(key, article);
+  });
+  return byKey;
+}
+
+function highlightsByKey(library: ServerLibrary) {
+  const byKey = new Map<string, { url: string; title: string; highlight: Highlight }>();
+  library.highlightData.forEach(({ url, title, highlights }) =>
+    highlights.forEach((highlight) => byKey.set(highlightKey(url, highlight), { url, title, highlight }))
+  );
+  return byKey;
+}
+
+// The fields of `next` the article routes would change, or null when they can't express the change
+function articleChanges(previous: Article, next: Article): Record<string, unknown> | null {
+  const changes: Record<string, unknown> = {};
+  if (next.url !== previous.url) changes.url = next.url;
+  if (next.title !== previous.title) {
+    // The routes keep the old title rather than store an empty one
+    if (!next.title.trim()) return null;
+    changes.title = next.title;
+  }
+  if (next.time_added !== previous.time_added) changes.time_added = next.time_added;
+  if (next.status !== previous.status) {
+    if (!RECORD_STATUSES.includes(next.status)) return null;
+    changes.status = next.status;
+  }
+  if (next.isFavorite !== previous.isFavorite) changes.isFavorite = next.isFavorite;
+  if (JSON.stringify(next.parsedTags) !== JSON.stringify(previous.parsedTags)) changes.tags = next.parsedTags;
+  if (JSON.stringify(next.linkHealth) !== JSON.stringify(previous.linkHealth)) {
+    changes.linkHealth = next.linkHealth ?? null;
+  }
+  return changes;
+}
+
+/**
+ * The record writes that turn the server's library from `from` into `to`. Null when the
+ * change can't be made record by record (articles without a URL, a new order, a field the
+ * routes don't take, or too many records) and the whole library has to be sent instead.
+ */
+export function planRecordWrites(from: ServerLibrary, to: ServerLibrary, ids: ServerRecordIds): RecordWrite[] | null {
+  const unlinked = (library: ServerLibrary) => JSON.stringify(library.articles.filter((article) => !article.url));
+  if (unlinked(from) !== unlinked(to)) return null;
+
+  const before = articlesByKey(from.articles);
+  const after = articlesByKey(to.articles);
+  const added = Array.from(after.keys()).filter((key) => !before.has(key));
+  const removed = Array.from(before.keys()).filter((key) => !after.has(key));
+
+  // Articles the server creates go to the top, and the rest keep their order there
+  const kept = (keys: Iterable<string>, other: Map<string, Article>) =>
+    Array.from(keys).filter((key) => other.has(key));
+  if (JSON.stringify(kept(before.keys(), after)) !== JSON.stringify(kept(after.keys(), before))) return null;
+  if (!to.articles.slice(0, added.length).every((article, index) => normalizeUrl(article.url) === added.at(index))) {
+    return null;
+  }
+
+  const writes: RecordWrite[] = [];
+  for (const key of removed) {
+    const id = ids.articles.get(key);
+    if (id === undefined) return null;
+    writes.push({ method: 'DELETE', path: `/articles/${id}`, apply: (next) => next.articles.delete(key) });
+  }
+  for (const [key, article] of after) {
+    const previous = before.get(key);
+    if (!previous) continue;
+    const changes = articleChanges(previous, article);
+    if (!changes) return null;
+    if (Object.keys(changes).length === 0) continue;
+    const id = ids.articles.get(key);
+    if (id === undefined) return null;
+    writes.push({ method: 'PATCH', path: `/articles/${id}`, body: changes, apply: () => {} });
+  }
+  // Each new article goes on top, so the lowest one is sent first
+  for (const key of [...added].reverse()) {
+    const article = after.get(key)!;
+    if (!RECORD_STATUSES.includes(article.status)) return null;
+    writes.push({
+      method: 'POST',
+      path: '/articles',
+      body: {
+        url: article.url,
+        title: article.title,
+        time_added: article.time_added,
+        tags: article.parsedTags,
+        isFavorite: article.isFavorite,
+        status: article.status,
+        ...(article.linkHealth ? { linkHealth: article.linkHealth } : {})
+      },
+      apply: (next, id) => {
+        if (id !== undefined) next.articles.set(key, id);
+      }
+    });
+  }
+
+  const previousHighlights = highlightsByKey(from);
+  const nextHighlights = highlightsByKey(to);
+  for (const key of previousHighlights.keys()) {
+    if (nextHighlights.has(key)) continue;
+    const id = ids.highlights.get(key);
+    if (id === undefined) return null;
+    writes.push({ method: 'DELETE', path: `/highlights/${id}`, apply: (next) => next.highlights.delete(key) });
+  }
+  for (const [key, { url, title, highlight }] of nextHighlights) {
+    const previous = previousHighlights.get(key);
+    if (!previous) {
+      writes.push({
+        method: 'POST',
+        path: '/highlights',
+        body: {
+          url,
+          title,
+          quote: highlight.quote,
+          created_at: highlight.created_at,
+          ...(highlight.location ? { location: highlight.location } : {})
+        },
+        apply: (next, id) => {
+          if (id !== undefined) next.highlights.set(key, id);
+        }
+      });
+      continue;
+    }
+    // A highlight's article and title can't be changed on its own
+    if (previous.url !== url || previous.title !== title) return null;
+    if ((previous.highlight.location ?? '') === (highlight.location ?? '')) continue;
+    const id = ids.highlights.get(key);
+    if (id === undefined) return null;
+    writes.push({
+      method: 'PATCH',
+      path: `/highlights/${id}`,
+      body: { location: highlight.location || null },
+      apply: () => {}
+    });
+  }
+
+  return writes.length > MAX_RECORD_WRITES ? null : writes;
+}
+
+/**
+ * Sends the changes from `from` (the library the server was last synced with) to `library`
+ * record by record, each write based on the revision the last one left. Falls back to
+ * replacing the whole library when the change can't be sent that way or a record is refused.
+ * With no `ids` (after a whole copy), they are read from the server first.
+ */
+export async function pushChanges(
+  token: string,
+  from: ServerLibrary,
+  library: ServerLibrary,
+  options: { baseRevision: number; ids: ServerRecordIds | null }
+): Promise<PushResult> {
+  let ids = options.ids;
+  if (!ids) {
+    const pulled = await pullLibrary(token);
+    if (!pulled.ok) return { ok: false, error: pulled.error };
+    if (pulled.revision !== options.baseRevision) {
+      return {
+        ok: false,
+        error: 'The library changed on the server since it was last synced',
+        conflict: { revision: pulled.revision }
+      };
+    }
+    ids = pulled.ids;
+  }
+
+  const writes = planRecordWrites(from, library, ids);
+  if (!writes) return pushLibrary(token, library, { baseRevision: options.baseRevision });
+
+  const next: ServerRecordIds = { articles: new Map(ids.articles), highlights: new Map(ids.highlights) };
+  let revision = options.baseRevision;
+  for (const write of writes) {
+    const reached = revision === options.baseRevision ? {} : { reached: revision };
+    const result = await request(
+      token,
+      {
+        method: write.method,
+        headers: { 'content-type': 'application/json', 'if-match': `"${revision}"` },
+        body: write.body ? JSON.stringify(write.body) : undefined
+      },
+      `${API_ENDPOINT}${write.path}`
+    );
+    if (!result) return { ok: false, error: 'Could not reach the server', ...reached };
+
+    const { response, body } = result;
+    const parsed = writeBodySchema.safeParse(body);
+    if (response.status === 412) {
+      const current = revisionBodySchema.safeParse(body);
+      return {
+        ok: false,
+        error: errorOf(body, 412),
+        conflict: { revision: current.success ? current.data.revision : 0 },
+        ...reached
+      };
+    }
+    if (!response.ok || !parsed.success) {
+      // A record the routes refuse (a tag they don't allow, say) can still go over in a whole copy
+      console.warn('☁️ Sending the whole library; the server refused a change:', errorOf(body, response.status));
+      const copied = await pushLibrary(token, library, { baseRevision: revision });
+      return copied.ok ? copied : { ...copied, ...reached };
+    }
+    write.apply(next, parsed.data.id);
+    revision = parsed.data.revision;
+  }
+  return { ok: true, revision, ids: next };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { deriveEncryptionKey } from './compression';
+import { createSnapshotStore } from './snapshots';
+import { backupEntries, type StorageAdapter, type StoredValue } from './storage';
+
+function memoryAdapter(): StorageAdapter & { values: Map<string, StoredValue> } {
+  const values = new Map<string, StoredValue>();
+  return {
+    values,
+    backend: 'indexedDB',
+    supportsBinary: true,
+    async getItem(key) {
+      const value = values.get(key);
+      return typeof value === 'string' ? value : null;
+    },
+    async setItem(key, value) {
+      values.set(key, value);
+    },
+    async getValue(key) {
+      return values.get(key) ?? null;
+    },
+    async setValue(key, value) {
+      values.set(key, value);
+    },
+    async removeItem(key) {
+      values.delete(key);
+    }
+  };
+}
+
+const library = (title: string) => ({
+  articles: [
+    { title, url: 'https://example.com/a', time_added: 1, tags: '', status: 'unread', isFavorite: false, parsedTags: [] }
+  ],
+  highlightData: [],
+  timestamp: 1
+});
+
+describe('snapshot store', () => {
+  it('re-keys readable snapshots and keeps damaged ones instead of deleting them', async () => {
+    const adapter = memoryAdapter();
+    const store = createSnapshotStore(adapter, 'test');
+    const good = await store.create('Good', library('Good'), 10);
+    const damaged = await store.create('Damaged', library('Damaged'), 10);
+    adapter.values.set(`test:snapshot:${damaged.id}`, 'not a payload');
+
+    const key = await deriveEncryptionKey('correct horse battery', new Uint8Array(16), 1000);
+    const kept = await store.rekey(key);
+
+    expect(kept.map((info) => info.id)).toEqual([damaged.id]);
+    expect(adapter.values.get(`test:snapshot:${damaged.id}`)).toBe('not a payload');
+
+    const rekeyed = createSnapshotStore(adapter, 'test', { encryptionKey: key });
+    expect((await rekeyed.list()).map((info) => info.id).sort()).toEqual([good.id, damaged.id].sort());
+    expect((await rekeyed.load(good.id)).articles[0].title).toBe('Good');
+    await expect(store.load(good.id)).rejects.toThrow();
+  });
+
+  it('puts every re-keyed snapshot back from a backup of its keys', async () => {
+    const adapter = memoryAdapter();
+    const store = createSnapshotStore(adapter, 'test');
+    const first = await store.create('First', library('First'), 10);
+    await store.create('Second', library('Second'), 10);
+    const before = new Map(adapter.values);
+
+    const restore = await backupEntries(adapter, await store.keys());
+    await store.rekey(await deriveEncryptionKey('correct horse battery', new Uint8Array(16), 1000));
+    await store.remove(first.id);
+    await restore();
+
+    expect(adapter.values).toEqual(before);
+    expect((await store.load(first.id)).articles[0].title).toBe('First');
+  });
+});
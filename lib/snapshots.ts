@@ -0,0 +1,192 @@
+import {
+  decodePayload,
+  decryptPayload,
+  encodePayload,
+  encryptPayload,
+  toTextPayload,
+  type CodecId
+} from './compression';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+import type { StorageAdapter } from './storage';
+import type { CachedData } from './types';
+
+export const DEFAULT_SNAPSHOT_RETENTION = 5;
+export const SNAPSHOT_RETENTION_OPTIONS = [1, 3, 5, 10, 20];
+// User preference, kept in localStorage like the storage backend choice
+export const SNAPSHOT_RETENTION_KEY = 'mypocket-reader-snapshot-retention';
+
+export interface SnapshotInfo {
+  id: string;
+  label: string;
+  createdAt: number;
+  articleCount: number;
+  highlightCount: number;
+  size: number;
+  // Restoring runs older snapshots through the schema migrations
+  schemaVersion: number;
+}
+
+export interface SnapshotStore {
+  list(): Promise<SnapshotInfo[]>;
+  create(label: string, data: CachedData, retention: number): Promise<SnapshotInfo>;
+  load(id: string): Promise<CachedData>;
+  remove(id: string): Promise<void>;
+  // Drops the oldest snapshots beyond `retention`
+  prune(retention: number): Promise<void>;
+  // Re-encrypts every snapshot with another key (null stores them in plain text). Snapshots
+  // that can't be read or rewritten are kept as they are and returned, so the caller can tell the user.
+  rekey(nextKey: CryptoKey | null): Promise<SnapshotInfo[]>;
+  // Every key the snapshots and their index occupy
+  keys(): Promise<string[]>;
+  // Moves every snapshot to another backend without decrypting it
+  transferTo(adapter: StorageAdapter): Promise<void>;
+}
+
+export function getSnapshotRetention(): number {
+  try {
+    const stored = Number.parseInt(localStorage.getItem(SNAPSHOT_RETENTION_KEY) || '', 10);
+    if (SNAPSHOT_RETENTION_OPTIONS.includes(stored)) return stored;
+  } catch {
+    // localStorage can throw in privacy modes; fall through to the default
+  }
+  return DEFAULT_SNAPSHOT_RETENTION;
+}
+
+export function setSnapshotRetention(retention: number): void {
+  localStorage.setItem(SNAPSHOT_RETENTION_KEY, String(retention));
+}
+
+/**
+ * Creates a store for point-in-time copies of the library, kept apart from the
+ * live library so clearing the cache never removes them. Snapshots are stored
+ * compressed, and encrypted when the library is.
+ */
+export function createSnapshotStore(
+  adapter: StorageAdapter,
+  baseKey: string,
+  options: { encryptionKey?: CryptoKey | null; codec?: CodecId } = {}
+): SnapshotStore {
+  const encryptionKey = options.encryptionKey ?? null;
+  const codec = options.codec ?? 'lz-string';
+  const indexKey = `${baseKey}:snapshots`;
+  const snapshotKey = (id: string) => `${baseKey}:snapshot:${id}`;
+
+  async function readIndex(): Promise<SnapshotInfo[]> {
+    const stored = await adapter.getItem(indexKey);
+    if (!stored) return [];
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function writeIndex(index: SnapshotInfo[]): Promise<void> {
+    await adapter.setItem(indexKey, JSON.stringify(index));
+  }
+
+  async function writeSnapshot(info: SnapshotInfo, data: CachedData, key: CryptoKey | null): Promise<SnapshotInfo> {
+    const { payload, metadata } = await encodePayload(data, codec, adapter.supportsBinary);
+    await adapter.setValue(snapshotKey(info.id), key ? await encryptPayload(payload, key) : payload);
+    return { ...info, size: metadata.compressedSize };
+  }
+
+  const store: SnapshotStore = {
+    // Newest first
+    async list() {
+      return (await readIndex()).sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    async create(label, data, retention) {
+      const createdAt = Date.now();
+      const info = await writeSnapshot(
+        {
+          id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          label,
+          createdAt,
+          articleCount: data.articles.length,
+          highlightCount: data.highlightData.reduce((sum, item) => sum + item.highlights.length, 0),
+          size: 0,
+          schemaVersion: CURRENT_SCHEMA_VERSION
+        },
+        data,
+        encryptionKey
+      );
+
+      await writeIndex([info, ...(await readIndex())]);
+      await store.prune(retention);
+
+      console.log('📸 Snapshot created:', { label, articles: info.articleCount });
+      return info;
+    },
+
+    async load(id) {
+      const stored = await adapter.getValue(snapshotKey(id));
+      if (!stored) {
+        throw new Error('Snapshot not found');
+      }
+      const { data } = await decodePayload(await decryptPayload(stored, encryptionKey));
+      const snapshot = data as Partial<CachedData> | null;
+      if (!snapshot || !Array.isArray(snapshot.articles) || !Array.isArray(snapshot.highlightData)) {
+        throw new Error('Snapshot is damaged');
+      }
+      return snapshot as CachedData;
+    },
+
+    async remove(id) {
+      await adapter.removeItem(snapshotKey(id));
+      await writeIndex((await readIndex()).filter((info) => info.id !== id));
+    },
+
+    async prune(retention) {
+      const index = await store.list();
+      const kept = index.slice(0, Math.max(1, retention));
+      if (kept.length === index.length) return;
+
+      for (const expired of index.slice(kept.length)) {
+        await adapter.removeItem(snapshotKey(expired.id));
+      }
+      await writeIndex(kept);
+    },
+
+    async rekey(nextKey) {
+      const rewritten: SnapshotInfo[] = [];
+      const kept: SnapshotInfo[] = [];
+      for (const info of await readIndex()) {
+        try {
+          rewritten.push(await writeSnapshot(info, await store.load(info.id), nextKey));
+        } catch (error) {
+          console.warn('📸 Keeping snapshot as it is; it could not be re-keyed:', info.id, error);
+          rewritten.push(info);
+          kept.push(info);
+        }
+      }
+      await writeIndex(rewritten);
+      return kept;
+    },
+
+    async keys() {
+      return [indexKey, ...(await readIndex()).map((info) => snapshotKey(info.id))];
+    },
+
+    async transferTo(targetAdapter) {
+      if (targetAdapter.backend === adapter.backend) return;
+      const index = await readIndex();
+      for (const info of index) {
+        const stored = await adapter.getValue(snapshotKey(info.id));
+        if (stored !== null) {
+          await targetAdapter.setValue(
+            snapshotKey(info.id),
+            targetAdapter.supportsBinary ? stored : toTextPayload(stored)
+          );
+        }
+        await adapter.removeItem(snapshotKey(info.id));
+      }
+      await targetAdapter.setItem(indexKey, JSON.stringify(index));
+      await adapter.removeItem(indexKey);
+    }
+  };
+
+  return store;
+}
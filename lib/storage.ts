@@ -0,0 +1,211 @@
+// Pluggable storage backends for the cached library
+
+export type StorageBackend = 'indexedDB' | 'localStorage';
+
+// Encoded payloads are binary where the backend can hold bytes, text otherwise
+export type StoredValue = string | Uint8Array;
+
+/**
+ * Minimal async key/value interface implemented by every storage backend.
+ * `getItem`/`setItem` handle plain strings; `getValue`/`setValue` also carry
+ * binary payloads on backends where `supportsBinary` is set.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  readonly supportsBinary: boolean;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  getValue(key: string): Promise<StoredValue | null>;
+  setValue(key: string, value: StoredValue): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+const IDB_NAME = 'mypocket-reader';
+const IDB_VERSION = 1;
+const IDB_STORE = 'kv';
+
+// Remembers which backend the user picked; kept in localStorage so it is readable synchronously
+export const STORAGE_BACKEND_KEY = 'mypocket-reader-storage-backend';
+
+/**
+ * localStorage backend - synchronous under the hood, capped by the browser at roughly 5-10 MB
+ */
+export const localStorageAdapter: StorageAdapter = {
+  backend: 'localStorage',
+  supportsBinary: false,
+  async getItem(key) {
+    return localStorage.getItem(key);
+  },
+  async setItem(key, value) {
+    localStorage.setItem(key, value);
+  },
+  async getValue(key) {
+    return localStorage.getItem(key);
+  },
+  async setValue(key, value) {
+    if (typeof value !== 'string') {
+      throw new TypeError('localStorage can only store text payloads');
+    }
+    localStorage.setItem(key, value);
+  },
+  async removeItem(key) {
+    localStorage.removeItem(key);
+  }
+};
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// Wraps an IDBRequest in a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IDB_STORE)) {
+          db.createObjectStore(IDB_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(IDB_STORE, mode);
+  const result = await requestToPromise(run(transaction.objectStore(IDB_STORE)));
+
+  // Resolve writes only once they are durable
+  if (mode === 'readwrite') {
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+  return result;
+}
+
+/**
+ * IndexedDB backend - asynchronous and limited only by the browser's disk quota
+ */
+export const indexedDBAdapter: StorageAdapter = {
+  backend: 'indexedDB',
+  supportsBinary: true,
+  async getItem(key) {
+    const value = await withStore<unknown>('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  },
+  async setItem(key, value) {
+    await withStore('readwrite', (store) => store.put(value, key));
+  },
+  async getValue(key) {
+    const value = await withStore<unknown>('readonly', (store) => store.get(key));
+    return typeof value === 'string' || value instanceof Uint8Array ? value : null;
+  },
+  async setValue(key, value) {
+    await withStore('readwrite', (store) => store.put(value, key));
+  },
+  async removeItem(key) {
+    await withStore('readwrite', (store) => store.delete(key));
+  }
+};
+
+export function getStorageAdapter(backend: StorageBackend): StorageAdapter {
+  if (backend === 'indexedDB' && isIndexedDBAvailable()) {
+    return indexedDBAdapter;
+  }
+  return localStorageAdapter;
+}
+
+/**
+ * Returns the backend the user picked, defaulting to IndexedDB when the browser supports it
+ */
+export function getPreferredStorageBackend(): StorageBackend {
+  try {
+    const stored = localStorage.getItem(STORAGE_BACKEND_KEY);
+    if (stored === 'localStorage') return 'localStorage';
+  } catch {
+    // localStorage can throw in privacy modes; fall through to the default
+  }
+  return isIndexedDBAvailable() ? 'indexedDB' : 'localStorage';
+}
+
+export function setPreferredStorageBackend(backend: StorageBackend): void {
+  localStorage.setItem(STORAGE_BACKEND_KEY, backend);
+}
+
+/**
+ * Moves a raw stored value from one backend to another.
+ * The source entry is removed only after the target write succeeded; nothing
+ * happens when the target already holds a value for the key.
+ */
+export async function migrateStorageItem(
+  key: string,
+  from: StorageAdapter,
+  to: StorageAdapter
+): Promise<boolean> {
+  if (from.backend === to.backend) return false;
+
+  try {
+    const value = await from.getItem(key);
+    if (value === null) return false;
+
+    const existing = await to.getItem(key);
+    if (existing !== null) {
+      console.warn('🔄 Target backend already holds data, leaving source untouched:', { key, to: to.backend });
+      return false;
+    }
+
+    await to.setItem(key, value);
+    await from.removeItem(key);
+
+    console.log('🔄 Migrated stored data between backends:', { key, from: from.backend, to: to.backend });
+    return true;
+  } catch (error) {
+    console.error('🔄 Storage migration failed, keeping data in place:', error);
+    return false;
+  }
+}
+
+/**
+ * Reads the given entries as they are stored and returns a function that writes them
+ * back, removing those that did not exist. Lets a change that rewrites entries in
+ * place across several stores be undone when a later step fails.
+ */
+export async function backupEntries(adapter: StorageAdapter, keys: string[]): Promise<() => Promise<void>> {
+  const saved = new Map<string, StoredValue | null>();
+  for (const key of keys) {
+    saved.set(key, await adapter.getValue(key));
+  }
+
+  return async () => {
+    for (const [key, value] of saved) {
+      if (value === null) {
+        await adapter.removeItem(key);
+      } else {
+        await adapter.setValue(key, value);
+      }
+    }
+  };
+}
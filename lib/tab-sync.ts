@@ -0,0 +1,113 @@
+import type { Article, Highlight, LinkHealth } from './types';
+
+/**
+ * Changes one tab announces to the other open tabs of the app.
+ * Record messages carry the change itself; the rest tell receivers to reload from storage.
+ */
+export type TabSyncMessage =
+  | { type: 'article-updated'; previous: Article; article: Article; editedAt: number }
+  | { type: 'article-added'; article: Article }
+  // One batch of link check results; only the link health of each article changes
+  | { type: 'link-health-updated'; results: { url: string; linkHealth: LinkHealth }[] }
+  | { type: 'highlight-added'; url: string; title: string; highlight: Highlight }
+  | { type: 'library-replaced' }
+  | { type: 'library-cleared' }
+  | { type: 'encryption-changed' }
+  | { type: 'storage-changed' }
+  | { type: 'archive-changed' };
+
+interface TabSyncEnvelope {
+  tabId: string;
+  sentAt: number;
+  message: TabSyncMessage;
+}
+
+export interface TabSync {
+  readonly tabId: string;
+  readonly transport: 'broadcast-channel' | 'storage-event' | 'none';
+  post(message: TabSyncMessage): void;
+  close(): void;
+}
+
+function createTabId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function isEnvelope(value: unknown): value is TabSyncEnvelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TabSyncEnvelope).tabId === 'string' &&
+    typeof (value as TabSyncEnvelope).message?.type === 'string'
+  );
+}
+
+/**
+ * Connects this tab to the other tabs of the app. Uses BroadcastChannel where
+ * available and falls back to the `storage` event, which only fires in other
+ * tabs; the fallback entry is removed right after it is written.
+ * Messages sent by this tab are never delivered back to it.
+ */
+export function createTabSync(
+  channelName: string,
+  onMessage: (message: TabSyncMessage, fromTabId: string) => void
+): TabSync {
+  const tabId = createTabId();
+
+  const deliver = (value: unknown) => {
+    if (!isEnvelope(value) || value.tabId === tabId) return;
+    onMessage(value.message, value.tabId);
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event) => deliver(event.data);
+
+    return {
+      tabId,
+      transport: 'broadcast-channel',
+      post(message) {
+        const envelope: TabSyncEnvelope = { tabId, sentAt: Date.now(), message };
+        channel.postMessage(envelope);
+      },
+      close() {
+        channel.close();
+      }
+    };
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    const storageKey = `${channelName}:message`;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey || !event.newValue) return;
+      try {
+        deliver(JSON.parse(event.newValue));
+      } catch (error) {
+        console.warn('🔁 Ignoring malformed tab sync message:', error);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return {
+      tabId,
+      transport: 'storage-event',
+      post(message) {
+        const envelope: TabSyncEnvelope = { tabId, sentAt: Date.now(), message };
+        try {
+          localStorage.setItem(storageKey, JSON.stringify(envelope));
+          localStorage.removeItem(storageKey);
+        } catch (error) {
+          console.warn('🔁 Failed to notify other tabs:', error);
+        }
+      },
+      close() {
+        window.removeEventListener('storage', handleStorage);
+      }
+    };
+  }
+
+  return { tabId, transport: 'none', post() {}, close() {} };
+}
@@ -0,0 +1,47 @@
+// Shared data model for the reader's library
+
+export interface Article {
+  title: string;
+  url: string;
+  time_added: number;
+  tags: string;
+  status: string;
+  isFavorite: boolean;
+  parsedTags: string[];
+  // Result of the last link check; absent until the article's link was checked
+  linkHealth?: LinkHealth;
+}
+
+// 'moved' means the link now leads to another site or the site's home page, often a parking page
+export type LinkHealthStatus = 'ok' | 'moved' | 'restricted' | 'broken' | 'unreachable';
+
+export interface LinkHealth {
+  status: LinkHealthStatus;
+  // Status of the last response; 0 when no response arrived
+  httpStatus: number;
+  // Where redirects ended, when that differs from the article's URL
+  finalUrl?: string;
+  checkedAt: number;
+  // Closest Wayback Machine snapshot, looked up for links that no longer work
+  waybackUrl?: string;
+  waybackTimestamp?: string;
+}
+
+export interface Highlight {
+  quote: string;
+  created_at: number;
+  // Position in the source, e.g. "page 12, location 180-182" for Kindle highlights
+  location?: string;
+}
+
+export interface ArticleWithHighlights {
+  url: string;
+  title: string;
+  highlights: Highlight[];
+}
+
+export interface CachedData {
+  articles: Article[];
+  highlightData: ArticleWithHighlights[];
+  timestamp: number;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, normalizeUrl } from './url';
+
+describe('normalizeUrl', () => {
+  it('treats scheme, www, trailing slashes and fragments as the same article', () => {
+    const key = 'https://example.com/post';
+    expect(normalizeUrl('http://www.example.com/post/')).toBe(key);
+    expect(normalizeUrl('  https://EXAMPLE.com/post#section ')).toBe(key);
+    expect(normalizeUrl('https://example.com:443/post')).toBe(key);
+  });
+
+  it('drops tracking parameters and sorts the rest', () => {
+    expect(normalizeUrl('https://example.com/?b=2&utm_source=x&a=1&fbclid=y')).toBe('https://example.com?a=1&b=2');
+  });
+
+  it('keeps other schemes and unparsable input recognizable', () => {
+    expect(normalizeUrl('ftp://example.com/file/#x')).toBe('ftp://example.com/file');
+    expect(normalizeUrl('not a url/')).toBe('not a url');
+  });
+
+  it('gives an empty key for a missing URL', () => {
+    expect(normalizeUrl('')).toBe('');
+    expect(normalizeUrl('   ')).toBe('');
+  });
+});
+
+describe('canonicalizeUrl', () => {
+  it('only strips tracking parameters', () => {
+    expect(canonicalizeUrl(' http://www.example.com/post/?utm_medium=email&id=7 ')).toBe(
+      'http://www.example.com/post/?id=7'
+    );
+    expect(canonicalizeUrl('http://example.com/post/')).toBe('http://example.com/post/');
+  });
+});
@@ -0,0 +1,74 @@
+// Query parameters added by campaign and click tracking; they never change the page
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+  'igshid',
+  'yclid',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'ref_src'
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+function stripTrackingParams(parsed: URL) {
+  Array.from(parsed.searchParams.keys())
+    .filter(isTrackingParam)
+    .forEach((name) => parsed.searchParams.delete(name));
+}
+
+/**
+ * Cleans a URL before it is stored: trims it and drops tracking parameters (utm_*, fbclid, ...).
+ * The scheme, host and path are kept as given since the page may only be served that way.
+ * Falls back to the trimmed input when the URL cannot be parsed.
+ */
+export function canonicalizeUrl(url: string): string {
+  const trimmed = (url || '').trim();
+  const parsed = parseUrl(trimmed);
+  if (!parsed || !parsed.search) return trimmed;
+
+  stripTrackingParams(parsed);
+  return parsed.toString();
+}
+
+/**
+ * Normalizes a URL into a key used to match the same article across imports.
+ * http and https, a "www." prefix, tracking parameters, the order of the remaining
+ * parameters, the fragment and trailing slashes don't tell articles apart.
+ * The URL parser lowercases scheme and host and drops default ports.
+ * Falls back to the trimmed input when the URL cannot be parsed.
+ */
+export function normalizeUrl(url: string): string {
+  const trimmed = (url || '').trim();
+  if (!trimmed) return '';
+
+  const parsed = parseUrl(trimmed);
+  if (!parsed) return trimmed.replace(/\/+$/, '');
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    parsed.hash = '';
+    return parsed.toString().replace(/\/+$/, '');
+  }
+
+  stripTrackingParams(parsed);
+  parsed.searchParams.sort();
+  const host = parsed.host.replace(/^www\./, '');
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `https://${host}${path}${parsed.search}`;
+}
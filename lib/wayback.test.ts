@@ -0,0 +1,71 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { findClosestSnapshot } from './wayback';
+
+// A local stand-in for the availability API that answers with whatever the test sets
+let reply: { status: number; body: unknown } = { status: 200, body: {} };
+let lastQuery = new URLSearchParams();
+
+const server = http.createServer((request, response) => {
+  lastQuery = new URL(request.url ?? '/', 'http://localhost').searchParams;
+  response.writeHead(reply.status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(reply.body));
+});
+
+const closest = (fields: Record<string, unknown>) => ({ archived_snapshots: { closest: fields } });
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.WAYBACK_AVAILABILITY_URL = `http://127.0.0.1:${port}/wayback/available`;
+});
+
+afterAll(async () => {
+  delete process.env.WAYBACK_AVAILABILITY_URL;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('findClosestSnapshot', () => {
+  it('asks for the snapshot closest to when the article was saved', async () => {
+    reply = {
+      status: 200,
+      body: closest({
+        available: true,
+        url: 'http://web.archive.org/web/20231114221320/https://example.com/post',
+        timestamp: '20231114221320'
+      })
+    };
+
+    expect(await findClosestSnapshot('https://example.com/post', 1700000000)).toEqual({
+      url: 'https://web.archive.org/web/20231114221320/https://example.com/post',
+      timestamp: '20231114221320'
+    });
+    expect(lastQuery.get('url')).toBe('https://example.com/post');
+    expect(lastQuery.get('timestamp')).toBe('20231114221320');
+  });
+
+  it('asks for the newest snapshot when there is no save time', async () => {
+    reply = {
+      status: 200,
+      body: closest({ available: true, url: 'https://web.archive.org/web/2024/x', timestamp: 'bad' })
+    };
+
+    expect(await findClosestSnapshot('https://example.com/post')).toEqual({
+      url: 'https://web.archive.org/web/2024/x',
+      timestamp: ''
+    });
+    expect(lastQuery.has('timestamp')).toBe(false);
+  });
+
+  it('returns null when there is no usable snapshot or the lookup fails', async () => {
+    reply = { status: 200, body: { archived_snapshots: {} } };
+    expect(await findClosestSnapshot('https://example.com/post')).toBeNull();
+
+    reply = { status: 200, body: closest({ available: true, url: 'javascript:alert(1)' }) };
+    expect(await findClosestSnapshot('https://example.com/post')).toBeNull();
+
+    reply = { status: 503, body: { error: 'Unavailable' } };
+    expect(await findClosestSnapshot('https://example.com/post')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import 'server-only';
+
+// Looks up the closest Wayback Machine snapshot of a URL through an "availability" API.
+// The endpoint comes from WAYBACK_AVAILABILITY_URL so a local stand-in can replace
+// archive.org; it is trusted configuration, so it is fetched directly rather than
+// through safe-fetch.
+
+export const DEFAULT_WAYBACK_AVAILABILITY_URL = 'https://archive.org/wayback/available';
+const WAYBACK_TIMEOUT_MS = 8000;
+
+export interface WaybackSnapshot {
+  url: string;
+  // YYYYMMDDhhmmss
+  timestamp: string;
+}
+
+export function waybackAvailabilityUrl(): string {
+  return process.env.WAYBACK_AVAILABILITY_URL || DEFAULT_WAYBACK_AVAILABILITY_URL;
+}
+
+// Unix seconds as the API's YYYYMMDDhhmmss timestamp
+function toWaybackTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+/**
+ * Finds the snapshot closest to `near` (Unix seconds, e.g. when the article was saved),
+ * or the newest one without it. Returns null when there is none or the lookup fails.
+ */
+export async function findClosestSnapshot(url: string, near?: number): Promise<WaybackSnapshot | null> {
+  const endpoint = new URL(waybackAvailabilityUrl());
+  endpoint.searchParams.set('url', url);
+  if (near && near > 0) endpoint.searchParams.set('timestamp', toWaybackTimestamp(near));
+
+  try {
+    const response = await fetch(endpoint, {
+      headers: { accept: 'application/json' },
+      signal: AbortSignal.timeout(WAYBACK_TIMEOUT_MS),
+      cache: 'no-store'
+    });
+    if (!response.ok) return null;
+
+    const closest = (await response.json())?.archived_snapshots?.closest;
+    if (!closest?.available || typeof closest.url !== 'string') return null;
+    const snapshot = new URL(closest.url);
+    if (snapshot.protocol !== 'http:' && snapshot.protocol !== 'https:') return null;
+    return {
+      // The API reports http:// links to snapshots that are served over https
+      url: snapshot.toString().replace(/^http:\/\/web\.archive\.org\//, 'https://web.archive.org/'),
+      timestamp: /^\d{1,14}$/.test(String(closest.timestamp)) ? String(closest.timestamp) : ''
+    };
+  } catch (error) {
+    console.warn('Wayback lookup failed:', error);
+    return null;
+  }
+}
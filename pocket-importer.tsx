@@ -3,7 +3,7 @@
 import type React from "react"
 import Image from "next/image"
 
-import { useState, useCallback, useMemo, useEffect, useRef } from "react"
+import { useState, useCallback, useMemo, useEffect, useLayoutEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -37,6 +37,28 @@ import {
   ChevronUp,
   Filter,
   Plus,
+  Lock,
+  Unlock,
+  KeyRound,
+  Undo2,
+  Redo2,
+  History,
+  RotateCcw,
+  Bookmark,
+  Copy,
+  HardDriveDownload,
+  ArchiveRestore,
+  NotebookText,
+  BookOpen,
+  BookDown,
+  AArrowUp,
+  AArrowDown,
+  Unlink,
+  Activity,
+  Cloud,
+  CloudOff,
+  Mail,
+  LogOut,
 } from "lucide-react"
 
 import Papa from "papaparse"
@@ -45,42 +67,166 @@ import JSZip from "jszip"
 import DOMPurify from "dompurify"
 // Import compression utilities
 import {
-  saveCompressedToLocalStorage,
-  loadCompressedFromLocalStorage,
-  getCompressionStats,
-  migrateToCompressed,
-  type CompressionMetadata
+  benchmarkCodecs,
+  createEncryptionConfig,
+  getAvailableCodecs,
+  getPreferredCodec,
+  parseEncryptionConfig,
+  setPreferredCodec,
+  unlockEncryptionKey,
+  type CodecBenchmark,
+  type CodecId,
+  type CompressionMetadata,
+  type EncryptionConfig
 } from "@/lib/compression"
-
-interface Article {
-  title: string
-  url: string
-  time_added: number
-  tags: string
-  status: string
-  isFavorite: boolean
-  parsedTags: string[]
-}
-
-interface Highlight {
-  quote: string
-  created_at: number
+import { createLibraryStore } from "@/lib/library-store"
+import { CURRENT_SCHEMA_VERSION, migrateLibrary } from "@/lib/schema"
+import {
+  createSnapshotStore,
+  getSnapshotRetention,
+  setSnapshotRetention,
+  DEFAULT_SNAPSHOT_RETENTION,
+  SNAPSHOT_RETENTION_OPTIONS,
+  type SnapshotInfo
+} from "@/lib/snapshots"
+import { createTabSync, type TabSync, type TabSyncMessage } from "@/lib/tab-sync"
+import {
+  archiveKey,
+  createArchiveStore,
+  getReaderPreferences,
+  setReaderPreferences,
+  DEFAULT_READER_PREFERENCES,
+  READER_FONT_SIZES,
+  READER_THEMES,
+  READER_WIDTHS,
+  type ArchivedContent,
+  type ArchiveInfo,
+  type ReaderPreferences,
+  type ReaderTheme,
+  type ReaderWidth
+} from "@/lib/article-archive"
+import {
+  extractArticleContent,
+  fetchArticleContent,
+  PAGE_PARSE_CONFIG,
+  READER_SANITIZE_CONFIG
+} from "@/lib/article-content"
+// Import storage backends (IndexedDB by default, localStorage as fallback)
+import {
+  backupEntries,
+  getStorageAdapter,
+  getPreferredStorageBackend,
+  setPreferredStorageBackend,
+  migrateStorageItem,
+  type StorageBackend
+} from "@/lib/storage"
+import { mergeArticles, mergeHighlights, type ImportMode } from "@/lib/import-merge"
+import {
+  createRejectionLog,
+  emptyParseStats,
+  parseTagsAndFavorites,
+  type ImportParseStats,
+  type RejectedRow,
+  type ImportSanitizers,
+  type ParsedImport
+} from "@/lib/importers"
+import { htmlLinkSchema, UNSAFE_URL_REASON } from "@/lib/import-schemas"
+import {
+  completeSanitizing,
+  mergeImportParts,
+  rejectedRowsToCSV,
+  type FileRejection,
+  type ImportJobProgress
+} from "@/lib/import-job"
+import { startImportJob } from "@/lib/import-client"
+import { canonicalizeUrl, normalizeUrl } from "@/lib/url"
+import { findDuplicateGroups, mergeDuplicates } from "@/lib/duplicates"
+import { buildMarkdownVault } from "@/lib/markdown-vault"
+import { fetchMetadataBatch, fetchPageMetadata, hasMetadataConsent, setMetadataConsent } from "@/lib/metadata-client"
+import { isBrokenLink, LINK_STATUS_LABELS } from "@/lib/link-health"
+import { checkLinks } from "@/lib/link-health-client"
+import { completeSignIn, getAccount, requestMagicLink, signOut, SIGN_IN_PARAM, type AccountStatus } from "@/lib/account-client"
+import {
+  DEFAULT_SERVER_SYNC,
+  getServerSyncSettings,
+  pullLibrary,
+  pushChanges,
+  pushLibrary,
+  sameLibrary,
+  SERVER_SYNC_DELAY_MS,
+  setServerSyncSettings,
+  type PullResult,
+  type ServerLibrary,
+  type ServerRecordIds,
+  type ServerSyncSettings,
+} from "@/lib/server-sync"
+import {
+  createExportInfo,
+  createExportScope,
+  describeExportScope,
+  exportFileSuffix,
+  exportInfoMarkdown,
+  type ExportScope,
+  type ExportScopeKind,
+} from "@/lib/export-scope"
+import {
+  BACKUP_FILE_EXTENSION,
+  createBackup,
+  parseBackup,
+  type BackupPreferences,
+  type SortOrder,
+} from "@/lib/backup"
+import { BOOKMARKS_FAVORITES_FOLDER, buildBookmarksHTML, isNetscapeBookmarks } from "@/lib/bookmarks"
+import type { Article, ArticleWithHighlights, CachedData, Highlight, LinkHealth } from "@/lib/types"
+
+interface CSVParseResult {
+  articles: Article[]
+  stats: ImportParseStats
+  rejected: RejectedRow[]
 }
 
-interface ArticleWithHighlights {
-  url: string
-  title: string
-  highlights: Highlight[]
+// Parsed import waiting for the user to confirm how it is combined with the library
+interface PendingImport {
+  source: string
+  articles?: Article[]
+  highlights?: ArticleWithHighlights[]
+  parseStats?: ImportParseStats
+  report: string[]
+  errors: string[]
+  // Settings from a backup, applied on confirm when the user keeps them selected
+  preferences?: Partial<BackupPreferences>
 }
 
-interface CachedData {
+// A library state the user can return to with undo/redo
+interface LibraryHistoryEntry {
+  label: string
   articles: Article[]
   highlightData: ArticleWithHighlights[]
-  timestamp: number
 }
 
+
 const ITEMS_PER_PAGE_OPTIONS = [10, 25, 50, 100]
 const CACHE_KEY = "mypocket-reader-data"
+// Passphrase salt and verifier for an encrypted library (no secrets)
+const ENCRYPTION_CONFIG_KEY = `${CACHE_KEY}:encryption`
+// Channel other open tabs listen on for library changes
+const TAB_SYNC_CHANNEL = "mypocket-reader-sync"
+
+// SECURITY: Encrypted libraries lock themselves after this much inactivity
+const AUTO_LOCK_MS = 15 * 60 * 1000 // 15 minutes
+const MIN_PASSPHRASE_LENGTH = 8
+
+// Undo history is kept in memory only; entries share unchanged records with the live library
+const MAX_UNDO_HISTORY = 50
+
+// Reader view layout and colors for each reader preference
+const READER_WIDTH_CLASSES: Record<ReaderWidth, string> = { narrow: "max-w-xl", medium: "max-w-2xl", wide: "max-w-4xl" }
+const READER_THEME_CLASSES: Record<ReaderTheme, { page: string; border: string }> = {
+  light: { page: "bg-white text-neutral-900", border: "border-black/10" },
+  sepia: { page: "bg-[#f4ecd8] text-[#5b4636]", border: "border-[#5b4636]/20" },
+  dark: { page: "bg-neutral-900 text-neutral-200", border: "border-white/10" },
+}
+const READING_WORDS_PER_MINUTE = 230
 
 // SECURITY: Storage limits to prevent DoS attacks
 const MAX_STORAGE_SIZE = 50 * 1024 * 1024 // 50MB
@@ -100,16 +246,106 @@ export default function PocketImporter() {
   const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false)
   const [showHighlightsOnly, setShowHighlightsOnly] = useState(false)
-  const [loading, setLoading] = useState(false)
   const [showUploadSection, setShowUploadSection] = useState(true)
   const [cacheInfo, setCacheInfo] = useState<{ timestamp: number; size: string; compressedSize?: string; compressionRatio?: number; originalSize?: string } | null>(null)
   
   // Compression state
   const [useCompression, setUseCompression] = useState(true) // Enable compression by default
   const [compressionMetadata, setCompressionMetadata] = useState<CompressionMetadata | null>(null)
+  const [compressionCodec, setCompressionCodec] = useState<CodecId>("lz-string")
+  const [availableCodecs, setAvailableCodecs] = useState<{ id: CodecId; label: string }[]>([])
+  const [codecBenchmark, setCodecBenchmark] = useState<CodecBenchmark[] | null>(null)
+  const [benchmarkingCodecs, setBenchmarkingCodecs] = useState(false)
+  // Codec the library is written with; null stores it uncompressed
+  const storageCodec = useCompression ? compressionCodec : null
   const [isLoadingFromCache, setIsLoadingFromCache] = useState(true)
-  const [sortBy, setSortBy] = useState<"default" | "newest" | "oldest" | "title-asc" | "title-desc">("default")
+
+  // Storage backend - resolved on mount since it reads browser-only APIs
+  const [storageBackend, setStorageBackend] = useState<StorageBackend | null>(null)
+  const storageAdapter = useMemo(() => (storageBackend ? getStorageAdapter(storageBackend) : null), [storageBackend])
+  // Encryption - the derived key only ever lives in memory
+  const [encryptionConfig, setEncryptionConfig] = useState<EncryptionConfig | null>(null)
+  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | null>(null)
+  const [unlockPassphrase, setUnlockPassphrase] = useState("")
+  const [unlockError, setUnlockError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [encryptionForm, setEncryptionForm] = useState<"enable" | "rekey" | null>(null)
+  const [passphraseInput, setPassphraseInput] = useState("")
+  const [passphraseConfirm, setPassphraseConfirm] = useState("")
+  const [updatingEncryption, setUpdatingEncryption] = useState(false)
+  const isLocked = encryptionConfig !== null && encryptionKey === null
+
+  // Cross-tab sync - changes made here are broadcast, changes from other tabs are applied live
+  const tabSyncRef = useRef<TabSync | null>(null)
+  const syncHandlerRef = useRef<(message: TabSyncMessage) => void>(() => {})
+  // When this tab last edited each article, to resolve concurrent edits the same way in every tab
+  const localEditsRef = useRef<Map<string, number>>(new Map())
+  const [syncConflicts, setSyncConflicts] = useState<
+    { id: number; url: string; title: string; localVersion: Article | null; message: string }[]
+  >([])
+
+  // Sync to server - the library is also kept on this app's server (/api/v1/library)
+  const [serverSync, setServerSyncState] = useState<ServerSyncSettings>(DEFAULT_SERVER_SYNC)
+  const [serverSyncStatus, setServerSyncStatus] = useState<{
+    state: "idle" | "syncing" | "error" | "conflict"
+    message?: string
+    syncedAt?: number
+  }>({ state: "idle" })
+  // Set once the library loaded from this browser has been reconciled with the server's
+  const [serverSyncReady, setServerSyncReady] = useState(false)
+  const serverReconcilingRef = useRef(false)
+  // The library as last sent to or received from the server; it isn't sent again unchanged
+  const serverSyncedRef = useRef<ServerLibrary | null>(null)
+  // Server ids of that library's records, which edits are sent to; null until they are known
+  const serverIdsRef = useRef<ServerRecordIds | null>(null)
+  const [showServerSyncForm, setShowServerSyncForm] = useState(false)
+  const [serverTokenInput, setServerTokenInput] = useState("")
+  const [connectingServer, setConnectingServer] = useState(false)
+  // Account on this app's server (email sign-in links); null until the server has answered
+  const [account, setAccount] = useState<AccountStatus | null>(null)
+  const [showSignInForm, setShowSignInForm] = useState(false)
+  const [signInEmail, setSignInEmail] = useState("")
+  const [signInState, setSignInState] = useState<"idle" | "sending" | "sent">("idle")
+
+  // Per-record library store - only buckets touched by an edit are rewritten
+  const libraryStore = useMemo(
+    () => (storageAdapter ? createLibraryStore(storageAdapter, CACHE_KEY, { encryptionKey }) : null),
+    [storageAdapter, encryptionKey],
+  )
+  const snapshotStore = useMemo(
+    () => (storageAdapter ? createSnapshotStore(storageAdapter, CACHE_KEY, { encryptionKey, codec: compressionCodec }) : null),
+    [storageAdapter, encryptionKey, compressionCodec],
+  )
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+  const [snapshotRetention, setSnapshotRetentionState] = useState(DEFAULT_SNAPSHOT_RETENTION)
+  const [restoringSnapshot, setRestoringSnapshot] = useState<string | null>(null)
+  // Offline copies of article content (by archiveKey) and the copy open in the reader view
+  const archiveStore = useMemo(
+    () => (storageAdapter ? createArchiveStore(storageAdapter, CACHE_KEY, { encryptionKey, codec: compressionCodec }) : null),
+    [storageAdapter, encryptionKey, compressionCodec],
+  )
+  const [archiveIndex, setArchiveIndex] = useState<Map<string, ArchiveInfo>>(new Map())
+  const [archivingUrls, setArchivingUrls] = useState<Set<string>>(new Set())
+  const [readerContent, setReaderContent] = useState<ArchivedContent | null>(null)
+  const [readerPreferences, setReaderPreferencesState] = useState<ReaderPreferences>(DEFAULT_READER_PREFERENCES)
+  const [undoStack, setUndoStack] = useState<LibraryHistoryEntry[]>([])
+  const [redoStack, setRedoStack] = useState<LibraryHistoryEntry[]>([])
+  // Set by imports so the next save rewrites the whole library instead of diffing it
+  const fullRewriteRef = useRef(false)
+  // Serializes async saves so an older snapshot never lands after a newer one
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  // Set when stored data could not be migrated; saving is blocked so the original stays untouched
+  const [schemaError, setSchemaError] = useState<{ message: string; raw: Record<string, string> } | null>(null)
+  const [switchingStorage, setSwitchingStorage] = useState(false)
+  const [sortBy, setSortBy] = useState<SortOrder>("default")
   const [fetchingTitles, setFetchingTitles] = useState<Set<string>>(new Set())
+  // Batch title fill in progress, and how to stop it
+  const [titleFill, setTitleFill] = useState<{ done: number; filled: number; total: number } | null>(null)
+  const titleFillAbortRef = useRef<AbortController | null>(null)
+  // Batch link check in progress, how to stop it, and whether it looks up Wayback snapshots
+  const [linkCheck, setLinkCheck] = useState<{ done: number; broken: number; total: number } | null>(null)
+  const linkCheckAbortRef = useRef<AbortController | null>(null)
+  const [linkCheckWayback, setLinkCheckWayback] = useState(true)
   const [editingTitle, setEditingTitle] = useState<string | null>(null)
   const [editTitleValue, setEditTitleValue] = useState("")
 
@@ -126,17 +362,27 @@ export default function PocketImporter() {
   const [currentPage, setCurrentPage] = useState(1)
   const [itemsPerPage, setItemsPerPage] = useState(25)
 
-  // New state for ZIP upload loading
-  const [zipLoading, setZipLoading] = useState(false)
+  // Import running in the import worker, and how to abort it
+  const [importProgress, setImportProgress] = useState<ImportJobProgress | null>(null)
+  const importAbortRef = useRef<AbortController | null>(null)
 
   // New state for upload mode
   const [uploadMode, setUploadMode] = useState<"zip" | "individual">("zip")
 
+  // Staged import and how it is combined with the existing library
+  const [importMode, setImportMode] = useState<ImportMode>("merge")
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const [restorePreferences, setRestorePreferences] = useState(true)
+  // Records the last import could not use, kept after confirming so they can be downloaded and fixed
+  const [importRejections, setImportRejections] = useState<{ source: string; rows: FileRejection[] } | null>(null)
+
   const [showReadOnly, setShowReadOnly] = useState(false)
   const [showUnreadOnly, setShowUnreadOnly] = useState(false)
+  const [showBrokenOnly, setShowBrokenOnly] = useState(false)
 
   // New states for adding articles
   const [showAddArticle, setShowAddArticle] = useState(false)
+  const [showDuplicates, setShowDuplicates] = useState(false)
   const [newArticleUrl, setNewArticleUrl] = useState("")
   const [newArticleTitle, setNewArticleTitle] = useState("")
   const [newArticleTags, setNewArticleTags] = useState("")
@@ -147,6 +393,11 @@ export default function PocketImporter() {
   const [showCacheMenu, setShowCacheMenu] = useState(false)
   // Add confirmation dialog state
   const [showClearCacheConfirm, setShowClearCacheConfirm] = useState(false)
+  // Markdown vault export option
+  const [vaultHighlightsOnly, setVaultHighlightsOnly] = useState(false)
+  // What the exports cover, and the articles picked for "Export selection" (by URL)
+  const [exportScopeKind, setExportScopeKind] = useState<ExportScopeKind>("library")
+  const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set())
 
   // New states for tag autocomplete
   const [tagInputValue, setTagInputValue] = useState("")
@@ -231,12 +482,24 @@ export default function PocketImporter() {
   }, [])
 
   // Cache management functions with compression support
-  const saveToCache = useCallback((articlesData: Article[], highlightsData: ArticleWithHighlights[]) => {
+  const saveToCache = useCallback(async (
+    articlesData: Article[],
+    highlightsData: ArticleWithHighlights[],
+    fullRewrite = false,
+    codec: CodecId | null = storageCodec,
+  ) => {
+    if (!storageAdapter || !libraryStore) return
+    if (schemaError) {
+      console.warn("💾 Save skipped: stored library failed to migrate and is kept untouched")
+      return
+    }
+
     try {
       console.log("💾 Saving to cache with compression:", {
         articlesCount: articlesData.length,
         highlightsCount: highlightsData.length,
-        useCompression,
+        codec,
+        backend: storageAdapter.backend,
         timestamp: new Date().toISOString(),
       })
 
@@ -272,8 +535,8 @@ export default function PocketImporter() {
         timestamp: Date.now(),
       }
       
-      // Use compression utilities
-      const metadata = saveCompressedToLocalStorage(CACHE_KEY, cacheData, useCompression)
+      // Write only changed records unless a full rewrite was requested
+      const { metadata } = await libraryStore.save(cacheData, { codec, fullRewrite })
       setCompressionMetadata(metadata)
       
       // Update cache info with compression details
@@ -302,8 +565,8 @@ export default function PocketImporter() {
       
       // Show warnings to user if any exist
       if (warnings.length > 0) {
-        const compressionNote = useCompression && metadata.compressionRatio > 0 
-          ? `\n\nNote: With compression enabled, you're only using ${formatBytes(metadata.compressedSize)} of localStorage space.`
+        const compressionNote = codec && metadata.compressionRatio > 0 
+          ? `\n\nNote: With compression enabled, you're only using ${formatBytes(metadata.compressedSize)} of ${storageAdapter.backend} space.`
           : ''
         const warningMessage = "Storage Usage Warning\n\n" + warnings.join('\n\n') + compressionNote + "\n\nYou can continue using the app, but consider cleaning up data to avoid hitting limits."
         
@@ -332,13 +595,60 @@ export default function PocketImporter() {
       }
       throw error // Re-throw to prevent further processing
     }
-  }, [useCompression])
+  }, [storageCodec, storageAdapter, libraryStore, schemaError])
+
+  const loadFromCache = useCallback(async (): Promise<boolean> => {
+    if (!storageAdapter || !libraryStore) return false
 
-  const loadFromCache = useCallback(() => {
     try {
-      console.log("📂 Loading from cache with compression support...")
-      const { data: cachedData, metadata } = loadCompressedFromLocalStorage(CACHE_KEY)
-      
+      console.log("📂 Loading from cache with compression support...", { backend: storageAdapter.backend })
+
+      // Move data saved by the other backend (e.g. pre-IndexedDB localStorage caches) into the active one
+      const otherBackend: StorageBackend = storageAdapter.backend === "indexedDB" ? "localStorage" : "indexedDB"
+      await migrateStorageItem(CACHE_KEY, getStorageAdapter(otherBackend), storageAdapter)
+
+      // SECURITY: An encrypted library stays untouched until the passphrase is entered
+      const storedConfig = await storageAdapter.getItem(ENCRYPTION_CONFIG_KEY)
+      const config = storedConfig ? parseEncryptionConfig(storedConfig) : null
+      if (storedConfig && !config) {
+        // Without its settings the library can't be decrypted; keep everything as stored
+        console.error("❌ Stored encryption settings are damaged")
+        setSchemaError({
+          message: "The stored encryption settings are damaged, so the library cannot be unlocked.",
+          raw: { ...(await libraryStore.exportRaw()), [ENCRYPTION_CONFIG_KEY]: storedConfig },
+        })
+        return false
+      }
+      setEncryptionConfig(config)
+      if (config && !encryptionKey) {
+        console.log("🔒 Library is encrypted - waiting for passphrase")
+        return false
+      }
+
+      // Loads per-record storage, converting a legacy single-blob cache on first run
+      const loaded = await libraryStore.load()
+      const metadata = loaded?.metadata ?? null
+      let cachedData: CachedData | undefined
+
+      // Bring older data shapes up to date; nothing is written unless every step succeeds
+      if (loaded) {
+        try {
+          const migrated = migrateLibrary(loaded.data, loaded.schemaVersion)
+          cachedData = migrated.data
+          if (migrated.applied.length > 0) {
+            console.log("🧬 Migrated cached data schema:", migrated.applied)
+            fullRewriteRef.current = true
+          }
+        } catch (migrationError) {
+          console.error("❌ Cached data schema migration failed:", migrationError)
+          setSchemaError({
+            message: migrationError instanceof Error ? migrationError.message : String(migrationError),
+            raw: await libraryStore.exportRaw(),
+          })
+          return false
+        }
+      }
+
       if (cachedData) {
         setArticles(cachedData.articles)
         setHighlightData(cachedData.highlightData)
@@ -376,34 +686,531 @@ export default function PocketImporter() {
           setShowUploadSection(false)
         }
 
-        // Auto-migrate legacy data to compressed format if compression is enabled
-        if (metadata && (metadata.version === 'legacy' || metadata.version === 'legacy-raw') && useCompression) {
-          console.log("🔄 Auto-migrating legacy data to compressed format...")
-          setTimeout(() => {
-            const migrated = migrateToCompressed(CACHE_KEY)
-            if (migrated) {
-              // Reload to get updated compression metadata
-              loadFromCache()
-            }
-          }, 1000) // Small delay to avoid blocking the UI
-        }
-
         return true
       }
     } catch (error) {
       console.error("❌ Failed to load data from cache:", error)
     }
     return false
-  }, [useCompression])
+  }, [storageAdapter, libraryStore, encryptionKey])
+
+  // Moves the cached library to another backend and makes it the default
+  const switchStorageBackend = useCallback(
+    async (backend: StorageBackend) => {
+      if (!storageAdapter || !libraryStore || backend === storageAdapter.backend) return
+
+      setSwitchingStorage(true)
+      try {
+        const targetAdapter = getStorageAdapter(backend)
+        const target = createLibraryStore(targetAdapter, CACHE_KEY, { encryptionKey })
+        if (articles.length > 0 || highlightData.length > 0) {
+          const cacheData: CachedData = { articles, highlightData, timestamp: Date.now() }
+          await target.save(cacheData, { codec: storageCodec, fullRewrite: true })
+        }
+        if (encryptionConfig) {
+          await targetAdapter.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(encryptionConfig))
+        }
+        await snapshotStore?.transferTo(targetAdapter)
+        await archiveStore?.transferTo(targetAdapter)
+        await libraryStore.clear()
+        // Kept until everything moved, so whatever is left behind can still be decrypted
+        await storageAdapter.removeItem(ENCRYPTION_CONFIG_KEY)
+        setPreferredStorageBackend(backend)
+        setStorageBackend(backend)
+        tabSyncRef.current?.post({ type: "storage-changed" })
+        console.log("🗄️ Storage backend switched:", { from: storageAdapter.backend, to: backend })
+      } catch (error) {
+        console.error("❌ Failed to switch storage backend:", error)
+        alert(
+          `Failed to move your library to ${backend}. Your data is still stored in ${storageAdapter.backend}.` +
+            (backend === "localStorage" ? "\n\nlocalStorage is limited to roughly 5-10 MB by the browser." : ""),
+        )
+      } finally {
+        setSwitchingStorage(false)
+      }
+    },
+    [
+      storageAdapter,
+      libraryStore,
+      snapshotStore,
+      archiveStore,
+      articles,
+      highlightData,
+      storageCodec,
+      encryptionKey,
+      encryptionConfig,
+    ],
+  )
+
+  const unlockLibrary = useCallback(async () => {
+    if (!encryptionConfig || !unlockPassphrase) return
+
+    setUnlocking(true)
+    setUnlockError(null)
+    try {
+      const key = await unlockEncryptionKey(encryptionConfig, unlockPassphrase)
+      if (!key) {
+        setUnlockError("Incorrect passphrase.")
+        return
+      }
+      setUnlockPassphrase("")
+      // A new key recreates the library store, which reloads the cache
+      setEncryptionKey(key)
+      console.log("🔓 Library unlocked")
+    } catch (error) {
+      console.error("❌ Failed to unlock library:", error)
+      setUnlockError("Could not unlock the library in this browser.")
+    } finally {
+      setUnlocking(false)
+    }
+  }, [encryptionConfig, unlockPassphrase])
+
+  // Drops the key and all decrypted data from memory
+  const lockLibrary = useCallback(() => {
+    if (!encryptionConfig) return
+
+    setEncryptionKey(null)
+    setArticles([])
+    setHighlightData([])
+    setCacheInfo(null)
+    setPendingImport(null)
+    setReaderContent(null)
+    setUndoStack([])
+    setRedoStack([])
+    setShowCacheMenu(false)
+    setEncryptionForm(null)
+    // Reconciled again with the server once unlocked
+    setServerSyncReady(false)
+    serverReconcilingRef.current = false
+    serverSyncedRef.current = null
+    console.log("🔒 Library locked")
+  }, [encryptionConfig])
+
+  const resetEncryptionForm = useCallback(() => {
+    setEncryptionForm(null)
+    setPassphraseInput("")
+    setPassphraseConfirm("")
+  }, [])
+
+  // Snapshots that could not be re-keyed are left in place rather than deleted
+  const reportKeptSnapshots = useCallback((kept: SnapshotInfo[]) => {
+    if (kept.length === 0) return
+    alert(
+      `${kept.length} snapshot(s) could not be re-encrypted and were kept as they were, so they may not open ` +
+        `anymore: ${kept.map((info) => info.label).join(", ")}. You can delete them from the snapshot list.`,
+    )
+  }, [])
 
-  const clearCache = useCallback(() => {
+  // Rewrites the library, snapshots and offline copies under `key` (null stores them in plain
+  // text), then the encryption config. Entries are rewritten in place, so when any step fails
+  // they are all written back as they were; `restored` tells whether that worked.
+  const rekeyStoredData = useCallback(
+    async (
+      key: CryptoKey | null,
+      config: EncryptionConfig | null,
+    ): Promise<{ ok: true; keptSnapshots: SnapshotInfo[] } | { ok: false; restored: boolean }> => {
+      if (!storageAdapter || !libraryStore) return { ok: false, restored: true }
+
+      await saveQueueRef.current
+      const restore = await backupEntries(storageAdapter, [
+        ENCRYPTION_CONFIG_KEY,
+        ...(await libraryStore.keys()),
+        ...((await snapshotStore?.keys()) ?? []),
+        ...((await archiveStore?.keys()) ?? []),
+      ])
+      try {
+        const rekeyed = createLibraryStore(storageAdapter, CACHE_KEY, { encryptionKey: key })
+        await rekeyed.save(
+          { articles, highlightData, timestamp: Date.now() },
+          { codec: storageCodec, fullRewrite: true },
+        )
+        const keptSnapshots = (await snapshotStore?.rekey(key)) ?? []
+        await archiveStore?.rekey(key)
+        // Written last: until then the stored config still matches whatever is stored
+        if (config) {
+          await storageAdapter.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(config))
+        } else {
+          await storageAdapter.removeItem(ENCRYPTION_CONFIG_KEY)
+        }
+        return { ok: true, keptSnapshots }
+      } catch (error) {
+        console.error("❌ Failed to re-encrypt stored data, restoring it:", error)
+        try {
+          await restore()
+          return { ok: false, restored: true }
+        } catch (restoreError) {
+          console.error("❌ Failed to restore stored data:", restoreError)
+          return { ok: false, restored: false }
+        }
+      }
+    },
+    [storageAdapter, libraryStore, snapshotStore, archiveStore, articles, highlightData, storageCodec],
+  )
+
+  // Nothing stored can be trusted anymore, but the library is still open in this tab
+  const reportUnrestoredData = useCallback(() => {
+    alert(
+      "Failed to update encryption, and the stored library could not be put back as it was. " +
+        "Keep this tab open and download a backup before reloading the page.",
+    )
+  }, [])
+
+  // Encrypts the library with a new passphrase; also used to re-key an encrypted library
+  const applyNewPassphrase = useCallback(async () => {
+    if (!storageAdapter) return
+    if (passphraseInput.length < MIN_PASSPHRASE_LENGTH) {
+      alert(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`)
+      return
+    }
+    if (passphraseInput !== passphraseConfirm) {
+      alert("Passphrases do not match.")
+      return
+    }
+
+    setUpdatingEncryption(true)
+    try {
+      const { config, key } = await createEncryptionConfig(passphraseInput)
+      const result = await rekeyStoredData(key, config)
+      if (!result.ok) {
+        if (result.restored) {
+          alert("Failed to update encryption. Your library was not changed.")
+        } else {
+          reportUnrestoredData()
+        }
+        return
+      }
+
+      setEncryptionConfig(config)
+      setEncryptionKey(key)
+      resetEncryptionForm()
+      tabSyncRef.current?.post({ type: "encryption-changed" })
+      console.log(encryptionConfig ? "🔑 Library re-keyed" : "🔒 Library encrypted")
+      reportKeptSnapshots(result.keptSnapshots)
+    } catch (error) {
+      // Thrown before anything was rewritten
+      console.error("❌ Failed to update encryption:", error)
+      alert("Failed to update encryption. Your library was not changed.")
+    } finally {
+      setUpdatingEncryption(false)
+    }
+  }, [
+    storageAdapter,
+    passphraseInput,
+    passphraseConfirm,
+    encryptionConfig,
+    rekeyStoredData,
+    reportUnrestoredData,
+    resetEncryptionForm,
+    reportKeptSnapshots,
+  ])
+
+  const removeEncryption = useCallback(async () => {
+    if (!storageAdapter || !encryptionConfig) return
+    if (!confirm("Remove encryption? Your library will be stored as readable data in this browser.")) return
+
+    setUpdatingEncryption(true)
+    try {
+      const result = await rekeyStoredData(null, null)
+      if (!result.ok) {
+        if (result.restored) {
+          alert("Failed to remove encryption. Your library is still encrypted.")
+        } else {
+          reportUnrestoredData()
+        }
+        return
+      }
+
+      setEncryptionConfig(null)
+      setEncryptionKey(null)
+      resetEncryptionForm()
+      tabSyncRef.current?.post({ type: "encryption-changed" })
+      console.log("🔓 Encryption removed")
+      reportKeptSnapshots(result.keptSnapshots)
+    } catch (error) {
+      // Thrown before anything was rewritten
+      console.error("❌ Failed to remove encryption:", error)
+      alert("Failed to remove encryption. Your library is still encrypted.")
+    } finally {
+      setUpdatingEncryption(false)
+    }
+  }, [
+    storageAdapter,
+    encryptionConfig,
+    rekeyStoredData,
+    reportUnrestoredData,
+    resetEncryptionForm,
+    reportKeptSnapshots,
+  ])
+
+  // Re-encodes the stored library with another codec; the store rewrites every entry on a codec switch
+  const changeCompressionCodec = useCallback(
+    (codec: CodecId) => {
+      setPreferredCodec(codec)
+      setCompressionCodec(codec)
+      if (articles.length > 0 || highlightData.length > 0) {
+        // saveToCache already reports failures to the user
+        saveQueueRef.current = saveQueueRef.current
+          .then(() => saveToCache(articles, highlightData, false, useCompression ? codec : null))
+          .catch(() => {})
+      }
+    },
+    [articles, highlightData, saveToCache, useCompression],
+  )
+
+  // Compresses the current library with every available codec for the comparison in the cache menu
+  const compareCodecs = useCallback(async () => {
+    if (!storageAdapter) return
+
+    setBenchmarkingCodecs(true)
+    try {
+      const results = await benchmarkCodecs(
+        { articles, highlightData, timestamp: Date.now() },
+        storageAdapter.supportsBinary,
+      )
+      setCodecBenchmark(results)
+      console.log("🗜️ Codec comparison:", results)
+    } catch (error) {
+      console.error("❌ Codec comparison failed:", error)
+    } finally {
+      setBenchmarkingCodecs(false)
+    }
+  }, [storageAdapter, articles, highlightData])
+
+  // SECURITY: Auto-lock an unlocked encrypted library after a period of inactivity
+  useEffect(() => {
+    if (!encryptionKey) return
+
+    let timeoutId = setTimeout(lockLibrary, AUTO_LOCK_MS)
+    const resetTimer = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(lockLibrary, AUTO_LOCK_MS)
+    }
+
+    const events = ["mousemove", "keydown", "click", "scroll", "touchstart"]
+    events.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }))
+    return () => {
+      clearTimeout(timeoutId)
+      events.forEach((event) => window.removeEventListener(event, resetTimer))
+    }
+  }, [encryptionKey, lockLibrary])
+
+  // Downloads the stored entries verbatim so a library that failed to migrate is never lost
+  const downloadRawBackup = useCallback(() => {
+    if (!schemaError) return
+
+    const blob = new Blob([JSON.stringify(schemaError.raw, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `mypocket-reader-raw-backup-${new Date().toISOString().split("T")[0]}.json`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }, [schemaError])
+
+  // Remembers the current library so the change about to be made can be undone
+  const recordOperation = useCallback(
+    (label: string) => {
+      setUndoStack((prev) => [...prev, { label, articles, highlightData }].slice(-MAX_UNDO_HISTORY))
+      setRedoStack([])
+    },
+    [articles, highlightData],
+  )
+
+  // Swaps in a whole library state (undo, redo, snapshot restore) and persists it
+  const applyLibraryState = useCallback(
+    async (nextArticles: Article[], nextHighlights: ArticleWithHighlights[]) => {
+      setEditingTitle(null)
+      setAddingHighlight(null)
+
+      if (nextArticles.length === 0 && nextHighlights.length === 0) {
+        // The save effect skips an empty library, so remove the stored copy directly
+        setArticles([])
+        setHighlightData([])
+        setCacheInfo(null)
+        setShowUploadSection(true)
+        await saveQueueRef.current
+        await libraryStore?.clear()
+        tabSyncRef.current?.post({ type: "library-cleared" })
+        return
+      }
+
+      // Rewrite the whole library; the save effect then tells other tabs to reload it
+      fullRewriteRef.current = true
+      setArticles(nextArticles)
+      setHighlightData(nextHighlights)
+    },
+    [libraryStore],
+  )
+
+  const undo = useCallback(() => {
+    const entry = undoStack[undoStack.length - 1]
+    if (!entry) return
+
+    setUndoStack((prev) => prev.slice(0, -1))
+    setRedoStack((prev) => [...prev, { label: entry.label, articles, highlightData }])
+    applyLibraryState(entry.articles, entry.highlightData)
+    console.log("↩️ Undid:", entry.label)
+  }, [undoStack, articles, highlightData, applyLibraryState])
+
+  const redo = useCallback(() => {
+    const entry = redoStack[redoStack.length - 1]
+    if (!entry) return
+
+    setRedoStack((prev) => prev.slice(0, -1))
+    setUndoStack((prev) => [...prev, { label: entry.label, articles, highlightData }])
+    applyLibraryState(entry.articles, entry.highlightData)
+    console.log("↪️ Redid:", entry.label)
+  }, [redoStack, articles, highlightData, applyLibraryState])
+
+  // Ctrl/Cmd+Z undoes the last library change, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      // Text fields keep their native undo
+      const target = e.target as HTMLElement | null
+      if (target?.tagName === "INPUT" || target?.tagName === "TEXTAREA" || target?.isContentEditable) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+
+  // Saves a restorable copy of the library before a destructive change.
+  // Resolves false when the snapshot failed and the user chose not to go ahead without it.
+  const takeSnapshot = useCallback(
+    async (label: string): Promise<boolean> => {
+      if (!snapshotStore || (articles.length === 0 && highlightData.length === 0)) return true
+
+      try {
+        await snapshotStore.create(label, { articles, highlightData, timestamp: Date.now() }, snapshotRetention)
+        setSnapshots(await snapshotStore.list())
+        return true
+      } catch (error) {
+        console.error("❌ Failed to create snapshot:", error)
+        return confirm("Could not save a snapshot of your library first. Continue anyway?")
+      }
+    },
+    [snapshotStore, articles, highlightData, snapshotRetention],
+  )
+
+  const restoreSnapshot = useCallback(
+    async (id: string) => {
+      const info = snapshots.find((snapshot) => snapshot.id === id)
+      if (!snapshotStore || !info) return
+      if (!confirm(`Replace your library with the snapshot "${info.label}"? You can undo this with Ctrl+Z.`)) return
+
+      setRestoringSnapshot(id)
+      try {
+        const stored = await snapshotStore.load(id)
+        const { data } = migrateLibrary(stored, info.schemaVersion ?? CURRENT_SCHEMA_VERSION)
+        recordOperation("snapshot restore")
+        await applyLibraryState(data.articles, data.highlightData)
+        setShowCacheMenu(false)
+        console.log("📸 Snapshot restored:", info.label)
+      } catch (error) {
+        console.error("❌ Failed to restore snapshot:", error)
+        alert("Failed to restore the snapshot. Your library was not changed.")
+      } finally {
+        setRestoringSnapshot(null)
+      }
+    },
+    [snapshots, snapshotStore, recordOperation, applyLibraryState],
+  )
+
+  const deleteSnapshot = useCallback(
+    async (id: string) => {
+      if (!snapshotStore) return
+      try {
+        await snapshotStore.remove(id)
+        setSnapshots(await snapshotStore.list())
+      } catch (error) {
+        console.error("❌ Failed to delete snapshot:", error)
+      }
+    },
+    [snapshotStore],
+  )
+
+  const changeSnapshotRetention = useCallback(
+    async (retention: number) => {
+      setSnapshotRetention(retention)
+      setSnapshotRetentionState(retention)
+      if (!snapshotStore) return
+      try {
+        await snapshotStore.prune(retention)
+        setSnapshots(await snapshotStore.list())
+      } catch (error) {
+        console.error("❌ Failed to prune snapshots:", error)
+      }
+    },
+    [snapshotStore],
+  )
+
+  // Lists the stored snapshots; re-read whenever the cache menu opens so other tabs' snapshots show up
+  useEffect(() => {
+    if (!snapshotStore || isLocked) {
+      setSnapshots([])
+      return
+    }
+
+    let cancelled = false
+    snapshotStore
+      .list()
+      .then((list) => {
+        if (!cancelled) setSnapshots(list)
+      })
+      .catch((error) => console.error("❌ Failed to list snapshots:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [snapshotStore, isLocked, showCacheMenu])
+
+  // Which articles have an offline copy; the copies themselves are only read when opened
+  const refreshArchiveIndex = useCallback(async () => {
+    if (!archiveStore || isLocked) {
+      setArchiveIndex(new Map())
+      return
+    }
+    try {
+      const list = await archiveStore.list()
+      setArchiveIndex(new Map(list.map((info) => [archiveKey(info.url), info])))
+    } catch (error) {
+      console.error("❌ Failed to list offline copies:", error)
+    }
+  }, [archiveStore, isLocked])
+
+  useEffect(() => {
+    refreshArchiveIndex()
+  }, [refreshArchiveIndex])
+
+  // Empties the library but keeps its encryption and snapshots, so the clear can be undone or restored
+  const clearCache = useCallback(async () => {
     if (!showClearCacheConfirm) {
       setShowClearCacheConfirm(true)
       return
     }
 
+    if (!(await takeSnapshot("Before clearing the library"))) {
+      setShowClearCacheConfirm(false)
+      return
+    }
+
     try {
-      localStorage.removeItem(CACHE_KEY)
+      await saveQueueRef.current
+      await libraryStore?.clear()
+      recordOperation("clear")
+      tabSyncRef.current?.post({ type: "library-cleared" })
+      setSchemaError(null)
       setArticles([])
       setHighlightData([])
       setCacheInfo(null)
@@ -414,6 +1221,7 @@ export default function PocketImporter() {
       setShowHighlightsOnly(false)
       setShowReadOnly(false)
       setShowUnreadOnly(false)
+      setShowBrokenOnly(false)
       setSortBy("default")
       setCurrentPage(1)
       setFetchingTitles(new Set())
@@ -432,15 +1240,253 @@ export default function PocketImporter() {
     } catch (error) {
       console.error("❌ Failed to clear cache:", error)
     }
-  }, [showClearCacheConfirm])
+  }, [showClearCacheConfirm, takeSnapshot, libraryStore, recordOperation])
 
-  const downloadCachedData = useCallback(async () => {
-    if (articles.length === 0) return
+  const updateServerSync = useCallback((settings: ServerSyncSettings) => {
+    setServerSyncState(settings)
+    try {
+      setServerSyncSettings(settings)
+    } catch (error) {
+      console.warn("☁️ Could not save server sync settings:", error)
+    }
+  }, [])
+
+  // Sends this browser's library to the server: the records that changed since the last sync,
+  // or the whole library for the first copy and when a conflict is settled (`force`). Settings
+  // are read fresh since another tab may have synced since this one rendered.
+  const pushToServer = useCallback(
+    async (library: ServerLibrary, force = false) => {
+      const settings = getServerSyncSettings()
+      if (!settings.enabled) return
+
+      setServerSyncStatus({ state: "syncing" })
+      const synced = serverSyncedRef.current
+      const result =
+        synced && !force
+          ? await pushChanges(settings.token, synced, library, {
+              baseRevision: settings.revision,
+              ids: serverIdsRef.current,
+            })
+          : await pushLibrary(settings.token, library, { baseRevision: settings.revision, force })
+      if (result.ok) {
+        serverSyncedRef.current = library
+        serverIdsRef.current = result.ids
+        updateServerSync({ ...settings, revision: result.revision, dirty: false })
+        setServerSyncStatus({ state: "idle", syncedAt: Date.now() })
+        console.log("☁️ Library sent to server:", { revision: result.revision, articles: library.articles.length })
+        return
+      }
+      if (result.conflict) {
+        // Another tab may already have sent the same changes
+        const latest = await pullLibrary(settings.token)
+        if (latest.ok && sameLibrary(latest.library, library)) {
+          serverSyncedRef.current = library
+          serverIdsRef.current = latest.ids
+          updateServerSync({ ...settings, revision: latest.revision, dirty: false })
+          setServerSyncStatus({ state: "idle", syncedAt: Date.now() })
+          return
+        }
+        setServerSyncStatus({ state: "conflict", message: "The library on the server changed since this browser last synced." })
+        return
+      }
+      if (result.reached !== undefined) {
+        // Part of the changes got through; the next push sends the whole library on top of them
+        serverSyncedRef.current = null
+        updateServerSync({ ...settings, revision: result.reached, dirty: true })
+      }
+      console.warn("☁️ Server sync failed:", result.error)
+      setServerSyncStatus({ state: "error", message: result.error })
+    },
+    [updateServerSync],
+  )
+
+  // Swaps in the server's library; a snapshot of this browser's is kept first
+  const applyServerLibrary = useCallback(
+    async ({ library, revision, ids, skipped }: Extract<PullResult, { ok: true }>) => {
+      if (!(await takeSnapshot("Before loading the library from the server"))) return
+      recordOperation("load from server")
+      serverSyncedRef.current = library
+      serverIdsRef.current = ids
+      await applyLibraryState(library.articles, library.highlightData)
+      updateServerSync({ ...getServerSyncSettings(), revision, dirty: false })
+      setServerSyncStatus({ state: "idle", syncedAt: Date.now() })
+      console.log("☁️ Library loaded from server:", { revision, articles: library.articles.length })
+      if (skipped > 0) {
+        alert(
+          `${skipped} record${skipped === 1 ? "" : "s"} on the server could not be read by this app and ${
+            skipped === 1 ? "was" : "were"
+          } left out of this browser's library.`,
+        )
+      }
+    },
+    [takeSnapshot, recordOperation, applyLibraryState, updateServerSync],
+  )
+
+  // Brings this browser's library and the server's together: takes the server's when only it
+  // changed, sends this one when only it changed, and leaves the choice to the user when both did
+  const reconcileWithServer = useCallback(
+    async (local: ServerLibrary, pulled?: PullResult) => {
+      const settings = getServerSyncSettings()
+      setServerSyncStatus({ state: "syncing" })
+      const result = pulled ?? (await pullLibrary(settings.token))
+      if (!result.ok) {
+        console.warn("☁️ Could not fetch the library from the server:", result.error)
+        setServerSyncStatus({ state: "error", message: result.error })
+        return
+      }
+
+      const localEmpty = local.articles.length === 0 && local.highlightData.length === 0
+      const serverEmpty = result.library.articles.length === 0 && result.library.highlightData.length === 0
+      if (result.revision === settings.revision) {
+        if (settings.dirty) {
+          // The server still has what this browser last synced, so only the changes go over.
+          // A library that was never synced (revision 0) is copied whole.
+          if (result.revision > 0) {
+            serverSyncedRef.current = result.library
+            serverIdsRef.current = result.ids
+          }
+          await pushToServer(local)
+        } else {
+          serverSyncedRef.current = local
+          serverIdsRef.current = result.ids
+          setServerSyncStatus({ state: "idle", syncedAt: Date.now() })
+        }
+      } else if (sameLibrary(result.library, local)) {
+        serverSyncedRef.current = local
+        serverIdsRef.current = result.ids
+        updateServerSync({ ...settings, revision: result.revision, dirty: false })
+        setServerSyncStatus({ state: "idle", syncedAt: Date.now() })
+      } else if (!settings.dirty || localEmpty) {
+        await applyServerLibrary(result)
+      } else if (serverEmpty) {
+        updateServerSync({ ...settings, revision: result.revision })
+        await pushToServer(local)
+      } else {
+        setServerSyncStatus({ state: "conflict", message: "This browser and the server both have changes." })
+      }
+    },
+    [pushToServer, applyServerLibrary, updateServerSync],
+  )
+
+  const connectServerSync = useCallback(async () => {
+    const token = serverTokenInput.trim()
+    if (!token) return
+    if (
+      encryptionConfig &&
+      !confirm("Your library is encrypted in this browser, but the server stores it without encryption. Sync anyway?")
+    ) {
+      return
+    }
+
+    setConnectingServer(true)
+    try {
+      // Checks the token before anything is stored
+      const pulled = await pullLibrary(token)
+      if (!pulled.ok) {
+        alert(`Could not connect to the server: ${pulled.error}`)
+        return
+      }
+      updateServerSync({
+        enabled: true,
+        token,
+        account: "",
+        revision: 0,
+        dirty: articles.length > 0 || highlightData.length > 0,
+      })
+      setServerTokenInput("")
+      setShowServerSyncForm(false)
+      serverReconcilingRef.current = true
+      await reconcileWithServer({ articles, highlightData }, pulled)
+      setServerSyncReady(true)
+    } finally {
+      setConnectingServer(false)
+    }
+  }, [serverTokenInput, encryptionConfig, articles, highlightData, updateServerSync, reconcileWithServer])
+
+  // The library stays in this browser; the server's copy is left as it is
+  const disconnectServerSync = useCallback(() => {
+    updateServerSync(DEFAULT_SERVER_SYNC)
+    setServerSyncStatus({ state: "idle" })
+    setServerSyncReady(false)
+    serverReconcilingRef.current = false
+    serverSyncedRef.current = null
+  }, [updateServerSync])
+
+  // Settles a conflict by taking the server's library or overwriting it with this browser's
+  const resolveServerConflict = useCallback(
+    async (keep: "server" | "local") => {
+      if (keep === "local") {
+        await pushToServer({ articles, highlightData }, true)
+        return
+      }
+      const result = await pullLibrary(getServerSyncSettings().token)
+      if (!result.ok) {
+        setServerSyncStatus({ state: "error", message: result.error })
+        return
+      }
+      await applyServerLibrary(result)
+    },
+    [articles, highlightData, pushToServer, applyServerLibrary],
+  )
+
+  // Syncs with the signed-in account's library. This browser's library counts as unsent, so
+  // on a new account it is copied over; an account that already has one is reconciled with it.
+  const syncWithAccount = useCallback(
+    (email: string) => {
+      const current = getServerSyncSettings()
+      updateServerSync({
+        enabled: true,
+        token: "",
+        account: email,
+        revision: current.account === email ? current.revision : 0,
+        dirty: true,
+      })
+      setServerSyncStatus({ state: "idle" })
+      setServerSyncReady(false)
+      serverReconcilingRef.current = false
+      serverSyncedRef.current = null
+    },
+    [updateServerSync],
+  )
+
+  const sendSignInLink = useCallback(async () => {
+    const email = signInEmail.trim()
+    if (!email) return
+    if (
+      encryptionConfig &&
+      !confirm("Your library is encrypted in this browser, but your account stores it without encryption. Continue?")
+    ) {
+      return
+    }
+
+    setSignInState("sending")
+    const result = await requestMagicLink(email)
+    if (!result.ok) {
+      setSignInState("idle")
+      alert(`Could not send the sign-in link: ${result.error}`)
+      return
+    }
+    setSignInState("sent")
+    setShowSignInForm(false)
+  }, [signInEmail, encryptionConfig])
+
+  // Signing out stops syncing with the account; the library stays in this browser
+  const signOutAccount = useCallback(async () => {
+    await signOut()
+    setAccount((current) => current && { ...current, email: null })
+    setSignInState("idle")
+    if (getServerSyncSettings().account) disconnectServerSync()
+    console.log("☁️ Signed out")
+  }, [disconnectServerSync])
+
+  // The export functions take the scope chosen in the cache menu: library, filtered view or selection
+  const downloadCachedData = useCallback(async (scope: ExportScope) => {
+    if (scope.articles.length === 0) return
 
     try {
       // Create CSV content from articles
       const csvHeaders = ["title", "url", "time_added", "tags", "status"]
-      const csvRows = articles.map((article) => [
+      const csvRows = scope.articles.map((article) => [
         article.title || "",
         article.url || "",
         article.time_added.toString(),
@@ -454,21 +1500,24 @@ export default function PocketImporter() {
       })
 
       // Create JSON content from highlights (matching original format)
-      const jsonContent = JSON.stringify(highlightData, null, 2)
+      const jsonContent = JSON.stringify(scope.highlightData, null, 2)
 
       // Create ZIP file
       const zip = new JSZip()
       zip.file("articles.csv", csvContent)
-      if (highlightData.length > 0) {
+      if (scope.highlightData.length > 0) {
         zip.file("highlights.json", jsonContent)
       }
+      if (scope.kind !== "library") {
+        zip.file("export-info.md", exportInfoMarkdown(scope))
+      }
 
       // Generate and download ZIP
       const zipBlob = await zip.generateAsync({ type: "blob" })
       const url = URL.createObjectURL(zipBlob)
       const link = document.createElement("a")
       link.href = url
-      link.download = `mypocket-reader-export-${new Date().toISOString().split("T")[0]}.zip`
+      link.download = `mypocket-reader-export${exportFileSuffix(scope)}-${new Date().toISOString().split("T")[0]}.zip`
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
@@ -477,7 +1526,114 @@ export default function PocketImporter() {
       console.error("Failed to download cached data:", error)
       alert("Failed to download data. Please try again.")
     }
-  }, [articles, highlightData])
+  }, [])
+
+  // Lossless backup of the library and preferences, restorable from the upload section
+  const downloadBackup = useCallback(
+    (scope: ExportScope) => {
+      if (scope.articles.length === 0 && scope.highlightData.length === 0) return
+
+      try {
+        const backup = createBackup(
+          { articles: scope.articles, highlightData: scope.highlightData, timestamp: Date.now() },
+          {
+            itemsPerPage,
+            sortBy,
+            showUploadSection,
+            showFilters,
+            showStats,
+            showStatsStrip,
+            useCompression,
+            compressionCodec,
+            snapshotRetention,
+            importMode,
+            uploadMode,
+          },
+          createExportInfo(scope),
+        )
+        const blob = new Blob([JSON.stringify(backup)], { type: "application/json" })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement("a")
+        link.href = url
+        link.download = `mypocket-reader-backup${exportFileSuffix(scope)}-${new Date().toISOString().split("T")[0]}${BACKUP_FILE_EXTENSION}`
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        URL.revokeObjectURL(url)
+      } catch (error) {
+        console.error("Failed to download backup:", error)
+        alert("Failed to download backup. Please try again.")
+      }
+    },
+    [
+      itemsPerPage,
+      sortBy,
+      showUploadSection,
+      showFilters,
+      showStats,
+      showStatsStrip,
+      useCompression,
+      compressionCodec,
+      snapshotRetention,
+      importMode,
+      uploadMode,
+    ],
+  )
+
+  // Zips a Markdown vault for Obsidian or Logseq: a note per article and an index note per tag
+  const downloadMarkdownVault = useCallback(
+    async (scope: ExportScope) => {
+      const files = buildMarkdownVault(scope.articles, scope.highlightData, { highlightsOnly: vaultHighlightsOnly })
+      if (files.length === 0) {
+        alert("No articles to export.")
+        return
+      }
+
+      try {
+        const zip = new JSZip()
+        files.forEach((file) => zip.file(file.path, file.content))
+        if (scope.kind !== "library") {
+          zip.file("export-info.md", exportInfoMarkdown(scope))
+        }
+
+        const zipBlob = await zip.generateAsync({ type: "blob" })
+        const url = URL.createObjectURL(zipBlob)
+        const link = document.createElement("a")
+        link.href = url
+        link.download = `mypocket-reader-vault${exportFileSuffix(scope)}-${new Date().toISOString().split("T")[0]}.zip`
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        URL.revokeObjectURL(url)
+      } catch (error) {
+        console.error("Failed to download Markdown vault:", error)
+        alert("Failed to download Markdown vault. Please try again.")
+      }
+    },
+    [vaultHighlightsOnly],
+  )
+
+  // Writes articles as a browser bookmarks file: tags become folders and favorites get their own folder.
+  // A partial export names its scope in the file's title.
+  const downloadBookmarks = useCallback((scope: ExportScope) => {
+    if (scope.articles.length === 0) return
+
+    try {
+      const title = scope.kind === "library" ? undefined : `MyPocket Reader: ${describeExportScope(scope)}`
+      const blob = new Blob([buildBookmarksHTML(scope.articles, title)], { type: "text/html;charset=utf-8" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `mypocket-reader-bookmarks${exportFileSuffix(scope)}-${new Date().toISOString().split("T")[0]}.html`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error("Failed to download bookmarks:", error)
+      alert("Failed to export bookmarks. Please try again.")
+    }
+  }, [])
 
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return "0 Bytes"
@@ -487,6 +1643,18 @@ export default function PocketImporter() {
     return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
   }
 
+  // Status line for the running import, e.g. "Parsing part_000001.csv: 12,000 rows"
+  const describeImportProgress = (progress: ImportJobProgress) => {
+    switch (progress.phase) {
+      case "reading":
+        return `Reading ${progress.fileName}: ${formatBytes(progress.completed)} of ${formatBytes(progress.total)}`
+      case "unzipping":
+        return `Unzipping ${progress.fileName} (${Math.min(Math.floor(progress.completed) + 1, progress.total)} of ${progress.total})`
+      case "parsing":
+        return `Parsing ${progress.fileName}: ${progress.rowsParsed.toLocaleString()} rows`
+    }
+  }
+
   const formatCacheDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString("en-US", {
       year: "numeric",
@@ -497,12 +1665,52 @@ export default function PocketImporter() {
     })
   }
 
-  // Load cached data on component mount
+  // Resolve the storage backend on mount
+  useEffect(() => {
+    setStorageBackend(getPreferredStorageBackend())
+    setCompressionCodec(getPreferredCodec())
+    setAvailableCodecs(getAvailableCodecs())
+    setSnapshotRetentionState(getSnapshotRetention())
+    setReaderPreferencesState(getReaderPreferences())
+    setServerSyncState(getServerSyncSettings())
+    getAccount().then(setAccount)
+  }, [])
+
+  // Completes the sign-in when the app is opened from an emailed link
   useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get(SIGN_IN_PARAM)
+    if (!token) return
+
+    // The token works once; it is taken out of the address bar and history right away
+    const url = new URL(window.location.href)
+    url.searchParams.delete(SIGN_IN_PARAM)
+    window.history.replaceState(null, "", url)
+
+    completeSignIn(token).then((result) => {
+      if (!result.ok) {
+        alert(`Could not sign in: ${result.error}`)
+        return
+      }
+      const { email } = result.value
+      setAccount({ enabled: true, email })
+      syncWithAccount(email)
+      console.log(`☁️ Signed in as ${email}`)
+    })
+  }, [syncWithAccount])
+
+  // Load cached data once the storage backend is known
+  useEffect(() => {
+    if (!storageAdapter) return
+
+    let cancelled = false
     setIsLoadingFromCache(true)
-    const hasCache = loadFromCache()
-    setIsLoadingFromCache(false)
-  }, [loadFromCache])
+    loadFromCache().finally(() => {
+      if (!cancelled) setIsLoadingFromCache(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [loadFromCache, storageAdapter])
 
   // Save to cache whenever articles or highlights change - with improved debugging
   useEffect(() => {
@@ -514,203 +1722,458 @@ export default function PocketImporter() {
 
       // Use a small delay to batch rapid updates
       const timeoutId = setTimeout(() => {
-        saveToCache(articles, highlightData)
+        const fullRewrite = fullRewriteRef.current
+        fullRewriteRef.current = false
+        // saveToCache already reports failures to the user
+        saveQueueRef.current = saveQueueRef.current
+          .then(() => saveToCache(articles, highlightData, fullRewrite))
+          .then(() => {
+            // Other tabs reload whole-library changes once they are on disk
+            if (fullRewrite) tabSyncRef.current?.post({ type: "library-replaced" })
+          })
+          .catch(() => {})
       }, 100)
 
       return () => clearTimeout(timeoutId)
     }
   }, [articles, highlightData, saveToCache])
 
-  const parseTagsAndFavorites = useCallback((tagString: string) => {
-    if (!tagString) return { tags: [], isFavorite: false }
+  // Reconciles with the server once the library has loaded from this browser
+  useEffect(() => {
+    if (!serverSync.enabled || isLoadingFromCache || isLocked || schemaError || serverReconcilingRef.current) return
 
-    const tagParts = tagString
-      .split("|")
-      .map((tag) => tag.trim())
-      .filter(Boolean)
+    serverReconcilingRef.current = true
+    reconcileWithServer({ articles, highlightData }).finally(() => setServerSyncReady(true))
+  }, [
+    serverSync.enabled,
+    serverSync.account,
+    isLoadingFromCache,
+    isLocked,
+    schemaError,
+    articles,
+    highlightData,
+    reconcileWithServer,
+  ])
 
-    // Check for both "*" and "***" as favorite indicators
-    const isFavorite = tagParts.includes("*") || tagParts.includes("***")
-    const tags = tagParts.filter((tag) => tag !== "*" && tag !== "***")
+  // Sends changes to the server once they settle, after they are saved in this browser
+  useEffect(() => {
+    if (!serverSync.enabled || !serverSyncReady || serverSyncStatus.state === "conflict") return
+    const synced = serverSyncedRef.current
+    if (synced && synced.articles === articles && synced.highlightData === highlightData) return
+
+    const settings = getServerSyncSettings()
+    if (!settings.dirty) updateServerSync({ ...settings, dirty: true })
+    const timeoutId = setTimeout(() => {
+      saveQueueRef.current = saveQueueRef.current.then(() => pushToServer({ articles, highlightData })).catch(() => {})
+    }, SERVER_SYNC_DELAY_MS)
+    return () => clearTimeout(timeoutId)
+  }, [articles, highlightData, serverSync.enabled, serverSyncReady, serverSyncStatus.state, pushToServer, updateServerSync])
+
+  // Parses the older Pocket ril_export.html: <h1> section headings ("Unread", "Read Archive"),
+  // each followed by a list of <a href time_added tags> entries
+  const parsePocketHTML = useCallback(
+    (html: string): CSVParseResult => {
+      // SECURITY: Let DOMPurify build the DOM so scripts, handlers and unknown markup never survive parsing
+      const fragment = DOMPurify.sanitize(html, {
+        ALLOWED_TAGS: ["h1", "h2", "h3", "ul", "ol", "li", "a"],
+        ALLOWED_ATTR: ["href", "time_added", "tags"],
+        ALLOW_DATA_ATTR: false,
+        ALLOW_UNKNOWN_PROTOCOLS: false,
+        ALLOWED_URI_REGEXP: /^https?:\/\//i,
+        RETURN_DOM_FRAGMENT: true,
+      })
 
-    return { tags, isFavorite }
-  }, [])
+      const stats = emptyParseStats()
+      const log = createRejectionLog(stats)
+      const parsedArticles: Article[] = []
+      let status = "unread"
 
-  const parseCSV = useCallback(
-    (csvText: string): Article[] => {
-      try {
-        const result = Papa.parse(csvText, {
-          header: true,
-          skipEmptyLines: true,
-          transformHeader: (header: string) => header.trim(),
-          transform: (value: string) => value.trim(),
-        })
+      fragment.querySelectorAll("h1, h2, h3, a").forEach((element) => {
+        if (element.tagName !== "A") {
+          // Everything after the "Read Archive" heading has been read
+          status = /archive|^read\b/i.test(element.textContent?.trim() || "") ? "read" : "unread"
+          return
+        }
 
-        if (result.errors.length > 0) {
-          console.warn("CSV parsing warnings:", result.errors)
+        stats.totalRows++
+        const rawUrl = element.getAttribute("href") || ""
+        const location = `link ${stats.totalRows}`
+        const record = { title: element.textContent?.trim() || "", url: rawUrl, tags: element.getAttribute("tags") || "" }
+        // DOMPurify has already dropped hrefs with unsafe protocols, so those show up as missing
+        if (!log.validate(htmlLinkSchema, record, location, record)) return
+        const sanitizedUrl = sanitizeUrl(rawUrl)
+        if (!sanitizedUrl) {
+          console.warn("🔒 SECURITY: Skipping article with invalid URL:", rawUrl)
+          log.reject(location, record, UNSAFE_URL_REASON, true)
+          return
         }
 
-        return result.data
-          .map((row: any) => {
-            // SECURITY: Sanitize all user input from CSV to prevent XSS attacks
-            const sanitizedTitle = sanitizeString(row.title || "")
-            const sanitizedUrl = sanitizeUrl(row.url || "")
-            const sanitizedTags = sanitizeString(row.tags || "")
-            const sanitizedStatus = sanitizeString(row.status || "unread")
-            
-            // Skip rows with invalid URLs after sanitization
-            if (!sanitizedUrl && row.url) {
-              console.warn('🔒 SECURITY: Skipping article with invalid URL:', row.url)
-              return null
-            }
-            
-            const { tags, isFavorite } = parseTagsAndFavorites(sanitizedTags)
+        // The HTML export separates tags with commas; the rest of the app uses Pocket's CSV "|" separator
+        const sanitizedTags = sanitizeString(
+          (element.getAttribute("tags") || "")
+            .split(",")
+            .map((tag) => tag.trim())
+            .filter(Boolean)
+            .join("|"),
+        )
+        const { tags, isFavorite } = parseTagsAndFavorites(sanitizedTags)
+
+        parsedArticles.push({
+          title: sanitizeString(element.textContent?.trim() || ""),
+          url: sanitizedUrl,
+          time_added: Number.parseInt(element.getAttribute("time_added") || "") || 0,
+          tags: sanitizedTags,
+          status,
+          isFavorite,
+          parsedTags: tags.map((tag) => sanitizeString(tag)),
+        })
+      })
 
-            // Map Pocket's "archive" status to "read" since archived items are read items in Pocket
-            const mappedStatus = sanitizedStatus === "archive" ? "read" : (sanitizedStatus || "unread")
-            
-            return {
-              title: sanitizedTitle,
-              url: sanitizedUrl,
-              time_added: Number.parseInt(row.time_added) || 0,
-              tags: sanitizedTags,
-              status: mappedStatus,
-              isFavorite,
-              parsedTags: tags.map(tag => sanitizeString(tag)), // Also sanitize individual tags
-            } as Article
-          })
-          .filter((article): article is Article => article !== null && Boolean(article.title || article.url)) // Filter out null and empty rows with proper type guard
-      } catch (error) {
-        console.error("Error parsing CSV with Papa Parse:", error)
-        throw new Error("Failed to parse CSV file. Please check the file format.")
+      if (stats.totalRows === 0) {
+        throw new Error("No Pocket articles found. Expected the ril_export.html file from Pocket.")
       }
+      return { articles: parsedArticles, stats, rejected: log.rejected }
     },
-    [parseTagsAndFavorites],
+    [sanitizeString, sanitizeUrl],
   )
 
-  const handleCSVUpload = useCallback(
-    async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0]
-      if (!file) return
+  // Parses a Netscape bookmarks file (<DL><DT><A>, as exported by Chrome, Firefox and Safari).
+  // Enclosing folders become tags, ADD_DATE becomes time_added and the exporter's Favorites folder marks favorites.
+  const parseBookmarksHTML = useCallback(
+    (html: string): CSVParseResult => {
+      // SECURITY: Same DOMPurify-built DOM as the Pocket HTML export; only the bookmark structure survives
+      const fragment = DOMPurify.sanitize(html, {
+        ALLOWED_TAGS: ["h1", "h3", "dl", "dt", "dd", "p", "a"],
+        ALLOWED_ATTR: ["href", "add_date", "tags", "personal_toolbar_folder", "unfiled_bookmarks_folder"],
+        ALLOW_DATA_ATTR: false,
+        ALLOW_UNKNOWN_PROTOCOLS: false,
+        ALLOWED_URI_REGEXP: /^https?:\/\//i,
+        RETURN_DOM_FRAGMENT: true,
+      })
 
-      setLoading(true)
-      try {
-        const text = await file.text()
-        const parsedArticles = parseCSV(text)
+      const stats = emptyParseStats()
+      const log = createRejectionLog(stats)
+      // The same link can sit in several folders (our exporter writes one folder per tag), so merge by URL
+      const bookmarks = new Map<string, { title: string; timeAdded: number; tagNames: Set<string>; favorite: boolean }>()
+
+      fragment.querySelectorAll("a").forEach((anchor) => {
+        stats.totalRows++
+        const rawUrl = anchor.getAttribute("href") || ""
+        const location = `link ${stats.totalRows}`
+        const record = { title: anchor.textContent?.trim() || "", url: rawUrl, tags: anchor.getAttribute("tags") || "" }
+        // DOMPurify has already dropped hrefs with unsafe protocols, so those show up as missing
+        if (!log.validate(htmlLinkSchema, record, location, record)) return
+        const sanitizedUrl = sanitizeUrl(rawUrl)
+        if (!sanitizedUrl) {
+          console.warn("🔒 SECURITY: Skipping article with invalid URL:", rawUrl)
+          log.reject(location, record, UNSAFE_URL_REASON, true)
+          return
+        }
 
-        if (parsedArticles.length === 0) {
-          throw new Error("No valid articles found in the CSV file.")
+        // Each enclosing <DL> is introduced by its folder's <H3>; the browser's own toolbar and
+        // "other bookmarks" roots are containers rather than topics, so they don't become tags
+        const folders: string[] = []
+        for (let node = anchor.parentElement; node; node = node.parentElement) {
+          const heading = node.tagName === "DL" ? node.previousElementSibling : null
+          if (
+            heading?.tagName === "H3" &&
+            !heading.hasAttribute("personal_toolbar_folder") &&
+            !heading.hasAttribute("unfiled_bookmarks_folder")
+          ) {
+            folders.unshift(heading.textContent?.trim() || "")
+          }
         }
 
-        setArticles(parsedArticles)
-      } catch (error) {
-        console.error("Error parsing CSV:", error)
-        // You could add a toast notification here to show the error to the user
-        alert(`Error parsing CSV: ${error instanceof Error ? error.message : "Unknown error"}`)
-      } finally {
-        setLoading(false)
+        const tagNames = [
+          ...folders.filter((folder) => folder !== BOOKMARKS_FAVORITES_FOLDER),
+          ...(anchor.getAttribute("tags") || "").split(","),
+        ]
+          // "|" separates tags in the stored tag string
+          .map((tag) => tag.replace(/\|/g, "/").trim())
+          .filter(Boolean)
+
+        const existing = bookmarks.get(sanitizedUrl)
+        if (existing) {
+          tagNames.forEach((tag) => existing.tagNames.add(tag))
+          existing.favorite ||= folders.includes(BOOKMARKS_FAVORITES_FOLDER)
+          return
+        }
+        bookmarks.set(sanitizedUrl, {
+          title: anchor.textContent?.trim() || "",
+          timeAdded: Number.parseInt(anchor.getAttribute("add_date") || "") || 0,
+          tagNames: new Set(tagNames),
+          favorite: folders.includes(BOOKMARKS_FAVORITES_FOLDER),
+        })
+      })
+
+      if (stats.totalRows === 0) {
+        throw new Error("No bookmarks found. Expected a bookmarks HTML file exported from a browser.")
       }
+
+      const parsedArticles: Article[] = Array.from(bookmarks, ([url, bookmark]) => {
+        const sanitizedTags = sanitizeString([...bookmark.tagNames, ...(bookmark.favorite ? ["*"] : [])].join("|"))
+        const { tags, isFavorite } = parseTagsAndFavorites(sanitizedTags)
+        return {
+          title: sanitizeString(bookmark.title),
+          url,
+          time_added: bookmark.timeAdded,
+          tags: sanitizedTags,
+          status: "unread",
+          isFavorite,
+          parsedTags: tags.map((tag) => sanitizeString(tag)),
+        }
+      })
+      return { articles: parsedArticles, stats, rejected: log.rejected }
     },
-    [parseCSV],
+    [sanitizeString, sanitizeUrl],
   )
 
-  const handleJSONUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
+  // Shared sanitization path; finishes what the import worker could not sanitize without a DOM
+  const importSanitizers = useMemo<ImportSanitizers>(
+    () => ({ sanitizeString, sanitizeUrl, sanitizeHighlight, parseTagsAndFavorites }),
+    [sanitizeString, sanitizeUrl, sanitizeHighlight],
+  )
 
-    setLoading(true)
-    try {
-      const text = await file.text()
-      const parsedHighlights = JSON.parse(text) as ArticleWithHighlights[]
-      
-      // SECURITY: Sanitize all highlights content to prevent XSS attacks
-      const sanitizedHighlights = parsedHighlights.map(article => ({
-        url: sanitizeUrl(article.url || ''),
-        title: sanitizeString(article.title || ''),
-        highlights: article.highlights.map(highlight => ({
-          quote: sanitizeHighlight(highlight.quote || ''),
-          created_at: highlight.created_at || 0
-        }))
-      })).filter(article => article.url) // Filter out articles with invalid URLs
-      
-      setHighlightData(sanitizedHighlights)
-    } catch (error) {
-      console.error("Error parsing JSON:", error)
-    } finally {
-      setLoading(false)
-    }
-  }, [sanitizeUrl, sanitizeString, sanitizeHighlight])
+  // HTML exports need the DOM, so they are parsed here rather than in the import worker
+  const parseHTMLFile = useCallback(
+    (html: string): ParsedImport =>
+      isNetscapeBookmarks(html)
+        ? { format: "netscape-bookmarks", ...parseBookmarksHTML(html), highlights: [] }
+        : { format: "pocket-html", ...parsePocketHTML(html), highlights: [] },
+    [parsePocketHTML, parseBookmarksHTML],
+  )
 
-  const handleZipUpload = useCallback(
+  // Reads, unzips and parses an upload in the import worker, then stages the result for review.
+  // Every picker goes through here: ZIPs, article files (CSV/HTML) and highlight files (JSON/TXT/CSV).
+  const handleImportUpload = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0]
       if (!file) return
 
-      setZipLoading(true)
+      const controller = new AbortController()
+      importAbortRef.current = controller
+      setImportProgress({ phase: "reading", fileName: file.name, completed: 0, total: file.size, rowsParsed: 0 })
+      setImportRejections(null)
       try {
-        const zip = new JSZip()
-        const zipContent = await zip.loadAsync(file)
-
-        let csvFile: JSZip.JSZipObject | null = null
-        let jsonFile: JSZip.JSZipObject | null = null
-
-        // Look for CSV and JSON files
-        for (const filename of Object.keys(zipContent.files)) {
-          const file = zipContent.files[filename]
-          if (file && !file.dir) {
-            // Skip directories
-            const lowerName = filename.toLowerCase()
-            if (lowerName.endsWith(".csv") && !csvFile) {
-              csvFile = file
-            } else if (lowerName.endsWith(".json") && !jsonFile) {
-              jsonFile = file
-            }
+        const result = await startImportJob(file, { signal: controller.signal, onProgress: setImportProgress })
+
+        const errors: string[] = []
+        const parts: { name: string; parsed: ParsedImport }[] = []
+        for (const part of result.parts) {
+          if ("error" in part) {
+            errors.push(`${part.name}: ${part.error}`)
+            continue
           }
-        }
-
-        // Process CSV file if found
-        if (csvFile && typeof csvFile.async === 'function') {
           try {
-            const csvText = await csvFile.async("text")
-            const parsedArticles = parseCSV(csvText)
-            if (parsedArticles.length > 0) {
-              setArticles(parsedArticles)
-            }
+            // SECURITY: Fields with markup still need DOMPurify, which only runs here
+            const parsed = "html" in part ? parseHTMLFile(part.html) : completeSanitizing(part.parsed, importSanitizers)
+            parts.push({ name: part.name, parsed })
           } catch (error) {
-            console.error("Error parsing CSV from ZIP:", error)
-            alert(`Error parsing CSV file: ${error instanceof Error ? error.message : "Unknown error"}`)
+            console.error(`Error parsing ${part.name}:`, error)
+            errors.push(`${part.name}: ${error instanceof Error ? error.message : "Unknown error"}`)
           }
         }
 
-        // Process JSON file if found
-        if (jsonFile && typeof jsonFile.async === 'function') {
-          try {
-            const jsonText = await jsonFile.async("text")
-            const parsedHighlights = JSON.parse(jsonText) as ArticleWithHighlights[]
-            setHighlightData(parsedHighlights)
-          } catch (error) {
-            console.error("Error parsing JSON from ZIP:", error)
-            alert(`Error parsing JSON file: ${error instanceof Error ? error.message : "Unknown error"}`)
-          }
+        const merged = mergeImportParts(parts)
+        // Parse stats describe article rows, so they are shown whenever an articles file was read
+        const hasArticleParts = parts.some(({ parsed }) => parsed.format !== "pocket-highlights-json")
+
+        // Stage the results so the user can review them before they are committed
+        if (result.fileCount === 0) {
+          errors.push("No CSV, HTML, JSON or clippings files found in the ZIP archive.")
+        } else if (merged.articles.length === 0 && merged.highlights.length === 0 && errors.length === 0) {
+          errors.push(`No valid articles or highlights found in ${file.name}.`)
         }
 
-        // Show results
-        if (!csvFile && !jsonFile) {
-          alert("No CSV or JSON files found in the ZIP archive.")
-        } else {
-          const messages = []
-          if (csvFile) messages.push("articles CSV")
-          if (jsonFile) messages.push("highlights JSON")
-          alert(`Successfully imported ${messages.join(" and ")} from ZIP file.`)
+        setPendingImport({
+          source: file.name,
+          articles: merged.articles.length > 0 || hasArticleParts ? merged.articles : undefined,
+          highlights: merged.highlights.length > 0 ? merged.highlights : undefined,
+          parseStats: merged.articles.length > 0 || hasArticleParts ? merged.stats : undefined,
+          report: merged.report,
+          errors,
+        })
+        if (merged.rejected.length > 0) {
+          setImportRejections({ source: file.name, rows: merged.rejected })
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.log("📥 Import cancelled:", file.name)
+          return
+        }
+        console.error("Error importing file:", error)
+        setPendingImport({
+          source: file.name,
+          report: [],
+          errors: [`Error importing ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`],
+        })
+      } finally {
+        if (importAbortRef.current === controller) {
+          importAbortRef.current = null
+          setImportProgress(null)
+        }
+        // Allow selecting the same file again after a cancelled import
+        event.target.value = ""
+      }
+    },
+    [parseHTMLFile, importSanitizers],
+  )
+
+  // Stages a backup like an import, so it gets the same review and replace/merge/update choice
+  const handleBackupRestore = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      if (!file) return
+
+      setImportRejections(null)
+      try {
+        const backup = parseBackup(await file.text())
+        // SECURITY: A backup is untrusted input like any import
+        const parsed = completeSanitizing(backup.parsed, importSanitizers)
+        const merged = mergeImportParts([{ name: file.name, parsed }])
+
+        setRestorePreferences(true)
+        setPendingImport({
+          source: file.name,
+          articles: merged.articles,
+          highlights: merged.highlights.length > 0 ? merged.highlights : undefined,
+          parseStats: merged.stats,
+          report: [`Backup from ${new Date(backup.exportedAt).toLocaleString()}`, ...merged.report],
+          errors: merged.articles.length === 0 && merged.highlights.length === 0 ? ["The backup is empty."] : [],
+          preferences: Object.keys(backup.preferences).length > 0 ? backup.preferences : undefined,
+        })
+        if (merged.rejected.length > 0) {
+          setImportRejections({ source: file.name, rows: merged.rejected })
         }
       } catch (error) {
-        console.error("Error processing ZIP file:", error)
-        alert("Error processing ZIP file. Please make sure it's a valid ZIP archive.")
+        console.error("Error restoring backup:", error)
+        setPendingImport({
+          source: file.name,
+          report: [],
+          errors: [`Error restoring ${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`],
+        })
       } finally {
-        setZipLoading(false)
+        event.target.value = ""
       }
     },
-    [parseCSV],
+    [importSanitizers],
+  )
+
+  // Stops the running import; nothing has been staged yet, so the library stays as it was
+  const abortImportJob = useCallback(() => {
+    importAbortRef.current?.abort()
+  }, [])
+
+  const downloadRejectedRows = useCallback(() => {
+    if (!importRejections) return
+
+    const blob = new Blob([rejectedRowsToCSV(importRejections.rows)], { type: "text/csv;charset=utf-8" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${importRejections.source.replace(/\.[^.]+$/, "")}-rejected-rows.csv`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }, [importRejections])
+
+  // Preview of how the staged import combines with the library under the chosen mode
+  const pendingImportPreview = useMemo(() => {
+    if (!pendingImport) return null
+
+    // Dry-run diff against the current library, independent of the chosen mode
+    const existingUrls = new Set(articles.map((article) => normalizeUrl(article.url)))
+    const existingTags = new Set(articles.flatMap((article) => article.parsedTags))
+    const incomingArticles = pendingImport.articles || []
+    const newTags = new Set<string>()
+    let existingUrlCount = 0
+    for (const article of incomingArticles) {
+      if (existingUrls.has(normalizeUrl(article.url))) existingUrlCount++
+      article.parsedTags.forEach((tag) => {
+        if (!existingTags.has(tag)) newTags.add(tag)
+      })
+    }
+
+    return {
+      articles: incomingArticles.length > 0 ? mergeArticles(articles, incomingArticles, importMode) : null,
+      highlights: pendingImport.highlights ? mergeHighlights(highlightData, pendingImport.highlights, importMode) : null,
+      existingUrlCount,
+      newTags: Array.from(newTags).sort(),
+    }
+  }, [pendingImport, articles, highlightData, importMode])
+
+  // Applies the preferences restored from a backup; codecs this browser lacks are skipped
+  const applyPreferences = useCallback(
+    (preferences: Partial<BackupPreferences>) => {
+      if (preferences.itemsPerPage !== undefined) setItemsPerPage(preferences.itemsPerPage)
+      if (preferences.sortBy !== undefined) setSortBy(preferences.sortBy)
+      if (preferences.showUploadSection !== undefined) setShowUploadSection(preferences.showUploadSection)
+      if (preferences.showFilters !== undefined) setShowFilters(preferences.showFilters)
+      if (preferences.showStats !== undefined) setShowStats(preferences.showStats)
+      if (preferences.showStatsStrip !== undefined) setShowStatsStrip(preferences.showStatsStrip)
+      if (preferences.useCompression !== undefined) setUseCompression(preferences.useCompression)
+      if (preferences.importMode !== undefined) setImportMode(preferences.importMode)
+      if (preferences.uploadMode !== undefined) setUploadMode(preferences.uploadMode)
+      if (preferences.compressionCodec && availableCodecs.some((codec) => codec.id === preferences.compressionCodec)) {
+        setPreferredCodec(preferences.compressionCodec)
+        setCompressionCodec(preferences.compressionCodec)
+      }
+      if (preferences.snapshotRetention && SNAPSHOT_RETENTION_OPTIONS.includes(preferences.snapshotRetention)) {
+        changeSnapshotRetention(preferences.snapshotRetention)
+      }
+      setCurrentPage(1)
+    },
+    [availableCodecs, changeSnapshotRetention],
+  )
+
+  const confirmImport = useCallback(async () => {
+    if (!pendingImportPreview) return
+    if (!(await takeSnapshot(`Before import of ${pendingImport?.source ?? "files"}`))) return
+
+    recordOperation(`import of ${pendingImport?.source ?? "files"}`)
+    // Whole-library changes rewrite the stored library instead of diffing it
+    fullRewriteRef.current = true
+    if (pendingImportPreview.articles) {
+      setArticles(pendingImportPreview.articles.items)
+    }
+    if (pendingImportPreview.highlights) {
+      setHighlightData(pendingImportPreview.highlights.items)
+    }
+    if (pendingImport?.preferences && restorePreferences) {
+      applyPreferences(pendingImport.preferences)
+    }
+
+    console.log("📥 Import committed:", {
+      source: pendingImport?.source,
+      mode: importMode,
+      articles: pendingImportPreview.articles?.summary,
+      highlights: pendingImportPreview.highlights?.summary,
+    })
+    setPendingImport(null)
+  }, [pendingImportPreview, pendingImport, importMode, restorePreferences, applyPreferences, takeSnapshot, recordOperation])
+
+  const cancelImport = useCallback(() => {
+    setPendingImport(null)
+  }, [])
+
+  // Articles saved more than once under variants of the same URL
+  const duplicateGroups = useMemo(() => findDuplicateGroups(articles, highlightData), [articles, highlightData])
+
+  // Merges the given duplicate groups, or all of them; undo restores the copies
+  const mergeDuplicateGroups = useCallback(
+    (keys?: string[]) => {
+      const result = mergeDuplicates(articles, highlightData, keys)
+      if (result.merged === 0) return
+
+      recordOperation(result.merged === 1 ? "duplicate merge" : `merge of ${result.merged} duplicate groups`)
+      // Whole-library changes rewrite the stored library instead of diffing it
+      fullRewriteRef.current = true
+      setArticles(result.articles)
+      setHighlightData(result.highlightData)
+      console.log("🔗 Duplicates merged:", { groups: result.merged, removed: result.removed })
+    },
+    [articles, highlightData, recordOperation],
   )
 
   const formatDate = (timestamp: number) => {
@@ -730,30 +2193,300 @@ export default function PocketImporter() {
   }, [articles])
 
   // Move this function definition up, right after the allUniqueTags useMemo
+  // Highlights can be stored under a variant of the article's URL (e.g. with utm_* parameters)
+  const highlightsByUrl = useMemo(() => {
+    const map = new Map<string, Highlight[]>()
+    highlightData.forEach((item) => {
+      const key = normalizeUrl(item.url)
+      map.set(key, [...(map.get(key) || []), ...item.highlights])
+    })
+    return map
+  }, [highlightData])
+
   const getHighlightsForArticle = (url: string) => {
-    return highlightData.find((item) => item.url === url)?.highlights || []
+    return highlightsByUrl.get(normalizeUrl(url)) || []
   }
 
-  // SECURITY: Title fetching temporarily disabled
-  // Previous implementation sent user URLs to external service (privacy/security risk)
-  // TODO: Implement server-side title fetching API route for secure title retrieval
-  const fetchTitleFromUrl = useCallback(async (url: string) => {
-    console.log(`🔒 Title fetching disabled for security. URL: ${url}`)
-    
-    // Show user notification that title fetching is disabled for security
-    alert(
-      "⚠️ Security Notice: Automatic title fetching is temporarily disabled to protect your privacy.\n\n" +
-      "Please manually enter the article title, or it will default to the URL.\n\n" +
-      "This prevents your article URLs from being sent to external services."
-    )
-    
-    return null // Return null to indicate no title was fetched
-  }, [])
+  // Function to check if an article needs a title (title is empty or same as URL)
+  const needsTitle = useCallback((article: Article) => {
+    return !article.title || article.title === article.url || article.title.trim() === ""
+  }, [])
+
+  // SECURITY: Titles come from our own /api/metadata route, never a third-party proxy.
+  // Article URLs are only sent after the user agrees once.
+  const confirmMetadataConsent = useCallback((count: number) => {
+    if (hasMetadataConsent()) return true
+
+    const granted = confirm(
+      `Fetching titles or saving articles for offline reading sends ${
+        count === 1 ? "the article URL" : `${count} article URLs`
+      } to this app's server, which loads the pages for you. The URLs are not stored or shared with anyone else.\n\n` +
+        "Allow page fetching?",
+    )
+    if (granted) setMetadataConsent(true)
+    return granted
+  }, [])
+
+  // Sets a fetched title unless the article got one in the meantime
+  const applyFetchedTitle = useCallback(
+    (article: Article, title: string) => {
+      // SECURITY: Page titles are untrusted input
+      const sanitizedTitle = sanitizeString(title)
+      if (!sanitizedTitle) return false
+
+      setArticles((prevArticles) =>
+        prevArticles.map((a) => (a.url === article.url && needsTitle(a) ? { ...a, title: sanitizedTitle } : a)),
+      )
+      const editedAt = Date.now()
+      localEditsRef.current.set(article.url, editedAt)
+      tabSyncRef.current?.post({
+        type: "article-updated",
+        previous: article,
+        article: { ...article, title: sanitizedTitle },
+        editedAt,
+      })
+      return true
+    },
+    [sanitizeString, needsTitle],
+  )
+
+  // A just-added article is already covered by the "new article" undo entry, hence recordUndo
+  const fetchTitleFromUrl = useCallback(
+    async (article: Article, recordUndo = true) => {
+      if (!confirmMetadataConsent(1)) return null
+
+      setFetchingTitles((prev) => new Set(prev).add(article.url))
+      try {
+        const result = await fetchPageMetadata(article.url)
+        if (!result.ok || !result.metadata.title) {
+          alert(`Could not fetch a title: ${result.ok ? "the page has no title" : result.error}`)
+          return null
+        }
+        if (recordUndo) recordOperation("title fetch")
+        return applyFetchedTitle(article, result.metadata.title) ? result.metadata.title : null
+      } finally {
+        setFetchingTitles((prev) => {
+          const next = new Set(prev)
+          next.delete(article.url)
+          return next
+        })
+      }
+    },
+    [confirmMetadataConsent, applyFetchedTitle, recordOperation],
+  )
+
+  // Fetches titles for every untitled article, a few at a time; undo reverts the whole batch
+  const fillMissingTitles = useCallback(async () => {
+    const untitled = articles.filter(needsTitle)
+    if (untitled.length === 0 || !confirmMetadataConsent(untitled.length)) return
+
+    const controller = new AbortController()
+    titleFillAbortRef.current = controller
+    recordOperation(`title fill for ${untitled.length} articles`)
+    const byUrl = new Map(untitled.map((article) => [article.url, article]))
+    const progress = { done: 0, filled: 0, total: untitled.length }
+    setTitleFill({ ...progress })
+
+    try {
+      await fetchMetadataBatch(
+        untitled.map((article) => article.url),
+        {
+          signal: controller.signal,
+          onResult: (url, result) => {
+            progress.done++
+            const article = byUrl.get(url)
+            if (article && result.ok && result.metadata.title && applyFetchedTitle(article, result.metadata.title)) {
+              progress.filled++
+            } else if (!result.ok) {
+              console.warn(`Title fetch failed for ${url}: ${result.error}`)
+            }
+            setTitleFill({ ...progress })
+          },
+        },
+      )
+      alert(`Found titles for ${progress.filled} of ${progress.total} articles.`)
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Error filling titles:", error)
+        alert("Title fetching stopped because of an error. Titles found so far were kept.")
+      }
+    } finally {
+      titleFillAbortRef.current = null
+      setTitleFill(null)
+    }
+  }, [articles, needsTitle, confirmMetadataConsent, recordOperation, applyFetchedTitle])
+
+  const untitledCount = useMemo(() => articles.filter(needsTitle).length, [articles, needsTitle])
+  const brokenLinkCount = useMemo(() => articles.filter(isBrokenLink).length, [articles])
+
+  // Checks every article's link through this app's server; undo reverts the whole batch of results
+  const checkLinkHealth = useCallback(async () => {
+    if (articles.length === 0 || !confirmMetadataConsent(articles.length)) return
+
+    const controller = new AbortController()
+    linkCheckAbortRef.current = controller
+    recordOperation(`link check for ${articles.length} articles`)
+    const byUrl = new Map(articles.map((article) => [article.url, article]))
+    const progress = { done: 0, broken: 0, total: articles.length }
+    setLinkCheck({ ...progress })
+
+    try {
+      await checkLinks(articles, {
+        wayback: linkCheckWayback,
+        signal: controller.signal,
+        onResults: (results) => {
+          const updates = new Map<string, LinkHealth>()
+          for (const { url, health } of results) {
+            const previous = byUrl.get(url)
+            if (!previous) continue
+            // SECURITY: Redirect targets and snapshot links end up as hrefs; only http(s) is kept
+            const finalUrl = health.finalUrl ? sanitizeUrl(health.finalUrl) : ""
+            const waybackUrl = health.waybackUrl ? sanitizeUrl(health.waybackUrl) : ""
+            const linkHealth: LinkHealth = {
+              status: health.status,
+              httpStatus: health.httpStatus,
+              checkedAt: health.checkedAt,
+              ...(finalUrl ? { finalUrl } : {}),
+              ...(waybackUrl ? { waybackUrl, waybackTimestamp: health.waybackTimestamp } : {}),
+            }
+            updates.set(url, linkHealth)
+            if (isBrokenLink({ ...previous, linkHealth })) progress.broken++
+          }
+          progress.done += results.length
+          setArticles((prev) =>
+            prev.map((a) => {
+              const linkHealth = updates.get(a.url)
+              return linkHealth ? { ...a, linkHealth } : a
+            }),
+          )
+          if (updates.size > 0) {
+            tabSyncRef.current?.post({
+              type: "link-health-updated",
+              results: Array.from(updates, ([url, linkHealth]) => ({ url, linkHealth })),
+            })
+          }
+          setLinkCheck({ ...progress })
+        },
+      })
+      alert(`Checked ${progress.done} links: ${progress.broken} no longer work.`)
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Error checking links:", error)
+        alert(
+          `Link checking stopped: ${error instanceof Error ? error.message : "unknown error"}. Results so far were kept.`,
+        )
+      }
+    } finally {
+      linkCheckAbortRef.current = null
+      setLinkCheck(null)
+    }
+  }, [articles, linkCheckWayback, confirmMetadataConsent, recordOperation, sanitizeUrl])
+
+  // Downloads the article's page through this app's server and keeps its readable content in this browser
+  const saveArticleOffline = useCallback(
+    async (article: Article) => {
+      if (!archiveStore || !confirmMetadataConsent(1)) return
+
+      setArchivingUrls((prev) => new Set(prev).add(article.url))
+      try {
+        const result = await fetchArticleContent(article.url)
+        if (!result.ok) {
+          alert(`Could not save the article for offline reading: ${result.error}`)
+          return
+        }
+
+        // SECURITY: Pages are untrusted; DOMPurify builds their DOM, and the extracted content is sanitized again
+        const page = DOMPurify.sanitize(result.html, PAGE_PARSE_CONFIG)
+        const extracted = extractArticleContent(page, result.metadata)
+        if (extracted.wordCount === 0) {
+          alert("Could not find any readable text on this page.")
+          return
+        }
+
+        await archiveStore.save({
+          url: article.url,
+          sourceUrl: sanitizeUrl(result.metadata.url) || article.url,
+          title: sanitizeString(extracted.title) || article.title,
+          byline: sanitizeString(extracted.byline),
+          siteName: sanitizeString(result.metadata.siteName),
+          content: DOMPurify.sanitize(extracted.html, READER_SANITIZE_CONFIG),
+          wordCount: extracted.wordCount,
+          archivedAt: Date.now(),
+        })
+        await refreshArchiveIndex()
+        tabSyncRef.current?.post({ type: "archive-changed" })
+      } catch (error) {
+        console.error("❌ Failed to save article for offline reading:", error)
+        alert("Could not save the article for offline reading.")
+      } finally {
+        setArchivingUrls((prev) => {
+          const next = new Set(prev)
+          next.delete(article.url)
+          return next
+        })
+      }
+    },
+    [archiveStore, confirmMetadataConsent, sanitizeUrl, sanitizeString, refreshArchiveIndex],
+  )
+
+  const openReader = useCallback(
+    async (url: string) => {
+      if (!archiveStore) return
+      try {
+        const content = await archiveStore.load(url)
+        if (!content) {
+          alert("This article has no offline copy.")
+          await refreshArchiveIndex()
+          return
+        }
+        setReaderContent(content)
+      } catch (error) {
+        console.error("❌ Failed to open offline copy:", error)
+        alert("The offline copy could not be read. Save the article again to replace it.")
+      }
+    },
+    [archiveStore, refreshArchiveIndex],
+  )
+
+  const removeOfflineCopy = useCallback(
+    async (url: string) => {
+      if (!archiveStore) return
+      try {
+        await archiveStore.remove(url)
+        await refreshArchiveIndex()
+        tabSyncRef.current?.post({ type: "archive-changed" })
+        setReaderContent((current) => (current && archiveKey(current.url) === archiveKey(url) ? null : current))
+      } catch (error) {
+        console.error("❌ Failed to remove offline copy:", error)
+      }
+    },
+    [archiveStore, refreshArchiveIndex],
+  )
+
+  const updateReaderPreferences = useCallback(
+    (changes: Partial<ReaderPreferences>) => {
+      const next = { ...readerPreferences, ...changes }
+      setReaderPreferences(next)
+      setReaderPreferencesState(next)
+    },
+    [readerPreferences],
+  )
+
+  // Stored copies are sanitized when saved; storage can be edited outside the app, so they are sanitized again
+  const readerHtml = useMemo(
+    () => (readerContent ? DOMPurify.sanitize(readerContent.content, READER_SANITIZE_CONFIG) : ""),
+    [readerContent],
+  )
 
-  // Function to check if an article needs a title (title is empty or same as URL)
-  const needsTitle = useCallback((article: Article) => {
-    return !article.title || article.title === article.url || article.title.trim() === ""
-  }, [])
+  // Escape closes the reader view
+  useEffect(() => {
+    if (!readerContent) return
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setReaderContent(null)
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [readerContent])
 
   const availableTagsForCurrentFilters = useMemo(() => {
     // First, filter articles by search, favorites, and highlights (but not by tags)
@@ -773,7 +2506,9 @@ export default function PocketImporter() {
         (showReadOnly && article.status === "read") ||
         (showUnreadOnly && article.status === "unread")
 
-      return matchesSearch && matchesFavorites && matchesHighlights && matchesReadStatus
+      const matchesLinkHealth = !showBrokenOnly || isBrokenLink(article)
+
+      return matchesSearch && matchesFavorites && matchesHighlights && matchesReadStatus && matchesLinkHealth
     })
 
     // If no tags are selected, all tags from base filtered articles are available
@@ -803,6 +2538,7 @@ export default function PocketImporter() {
     showHighlightsOnly,
     showReadOnly,
     showUnreadOnly,
+    showBrokenOnly,
     selectedTags,
     highlightData,
   ])
@@ -829,7 +2565,11 @@ export default function PocketImporter() {
         (showReadOnly && article.status === "read") ||
         (showUnreadOnly && article.status === "unread")
 
-      return matchesSearch && matchesTags && matchesFavorites && matchesHighlights && matchesReadStatus
+      const matchesLinkHealth = !showBrokenOnly || isBrokenLink(article)
+
+      return (
+        matchesSearch && matchesTags && matchesFavorites && matchesHighlights && matchesReadStatus && matchesLinkHealth
+      )
     })
 
     // Apply sorting
@@ -859,10 +2599,59 @@ export default function PocketImporter() {
     showHighlightsOnly,
     showReadOnly,
     showUnreadOnly,
+    showBrokenOnly,
+    highlightData,
+    sortBy,
+  ])
+
+  // Selected articles in library order; URLs of articles removed since are ignored
+  const selectedArticles = useMemo(
+    () => (selectedUrls.size === 0 ? [] : articles.filter((article) => selectedUrls.has(article.url))),
+    [articles, selectedUrls],
+  )
+
+  const exportScope = useMemo(() => {
+    if (exportScopeKind === "view") {
+      return createExportScope("view", filteredArticles, highlightData, {
+        searchTerm,
+        tags: selectedTags,
+        favoritesOnly: showFavoritesOnly,
+        highlightsOnly: showHighlightsOnly,
+        readOnly: showReadOnly,
+        unreadOnly: showUnreadOnly,
+        brokenOnly: showBrokenOnly,
+        sortBy,
+      })
+    }
+    if (exportScopeKind === "selection" && selectedArticles.length > 0) {
+      return createExportScope("selection", selectedArticles, highlightData)
+    }
+    return createExportScope("library", articles, highlightData)
+  }, [
+    exportScopeKind,
+    articles,
+    filteredArticles,
+    selectedArticles,
     highlightData,
+    searchTerm,
+    selectedTags,
+    showFavoritesOnly,
+    showHighlightsOnly,
+    showReadOnly,
+    showUnreadOnly,
+    showBrokenOnly,
     sortBy,
   ])
 
+  const toggleArticleSelected = useCallback((url: string) => {
+    setSelectedUrls((prev) => {
+      const next = new Set(prev)
+      if (next.has(url)) next.delete(url)
+      else next.add(url)
+      return next
+    })
+  }, [])
+
   const startEditingTitle = useCallback((url: string, currentTitle: string) => {
     setEditingTitle(url)
     setEditTitleValue(currentTitle || url)
@@ -881,6 +2670,7 @@ export default function PocketImporter() {
         }
         
         console.log(`📝 Saving edited title for ${url}: "${sanitizedTitle}"`)
+        recordOperation("title edit")
 
         setArticles((prevArticles) => {
           const updatedArticles = prevArticles.map((article) =>
@@ -890,11 +2680,23 @@ export default function PocketImporter() {
           console.log(`✅ Updated articles state with edited title for ${url}`)
           return updatedArticles
         })
+
+        const previous = articles.find((article) => article.url === url)
+        if (previous) {
+          const editedAt = Date.now()
+          localEditsRef.current.set(url, editedAt)
+          tabSyncRef.current?.post({
+            type: "article-updated",
+            previous,
+            article: { ...previous, title: sanitizedTitle },
+            editedAt,
+          })
+        }
       }
       setEditingTitle(null)
       setEditTitleValue("")
     },
-    [editTitleValue, sanitizeString],
+    [editTitleValue, sanitizeString, articles, recordOperation],
   )
 
   const cancelEditingTitle = useCallback(() => {
@@ -925,6 +2727,8 @@ export default function PocketImporter() {
           quote: sanitizedQuote,
           created_at: Math.floor(Date.now() / 1000), // Unix timestamp
         }
+        const articleTitle = articles.find((a) => a.url === url)?.title || url
+        recordOperation("new highlight")
 
         setHighlightData((prevHighlights) => {
           const existingArticle = prevHighlights.find((item) => item.url === url)
@@ -936,22 +2740,22 @@ export default function PocketImporter() {
             )
           } else {
             // Create new article with highlight
-            const article = articles.find((a) => a.url === url)
             return [
               ...prevHighlights,
               {
                 url,
-                title: article?.title || url,
+                title: articleTitle,
                 highlights: [newHighlight],
               },
             ]
           }
         })
+        tabSyncRef.current?.post({ type: "highlight-added", url, title: articleTitle, highlight: newHighlight })
       }
       setAddingHighlight(null)
       setNewHighlightText("")
     },
-    [newHighlightText, articles, sanitizeHighlight],
+    [newHighlightText, articles, sanitizeHighlight, recordOperation],
   )
 
   // New function to cancel adding a highlight
@@ -987,8 +2791,9 @@ export default function PocketImporter() {
       return
     }
 
-    // Check if URL already exists
-    const existingArticle = articles.find((article) => article.url === newArticleUrl.trim())
+    // Check if URL already exists, ignoring tracking parameters, http vs https, "www." and trailing slashes
+    const url = canonicalizeUrl(newArticleUrl)
+    const existingArticle = articles.find((article) => normalizeUrl(article.url) === normalizeUrl(url))
     if (existingArticle) {
       alert("An article with this URL already exists.")
       return
@@ -1005,8 +2810,8 @@ export default function PocketImporter() {
 
       // Create new article
       const newArticle: Article = {
-        title: newArticleTitle.trim() || newArticleUrl.trim(),
-        url: newArticleUrl.trim(),
+        title: newArticleTitle.trim() || url,
+        url,
         time_added: Math.floor(Date.now() / 1000), // Current timestamp
         tags: newArticleTags.trim(),
         status: "unread", // Always default to unread
@@ -1015,11 +2820,13 @@ export default function PocketImporter() {
       }
 
       // Add to articles list (at the beginning for newest first)
+      recordOperation("new article")
       setArticles((prevArticles) => [newArticle, ...prevArticles])
+      tabSyncRef.current?.post({ type: "article-added", article: newArticle })
 
       // If no title was provided, try to fetch it
       if (!newArticleTitle.trim()) {
-        fetchTitleFromUrl(newArticleUrl.trim())
+        fetchTitleFromUrl(newArticle, false)
       }
 
       // Reset form and close
@@ -1038,9 +2845,152 @@ export default function PocketImporter() {
     articles,
     fetchTitleFromUrl,
     cancelAddingArticle,
-    parseTagsAndFavorites,
+    recordOperation,
   ])
 
+  // Applies a change broadcast by another tab; reassigned after every render so it sees current state
+  useLayoutEffect(() => {
+    syncHandlerRef.current = (message: TabSyncMessage) => {
+      // A locked tab holds no data; it only needs to follow storage and encryption changes
+      if (isLocked && message.type !== "encryption-changed" && message.type !== "storage-changed") return
+
+      switch (message.type) {
+        case "article-updated": {
+          const { previous, article, editedAt } = message
+          const current = articles.find((a) => a.url === article.url)
+          if (!current) return
+
+          // Both tabs changed the title since the other tab last saw it: the newest edit wins in every tab
+          const changedHere = current.title !== previous.title && current.title !== article.title
+          const editingHere = editingTitle === article.url
+          const localEditedAt = localEditsRef.current.get(article.url) ?? 0
+
+          if (changedHere && localEditedAt > editedAt) {
+            setSyncConflicts((prev) => [
+              ...prev,
+              {
+                id: Date.now() + prev.length,
+                url: article.url,
+                title: current.title,
+                localVersion: null,
+                message:
+                  `was also edited in another tab (as \u201c${article.title}\u201d); ` + "your newer version was kept.",
+              },
+            ])
+            return
+          }
+
+          setArticles((prev) => prev.map((a) => (a.url === article.url ? { ...a, ...article } : a)))
+
+          if (changedHere || editingHere) {
+            setSyncConflicts((prev) => [
+              ...prev,
+              {
+                id: Date.now() + prev.length,
+                url: article.url,
+                title: article.title,
+                localVersion: changedHere ? current : null,
+                message: editingHere
+                  ? "was changed in another tab while you were editing it."
+                  : "was edited in another tab at the same time; their version was kept.",
+              },
+            ])
+          }
+          console.log("🔁 Applied article change from another tab:", article.url)
+          break
+        }
+        case "article-added":
+          setArticles((prev) => (prev.some((a) => a.url === message.article.url) ? prev : [message.article, ...prev]))
+          break
+        case "link-health-updated": {
+          // Only the check results are taken over, so edits made while the check ran are kept
+          const updates = new Map(message.results.map(({ url, linkHealth }) => [url, linkHealth]))
+          setArticles((prev) =>
+            prev.map((a) => {
+              const linkHealth = updates.get(a.url)
+              return linkHealth ? { ...a, linkHealth } : a
+            }),
+          )
+          break
+        }
+        case "highlight-added": {
+          const { url, title, highlight } = message
+          setHighlightData((prev) => {
+            const existing = prev.find((item) => item.url === url)
+            if (!existing) return [...prev, { url, title, highlights: [highlight] }]
+            if (existing.highlights.some((h) => h.quote === highlight.quote && h.created_at === highlight.created_at)) {
+              return prev
+            }
+            return prev.map((item) =>
+              item.url === url ? { ...item, highlights: [...item.highlights, highlight] } : item,
+            )
+          })
+          break
+        }
+        case "library-replaced":
+          // The other tab already wrote the new library; read it back.
+          // Local history would undo the other tab's work, so it is dropped.
+          setUndoStack([])
+          setRedoStack([])
+          loadFromCache()
+          break
+        case "library-cleared":
+          setUndoStack([])
+          setRedoStack([])
+          setArticles([])
+          setHighlightData([])
+          setCacheInfo(null)
+          setShowUploadSection(true)
+          break
+        case "encryption-changed":
+          setArticles([])
+          setHighlightData([])
+          setCacheInfo(null)
+          // Dropping the key recreates the store and reloads; without a key, reload directly
+          if (encryptionKey) {
+            setEncryptionKey(null)
+          } else {
+            loadFromCache()
+          }
+          break
+        case "storage-changed":
+          setStorageBackend(getPreferredStorageBackend())
+          break
+        case "archive-changed":
+          refreshArchiveIndex()
+          break
+      }
+    }
+  })
+
+  // Keeps our version of an article whose concurrent edit was overwritten by another tab
+  const restoreLocalVersion = useCallback(
+    (conflictId: number) => {
+      const conflict = syncConflicts.find((c) => c.id === conflictId)
+      const current = conflict && articles.find((a) => a.url === conflict.url)
+      if (conflict?.localVersion && current) {
+        const restored = { ...current, title: conflict.localVersion.title }
+        const editedAt = Date.now()
+        localEditsRef.current.set(conflict.url, editedAt)
+        recordOperation("conflict resolution")
+        setArticles((prev) => prev.map((a) => (a.url === conflict.url ? restored : a)))
+        tabSyncRef.current?.post({ type: "article-updated", previous: current, article: restored, editedAt })
+      }
+      setSyncConflicts((prev) => prev.filter((c) => c.id !== conflictId))
+    },
+    [syncConflicts, articles, recordOperation],
+  )
+
+  useEffect(() => {
+    const sync = createTabSync(TAB_SYNC_CHANNEL, (message) => syncHandlerRef.current(message))
+    tabSyncRef.current = sync
+    console.log("🔁 Cross-tab sync ready:", { transport: sync.transport })
+    return () => {
+      sync.close()
+      tabSyncRef.current = null
+    }
+  }, [])
+
   // Tag management functions
   const parseTagsFromInput = useCallback((input: string) => {
     return input
@@ -1148,6 +3098,7 @@ export default function PocketImporter() {
     showHighlightsOnly,
     showReadOnly,
     showUnreadOnly,
+    showBrokenOnly,
     itemsPerPage,
     sortBy,
   ])
@@ -1247,6 +3198,52 @@ export default function PocketImporter() {
     )
   }
 
+  // SECURITY: Nothing is decrypted or rendered until the passphrase is entered
+  if (isLocked) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Lock className="h-5 w-5" />
+              Library Locked
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Your MyPocket Reader library is encrypted. Enter your passphrase to unlock it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault()
+                unlockLibrary()
+              }}
+            >
+              <Input
+                type="password"
+                placeholder="Passphrase"
+                value={unlockPassphrase}
+                onChange={(e) => setUnlockPassphrase(e.target.value)}
+                autoComplete="current-password"
+                autoFocus
+              />
+              {unlockError && <p className="text-sm text-destructive">{unlockError}</p>}
+              <Button type="submit" className="w-full" disabled={unlocking || !unlockPassphrase}>
+                {unlocking ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Unlock className="h-4 w-4 mr-2" />
+                )}
+                Unlock
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto py-4 sm:py-8 px-4">
@@ -1270,14 +3267,15 @@ export default function PocketImporter() {
             {/* Left side - Theme toggle and cache icon */}
             <div className="flex flex-wrap items-center gap-2">
               <ThemeToggle />
-              {cacheInfo && (
+              {/* The menu stays reachable after a clear so snapshots can be restored */}
+              {(cacheInfo || snapshots.length > 0) && (
                 <div className="relative">
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={() => setShowCacheMenu(!showCacheMenu)}
                     className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground"
-                    title={`Cached: ${formatCacheDate(cacheInfo.timestamp)} (${cacheInfo.size})`}
+                    title={cacheInfo ? `Cached: ${formatCacheDate(cacheInfo.timestamp)} (${cacheInfo.size})` : "Snapshots"}
                   >
                     <Database className="h-4 w-4" />
                   </Button>
@@ -1288,8 +3286,433 @@ export default function PocketImporter() {
                       <div className="space-y-3">
                         <div className="text-xs text-muted-foreground">
                           <div className="font-medium mb-1">Cache Information</div>
-                          <div>Cached: {formatCacheDate(cacheInfo.timestamp)}</div>
-                          <div>Size: {cacheInfo.size}</div>
+                          {cacheInfo ? (
+                            <>
+                              <div>Cached: {formatCacheDate(cacheInfo.timestamp)}</div>
+                              <div>Size: {cacheInfo.size}</div>
+                              {cacheInfo.originalSize && cacheInfo.compressionRatio !== undefined && cacheInfo.compressionRatio > 0 && (
+                                <div>
+                                  Uncompressed: {cacheInfo.originalSize} ({cacheInfo.compressionRatio.toFixed(1)}% saved)
+                                </div>
+                              )}
+                            </>
+                          ) : (
+                            <div>Library is empty</div>
+                          )}
+                          <div>Storage: {storageBackend === "indexedDB" ? "IndexedDB" : "localStorage"}</div>
+                        </div>
+
+                        {storageBackend && (
+                          <Button
+                            onClick={() => switchStorageBackend(storageBackend === "indexedDB" ? "localStorage" : "indexedDB")}
+                            variant="ghost"
+                            size="sm"
+                            disabled={switchingStorage}
+                            className="w-full justify-start text-xs h-7"
+                          >
+                            {switchingStorage ? (
+                              <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                            ) : (
+                              <Database className="h-3 w-3 mr-2" />
+                            )}
+                            Move to {storageBackend === "indexedDB" ? "localStorage" : "IndexedDB"}
+                          </Button>
+                        )}
+
+                        {/* Sync to server - with an account, or MYPOCKET_API_TOKEN set on the server */}
+                        <div className="border-t pt-3 space-y-2">
+                          <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            {serverSync.enabled ? <Cloud className="h-3 w-3 flex-shrink-0" /> : <CloudOff className="h-3 w-3 flex-shrink-0" />}
+                            <span className="break-words">
+                              {!serverSync.enabled
+                                ? "Not synced to a server"
+                                : serverSyncStatus.state === "syncing"
+                                  ? "Syncing with server..."
+                                  : serverSyncStatus.state === "error"
+                                    ? `Server sync failed: ${serverSyncStatus.message}`
+                                    : serverSyncStatus.state === "conflict"
+                                      ? "Server sync paused: both copies changed"
+                                      : serverSyncStatus.syncedAt
+                                        ? `Synced with server ${formatCacheDate(serverSyncStatus.syncedAt)}`
+                                        : "Synced to server"}
+                            </span>
+                          </div>
+
+                          {/* Account - offered when the server can send sign-in emails */}
+                          {account?.enabled &&
+                            (account.email ? (
+                              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                                <span className="truncate" title={account.email}>
+                                  Signed in as {account.email}
+                                </span>
+                                <Button onClick={signOutAccount} variant="ghost" size="sm" className="h-7 text-xs flex-shrink-0">
+                                  <LogOut className="h-3 w-3 mr-1" />
+                                  Sign out
+                                </Button>
+                              </div>
+                            ) : showSignInForm ? (
+                              <form
+                                className="space-y-2"
+                                onSubmit={(e) => {
+                                  e.preventDefault()
+                                  sendSignInLink()
+                                }}
+                              >
+                                <Input
+                                  type="email"
+                                  placeholder="you@example.com"
+                                  value={signInEmail}
+                                  onChange={(e) => setSignInEmail(e.target.value)}
+                                  autoComplete="email"
+                                  className="h-8 text-xs"
+                                  autoFocus
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                  We&apos;ll email you a sign-in link. The first time you sign in, this browser&apos;s
+                                  library is copied to your account.
+                                </p>
+                                <div className="flex gap-2">
+                                  <Button
+                                    type="submit"
+                                    size="sm"
+                                    className="flex-1"
+                                    disabled={signInState === "sending" || !signInEmail.trim()}
+                                  >
+                                    {signInState === "sending" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                    Send link
+                                  </Button>
+                                  <Button
+                                    type="button"
+                                    onClick={() => setShowSignInForm(false)}
+                                    variant="outline"
+                                    size="sm"
+                                    className="flex-1"
+                                  >
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </form>
+                            ) : signInState === "sent" ? (
+                              <p className="text-xs text-muted-foreground">
+                                Check {signInEmail.trim()} for a sign-in link. It works once and expires in 15 minutes.
+                              </p>
+                            ) : (
+                              <Button
+                                onClick={() => setShowSignInForm(true)}
+                                variant="ghost"
+                                size="sm"
+                                disabled={isLocked}
+                                className="w-full justify-start text-xs h-7"
+                              >
+                                <Mail className="h-3 w-3 mr-2" />
+                                Sign in with email
+                              </Button>
+                            ))}
+
+                          {showServerSyncForm ? (
+                            <form
+                              className="space-y-2"
+                              onSubmit={(e) => {
+                                e.preventDefault()
+                                connectServerSync()
+                              }}
+                            >
+                              <Input
+                                type="password"
+                                placeholder="API token"
+                                value={serverTokenInput}
+                                onChange={(e) => setServerTokenInput(e.target.value)}
+                                autoComplete="off"
+                                className="h-8 text-xs"
+                                autoFocus
+                              />
+                              <p className="text-xs text-muted-foreground">
+                                The MYPOCKET_API_TOKEN set on this app&apos;s server. Your library stays in this browser too.
+                              </p>
+                              <div className="flex gap-2">
+                                <Button
+                                  type="submit"
+                                  size="sm"
+                                  className="flex-1"
+                                  disabled={connectingServer || !serverTokenInput.trim()}
+                                >
+                                  {connectingServer && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                  Connect
+                                </Button>
+                                <Button
+                                  type="button"
+                                  onClick={() => {
+                                    setShowServerSyncForm(false)
+                                    setServerTokenInput("")
+                                  }}
+                                  variant="outline"
+                                  size="sm"
+                                  className="flex-1"
+                                >
+                                  Cancel
+                                </Button>
+                              </div>
+                            </form>
+                          ) : serverSync.enabled ? (
+                            <div className="flex flex-col gap-1">
+                              <Button
+                                onClick={() => pushToServer({ articles, highlightData })}
+                                variant="ghost"
+                                size="sm"
+                                disabled={serverSyncStatus.state === "syncing" || serverSyncStatus.state === "conflict"}
+                                className="w-full justify-start text-xs h-7"
+                              >
+                                <RefreshCw className="h-3 w-3 mr-2" />
+                                Sync now
+                              </Button>
+                              <Button
+                                onClick={disconnectServerSync}
+                                variant="ghost"
+                                size="sm"
+                                className="w-full justify-start text-xs h-7"
+                              >
+                                <CloudOff className="h-3 w-3 mr-2" />
+                                Stop syncing
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              onClick={() => (account?.email ? syncWithAccount(account.email) : setShowServerSyncForm(true))}
+                              variant="ghost"
+                              size="sm"
+                              disabled={isLocked}
+                              className="w-full justify-start text-xs h-7"
+                            >
+                              <Cloud className="h-3 w-3 mr-2" />
+                              {account?.email ? "Sync with your account" : account?.enabled ? "Sync with an API token" : "Sync to server"}
+                            </Button>
+                          )}
+                        </div>
+
+                        {/* Compression codec, with a size and timing comparison on demand */}
+                        <div className="border-t pt-3 space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="text-xs text-muted-foreground">Compression</div>
+                            <Select value={compressionCodec} onValueChange={(value: CodecId) => changeCompressionCodec(value)}>
+                              <SelectTrigger className="w-36 h-7 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {availableCodecs.map((codec) => (
+                                  <SelectItem key={codec.id} value={codec.id}>
+                                    {codec.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {compressionMetadata?.durationMs !== undefined && compressionMetadata.durationMs > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              Compression time: {Math.round(compressionMetadata.durationMs)} ms
+                            </div>
+                          )}
+
+                          <Button
+                            onClick={compareCodecs}
+                            variant="ghost"
+                            size="sm"
+                            disabled={benchmarkingCodecs || (articles.length === 0 && highlightData.length === 0)}
+                            className="w-full justify-start text-xs h-7"
+                          >
+                            {benchmarkingCodecs ? (
+                              <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                            ) : (
+                              <BarChart3 className="h-3 w-3 mr-2" />
+                            )}
+                            Compare codecs
+                          </Button>
+
+                          {codecBenchmark && (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-muted-foreground">
+                                  <th className="text-left font-normal">Codec</th>
+                                  <th className="text-right font-normal">Size</th>
+                                  <th className="text-right font-normal">Saved</th>
+                                  <th className="text-right font-normal" title="Compress / decompress">
+                                    Time
+                                  </th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {codecBenchmark.map((result) => (
+                                  <tr key={result.codec} className={result.codec === compressionCodec ? "font-medium" : ""}>
+                                    <td>{result.label}</td>
+                                    <td className="text-right">{formatBytes(result.size)}</td>
+                                    <td className="text-right">{result.compressionRatio.toFixed(1)}%</td>
+                                    <td className="text-right">
+                                      {Math.round(result.compressMs)}/{Math.round(result.decompressMs)} ms
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+
+                        {/* Encryption controls */}
+                        <div className="border-t pt-3 space-y-2">
+                          <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            {encryptionConfig ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                            {encryptionConfig ? "Encrypted with passphrase" : "Not encrypted"}
+                          </div>
+
+                          {encryptionForm ? (
+                            <form
+                              className="space-y-2"
+                              onSubmit={(e) => {
+                                e.preventDefault()
+                                applyNewPassphrase()
+                              }}
+                            >
+                              <Input
+                                type="password"
+                                placeholder={encryptionForm === "rekey" ? "New passphrase" : "Passphrase"}
+                                value={passphraseInput}
+                                onChange={(e) => setPassphraseInput(e.target.value)}
+                                autoComplete="new-password"
+                                className="h-8 text-xs"
+                                autoFocus
+                              />
+                              <Input
+                                type="password"
+                                placeholder="Confirm passphrase"
+                                value={passphraseConfirm}
+                                onChange={(e) => setPassphraseConfirm(e.target.value)}
+                                autoComplete="new-password"
+                                className="h-8 text-xs"
+                              />
+                              <p className="text-xs text-muted-foreground">
+                                There is no way to recover a forgotten passphrase.
+                              </p>
+                              <div className="flex gap-2">
+                                <Button
+                                  type="submit"
+                                  size="sm"
+                                  className="flex-1"
+                                  disabled={updatingEncryption || !passphraseInput}
+                                >
+                                  {updatingEncryption && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                  {encryptionForm === "rekey" ? "Change" : "Encrypt"}
+                                </Button>
+                                <Button type="button" onClick={resetEncryptionForm} variant="outline" size="sm" className="flex-1">
+                                  Cancel
+                                </Button>
+                              </div>
+                            </form>
+                          ) : encryptionConfig ? (
+                            <div className="flex flex-col gap-1">
+                              <Button onClick={lockLibrary} variant="ghost" size="sm" className="w-full justify-start text-xs h-7">
+                                <Lock className="h-3 w-3 mr-2" />
+                                Lock now
+                              </Button>
+                              <Button
+                                onClick={() => setEncryptionForm("rekey")}
+                                variant="ghost"
+                                size="sm"
+                                className="w-full justify-start text-xs h-7"
+                              >
+                                <KeyRound className="h-3 w-3 mr-2" />
+                                Change passphrase
+                              </Button>
+                              <Button
+                                onClick={removeEncryption}
+                                variant="ghost"
+                                size="sm"
+                                disabled={updatingEncryption}
+                                className="w-full justify-start text-xs h-7"
+                              >
+                                <Unlock className="h-3 w-3 mr-2" />
+                                Remove encryption
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              onClick={() => setEncryptionForm("enable")}
+                              variant="ghost"
+                              size="sm"
+                              className="w-full justify-start text-xs h-7"
+                            >
+                              <KeyRound className="h-3 w-3 mr-2" />
+                              Encrypt with passphrase
+                            </Button>
+                          )}
+                        </div>
+
+                        {/* Snapshots taken automatically before imports and clears */}
+                        <div className="border-t pt-3 space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="text-xs text-muted-foreground flex items-center gap-1">
+                              <History className="h-3 w-3" />
+                              Snapshots
+                            </div>
+                            <Select
+                              value={String(snapshotRetention)}
+                              onValueChange={(value) => changeSnapshotRetention(Number(value))}
+                            >
+                              <SelectTrigger className="w-24 h-7 text-xs" title="Number of snapshots to keep">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SNAPSHOT_RETENTION_OPTIONS.map((option) => (
+                                  <SelectItem key={option} value={String(option)}>
+                                    Keep {option}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          {snapshots.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">
+                              A snapshot is saved before every import or clear.
+                            </p>
+                          ) : (
+                            <div className="space-y-1 max-h-48 overflow-y-auto">
+                              {snapshots.map((snapshot) => (
+                                <div key={snapshot.id} className="flex items-center gap-1 text-xs">
+                                  <div className="flex-1 min-w-0">
+                                    <div className="truncate" title={snapshot.label}>
+                                      {snapshot.label}
+                                    </div>
+                                    <div className="text-muted-foreground">
+                                      {formatCacheDate(snapshot.createdAt)} · {snapshot.articleCount.toLocaleString()} articles ·{" "}
+                                      {snapshot.highlightCount.toLocaleString()} highlights
+                                    </div>
+                                  </div>
+                                  <Button
+                                    onClick={() => restoreSnapshot(snapshot.id)}
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={restoringSnapshot !== null}
+                                    className="h-7 w-7 p-0"
+                                    title="Restore this snapshot"
+                                  >
+                                    {restoringSnapshot === snapshot.id ? (
+                                      <Loader2 className="h-3 w-3 animate-spin" />
+                                    ) : (
+                                      <RotateCcw className="h-3 w-3" />
+                                    )}
+                                  </Button>
+                                  <Button
+                                    onClick={() => deleteSnapshot(snapshot.id)}
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={restoringSnapshot !== null}
+                                    className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                                    title="Delete this snapshot"
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
 
                         <div className="flex flex-col gap-2">
@@ -1306,10 +3729,29 @@ export default function PocketImporter() {
                             Upload
                           </Button>
 
+                          {/* Export scope - every export below covers the library, the filtered view or the selection */}
                           {articles.length > 0 && (
+                            <Select
+                              value={exportScopeKind}
+                              onValueChange={(value) => setExportScopeKind(value as ExportScopeKind)}
+                            >
+                              <SelectTrigger className="w-full h-8 text-xs" title="What the exports below include">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="library">Export whole library ({articles.length})</SelectItem>
+                                <SelectItem value="view">Export current view ({filteredArticles.length})</SelectItem>
+                                <SelectItem value="selection" disabled={selectedArticles.length === 0}>
+                                  Export selection ({selectedArticles.length})
+                                </SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+
+                          {exportScope.articles.length > 0 && (
                             <Button
                               onClick={() => {
-                                downloadCachedData()
+                                downloadCachedData(exportScope)
                                 setShowCacheMenu(false)
                               }}
                               variant="outline"
@@ -1321,10 +3763,127 @@ export default function PocketImporter() {
                             </Button>
                           )}
 
+                          {exportScope.articles.length > 0 && (
+                            <div className="space-y-1">
+                              <Button
+                                onClick={() => {
+                                  downloadMarkdownVault(exportScope)
+                                  setShowCacheMenu(false)
+                                }}
+                                variant="outline"
+                                size="sm"
+                                className="w-full justify-start"
+                              >
+                                <NotebookText className="h-3 w-3 mr-2" />
+                                Export as Markdown vault
+                              </Button>
+                              <div className="flex items-center space-x-2 pl-1">
+                                <Checkbox
+                                  id="vault-highlights-only"
+                                  checked={vaultHighlightsOnly}
+                                  onCheckedChange={(checked) => setVaultHighlightsOnly(checked as boolean)}
+                                />
+                                <Label htmlFor="vault-highlights-only" className="text-xs text-muted-foreground cursor-pointer">
+                                  Only articles with highlights
+                                </Label>
+                              </div>
+                            </div>
+                          )}
+
+                          {exportScope.articles.length > 0 && (
+                            <Button
+                              onClick={() => {
+                                downloadBookmarks(exportScope)
+                                setShowCacheMenu(false)
+                              }}
+                              variant="outline"
+                              size="sm"
+                              className="w-full justify-start"
+                            >
+                              <Bookmark className="h-3 w-3 mr-2" />
+                              Export as bookmarks
+                            </Button>
+                          )}
+
+                          {(exportScope.articles.length > 0 || exportScope.highlightData.length > 0) && (
+                            <Button
+                              onClick={() => {
+                                downloadBackup(exportScope)
+                                setShowCacheMenu(false)
+                              }}
+                              variant="outline"
+                              size="sm"
+                              className="w-full justify-start"
+                            >
+                              <HardDriveDownload className="h-3 w-3 mr-2" />
+                              {exportScope.kind === "library" ? "Back up everything" : "Back up"}
+                            </Button>
+                          )}
+
+                          {duplicateGroups.length > 0 && (
+                            <Button
+                              onClick={() => {
+                                setShowDuplicates(true)
+                                setShowCacheMenu(false)
+                              }}
+                              variant="outline"
+                              size="sm"
+                              className="w-full justify-start"
+                            >
+                              <Copy className="h-3 w-3 mr-2" />
+                              Duplicates ({duplicateGroups.length})
+                            </Button>
+                          )}
+
+                          {untitledCount > 0 && (
+                            <Button
+                              onClick={() => {
+                                fillMissingTitles()
+                                setShowCacheMenu(false)
+                              }}
+                              variant="outline"
+                              size="sm"
+                              disabled={titleFill !== null}
+                              className="w-full justify-start"
+                            >
+                              <Heading className="h-3 w-3 mr-2" />
+                              Fetch missing titles ({untitledCount})
+                            </Button>
+                          )}
+
+                          {articles.length > 0 && (
+                            <div className="space-y-1">
+                              <Button
+                                onClick={() => {
+                                  checkLinkHealth()
+                                  setShowCacheMenu(false)
+                                }}
+                                variant="outline"
+                                size="sm"
+                                disabled={linkCheck !== null}
+                                className="w-full justify-start"
+                              >
+                                <Activity className="h-3 w-3 mr-2" />
+                                Check links ({articles.length})
+                              </Button>
+                              <div className="flex items-center space-x-2 pl-1">
+                                <Checkbox
+                                  id="link-check-wayback"
+                                  checked={linkCheckWayback}
+                                  onCheckedChange={(checked) => setLinkCheckWayback(checked as boolean)}
+                                />
+                                <Label htmlFor="link-check-wayback" className="text-xs text-muted-foreground cursor-pointer">
+                                  Find Wayback snapshots for broken links
+                                </Label>
+                              </div>
+                            </div>
+                          )}
+
                           {showClearCacheConfirm ? (
                             <div className="space-y-2">
                               <div className="text-xs text-muted-foreground text-center">
-                                Are you sure? This will delete all cached data.
+                                Are you sure? This will delete all cached data
+                                {serverSync.enabled && ", including the copy on the server"}. A snapshot is saved first.
                               </div>
                               <div className="flex gap-2">
                                 <Button
@@ -1364,6 +3923,37 @@ export default function PocketImporter() {
                 </div>
               )}
 
+              {(undoStack.length > 0 || redoStack.length > 0) && (
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={undo}
+                    disabled={undoStack.length === 0}
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground"
+                    title={
+                      undoStack.length > 0 ? `Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : "Nothing to undo"
+                    }
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={redo}
+                    disabled={redoStack.length === 0}
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground"
+                    title={
+                      redoStack.length > 0
+                        ? `Redo ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)`
+                        : "Nothing to redo"
+                    }
+                  >
+                    <Redo2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+
               {/* Show upload/export buttons when no cache or upload section is visible */}
               {!cacheInfo && !showUploadSection && (
                 <div className="flex gap-2">
@@ -1372,7 +3962,7 @@ export default function PocketImporter() {
                     <span className="text-xs sm:text-sm">Upload</span>
                   </Button>
                   {articles.length > 0 && (
-                    <Button onClick={downloadCachedData} variant="outline" size="sm" className="bg-transparent">
+                    <Button onClick={() => downloadCachedData(exportScope)} variant="outline" size="sm" className="bg-transparent">
                       <Download className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                       <span className="text-xs sm:text-sm">Export</span>
                     </Button>
@@ -1391,6 +3981,141 @@ export default function PocketImporter() {
           </div>
         </div>
 
+        {/* Batch title fetch */}
+        {titleFill && (
+          <div className="mb-4 p-3 rounded-lg border bg-muted/30 text-sm space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 min-w-0">
+                <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+                Fetching titles: {titleFill.done} of {titleFill.total} ({titleFill.filled} found)
+              </span>
+              <Button
+                onClick={() => titleFillAbortRef.current?.abort()}
+                variant="outline"
+                size="sm"
+                className="h-7 bg-transparent"
+              >
+                Stop
+              </Button>
+            </div>
+            <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${Math.round((titleFill.done / titleFill.total) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Batch link check */}
+        {linkCheck && (
+          <div className="mb-4 p-3 rounded-lg border bg-muted/30 text-sm space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 min-w-0">
+                <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+                Checking links: {linkCheck.done} of {linkCheck.total} ({linkCheck.broken} broken)
+              </span>
+              <Button
+                onClick={() => linkCheckAbortRef.current?.abort()}
+                variant="outline"
+                size="sm"
+                className="h-7 bg-transparent"
+              >
+                Stop
+              </Button>
+            </div>
+            <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${Math.round((linkCheck.done / linkCheck.total) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* The library changed both here and on the server */}
+        {serverSync.enabled && serverSyncStatus.state === "conflict" && (
+          <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-950/30 text-sm">
+            <div className="flex items-start gap-2 min-w-0">
+              <Cloud className="h-4 w-4 mt-0.5 flex-shrink-0 text-yellow-600 dark:text-yellow-400" />
+              <span className="break-words">
+                {serverSyncStatus.message} Changes are saved in this browser but not sent until you choose which
+                library to keep.
+              </span>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button size="sm" variant="outline" className="h-7 text-xs bg-transparent" onClick={() => resolveServerConflict("server")}>
+                Use server&apos;s
+              </Button>
+              <Button size="sm" variant="outline" className="h-7 text-xs bg-transparent" onClick={() => resolveServerConflict("local")}>
+                Keep this browser&apos;s
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Conflicts with edits made in another tab */}
+        {syncConflicts.length > 0 && (
+          <div className="mb-4 space-y-2">
+            {syncConflicts.map((conflict) => (
+              <div
+                key={conflict.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-950/30 text-sm"
+              >
+                <div className="flex items-start gap-2 min-w-0">
+                  <RefreshCw className="h-4 w-4 mt-0.5 flex-shrink-0 text-yellow-600 dark:text-yellow-400" />
+                  <span className="break-words">
+                    <span className="font-medium">&ldquo;{conflict.title || conflict.url}&rdquo;</span> {conflict.message}
+                    {conflict.localVersion && (
+                      <span className="text-muted-foreground"> Your title was &ldquo;{conflict.localVersion.title}&rdquo;.</span>
+                    )}
+                  </span>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {conflict.localVersion && (
+                    <Button size="sm" variant="outline" className="h-7 text-xs bg-transparent" onClick={() => restoreLocalVersion(conflict.id)}>
+                      Keep mine
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs"
+                    onClick={() => setSyncConflicts((prev) => prev.filter((c) => c.id !== conflict.id))}
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Schema migration failure - stored data is left untouched */}
+        {schemaError && (
+          <Card className="mb-6 sm:mb-8 border-2 border-destructive/40 bg-destructive/5">
+            <CardHeader className="pb-4">
+              <CardTitle className="flex items-center gap-2 text-lg text-destructive">
+                <Database className="h-5 w-5" />
+                Your saved library could not be upgraded
+              </CardTitle>
+              <CardDescription className="text-sm break-words">{schemaError.message}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3 text-sm">
+                <p className="text-muted-foreground">
+                  The original data is still stored in your browser and will not be modified. Download a raw backup
+                  before trying anything else.
+                </p>
+                <Button onClick={downloadRawBackup} variant="outline" size="sm" className="bg-transparent">
+                  <Download className="h-3 w-3 mr-2" />
+                  Download raw backup
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Upload Section */}
         {showUploadSection && (
           <div className="space-y-4 sm:space-y-6 mb-6 sm:mb-8">
@@ -1421,6 +4146,235 @@ export default function PocketImporter() {
               </div>
             </div>
 
+            {/* Import Mode - how new files combine with the existing library */}
+            <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+              <Label htmlFor="import-mode" className="text-muted-foreground">
+                When importing:
+              </Label>
+              <Select value={importMode} onValueChange={(value: ImportMode) => setImportMode(value)}>
+                <SelectTrigger id="import-mode" className="w-64 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge (keep existing, add new)</SelectItem>
+                  <SelectItem value="update">Update (imported fields win)</SelectItem>
+                  <SelectItem value="replace">Replace the whole library</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Pending Import Summary - nothing is saved until confirmed */}
+            {pendingImport && pendingImportPreview && (
+              <Card className="border-2 border-primary/40">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Database className="h-5 w-5" />
+                    Review Import
+                  </CardTitle>
+                  <CardDescription className="text-sm break-all">
+                    {pendingImport.source}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {pendingImport.errors.length > 0 && (
+                      <div className="bg-destructive/10 text-destructive p-3 rounded-lg text-sm space-y-1">
+                        {pendingImport.errors.map((error, index) => (
+                          <p key={index} className="break-words">{error}</p>
+                        ))}
+                      </div>
+                    )}
+
+                    {pendingImport.parseStats && (
+                      <div className="bg-muted/30 p-3 rounded-lg text-sm space-y-1">
+                        <div className="font-medium">Parsed {pendingImport.parseStats.totalRows} rows</div>
+                        <div className="text-muted-foreground">
+                          {pendingImport.articles?.length || 0} valid articles
+                          {pendingImport.parseStats.invalidUrlRows > 0 &&
+                            `, ${pendingImport.parseStats.invalidUrlRows} dropped for unsafe or invalid URLs`}
+                          {pendingImport.parseStats.emptyRows > 0 &&
+                            `, ${pendingImport.parseStats.emptyRows} dropped without title or URL`}
+                        </div>
+                        {pendingImport.parseStats.warnings > 0 && (
+                          <div className="text-yellow-600 dark:text-yellow-400">
+                            {pendingImport.parseStats.warnings} CSV formatting warnings (see console)
+                          </div>
+                        )}
+                        {pendingImportPreview.existingUrlCount > 0 && (
+                          <div className="text-muted-foreground">
+                            {pendingImportPreview.existingUrlCount} URLs already exist in your library
+                          </div>
+                        )}
+                        {pendingImportPreview.newTags.length > 0 && (
+                          <div className="pt-1">
+                            <div className="text-muted-foreground mb-1">
+                              {pendingImportPreview.newTags.length} new tags:
+                            </div>
+                            <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+                              {pendingImportPreview.newTags.map((tag) => (
+                                <Badge key={tag} variant="outline" className="text-xs">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="grid sm:grid-cols-2 gap-3 text-sm">
+                      {pendingImportPreview.articles && (
+                        <div className="bg-muted/30 p-3 rounded-lg space-y-1">
+                          <div className="font-medium flex items-center gap-2">
+                            <FileText className="h-4 w-4" />
+                            Articles
+                          </div>
+                          <div className="text-green-600">{pendingImportPreview.articles.summary.added} added</div>
+                          <div className="text-blue-600 dark:text-blue-400">
+                            {pendingImportPreview.articles.summary.updated} updated
+                          </div>
+                          <div className="text-muted-foreground">{pendingImportPreview.articles.summary.skipped} skipped</div>
+                          {pendingImportPreview.articles.summary.removed > 0 && (
+                            <div className="text-destructive">
+                              {pendingImportPreview.articles.summary.removed} existing articles replaced
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {pendingImportPreview.highlights && (
+                        <div className="bg-muted/30 p-3 rounded-lg space-y-1">
+                          <div className="font-medium flex items-center gap-2">
+                            <HighlightIcon className="h-4 w-4" />
+                            Highlights
+                          </div>
+                          <div className="text-green-600">{pendingImportPreview.highlights.summary.added} added</div>
+                          <div className="text-muted-foreground">
+                            {pendingImportPreview.highlights.summary.skipped} duplicates skipped
+                          </div>
+                          {pendingImportPreview.highlights.summary.removed > 0 && (
+                            <div className="text-destructive">
+                              {pendingImportPreview.highlights.summary.removed} existing highlights replaced
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {pendingImport.report.length > 1 && (
+                      <ul className="text-xs text-muted-foreground space-y-0.5 max-h-32 overflow-y-auto">
+                        {pendingImport.report.map((line, index) => (
+                          <li key={index} className="break-all">{line}</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {pendingImport.preferences && (
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="restore-preferences"
+                          checked={restorePreferences}
+                          onCheckedChange={(checked) => setRestorePreferences(checked as boolean)}
+                        />
+                        <Label htmlFor="restore-preferences" className="text-sm cursor-pointer">
+                          Also restore preferences ({Object.keys(pendingImport.preferences).length} settings)
+                        </Label>
+                      </div>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={confirmImport}
+                        disabled={!pendingImportPreview.articles && !pendingImportPreview.highlights}
+                        className="flex-1 sm:flex-none"
+                      >
+                        <Check className="h-4 w-4 mr-2" />
+                        Confirm Import
+                      </Button>
+                      <Button onClick={cancelImport} variant="outline" className="flex-1 sm:flex-none bg-transparent">
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Rejected rows of the last import */}
+            {importRejections && (
+              <Card className="border-yellow-500/40">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between gap-2 text-base">
+                    <span>
+                      {importRejections.rows.length} rejected {importRejections.rows.length === 1 ? "row" : "rows"}
+                    </span>
+                    <Button
+                      onClick={() => setImportRejections(null)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      aria-label="Dismiss rejected rows"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </CardTitle>
+                  <CardDescription className="text-sm break-all">
+                    Rows from {importRejections.source} that could not be imported
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="text-xs space-y-1 max-h-48 overflow-y-auto">
+                    {importRejections.rows.slice(0, 100).map((row, index) => (
+                      <li key={index} className="break-words">
+                        <span className="text-muted-foreground">
+                          {row.file}
+                          {row.location && `, ${row.location}`}:
+                        </span>{" "}
+                        {row.reason}
+                      </li>
+                    ))}
+                  </ul>
+                  {importRejections.rows.length > 100 && (
+                    <p className="text-xs text-muted-foreground">
+                      Showing the first 100; the download has all {importRejections.rows.length}.
+                    </p>
+                  )}
+                  <Button onClick={downloadRejectedRows} variant="outline" size="sm" className="bg-transparent">
+                    <Download className="h-3 w-3 mr-2" />
+                    Download rejected rows (CSV)
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Progress of the running import */}
+            {importProgress && (
+              <div className="mb-4 space-y-2 rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-2 text-muted-foreground min-w-0">
+                    <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+                    <span className="truncate">{describeImportProgress(importProgress)}</span>
+                  </span>
+                  <Button onClick={abortImportJob} variant="outline" size="sm" className="bg-transparent shrink-0">
+                    <X className="h-3 w-3 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+                <div
+                  className="h-2 w-full overflow-hidden rounded-full bg-muted"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round((importProgress.completed / Math.max(importProgress.total, 1)) * 100)}
+                >
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${(importProgress.completed / Math.max(importProgress.total, 1)) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* ZIP Upload Mode */}
             {uploadMode === "zip" && (
               <Card className="border-2 border-dashed border-primary/20 bg-primary/5">
@@ -1431,7 +4385,9 @@ export default function PocketImporter() {
                   </CardTitle>
                   <CardDescription className="text-sm">
                     Upload a ZIP file containing your Pocket export files (CSV + JSON). We'll automatically detect and
-                    import both files for you.
+                    import every part, including large exports split across multiple files. The older ril_export.html
+                    export works too, as do browser bookmark files, Instapaper, Raindrop.io and Readwise CSV, Omnivore
+                    JSON and Kindle clippings.
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -1439,17 +4395,11 @@ export default function PocketImporter() {
                     <Input
                       id="zip-upload"
                       type="file"
-                      accept=".zip"
-                      onChange={handleZipUpload}
-                      disabled={loading || zipLoading}
+                      accept=".zip,.html,.htm"
+                      onChange={handleImportUpload}
+                      disabled={importProgress !== null || pendingImport !== null}
                       className="cursor-pointer"
                     />
-                    {zipLoading && (
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                        Processing ZIP file...
-                      </div>
-                    )}
                     {(articles.length > 0 || highlightData.length > 0) && (
                       <div className="space-y-2">
                         {articles.length > 0 && (
@@ -1478,18 +4428,21 @@ export default function PocketImporter() {
                   <CardHeader className="pb-4">
                     <CardTitle className="flex items-center gap-2 text-lg">
                       <FileText className="h-5 w-5" />
-                      Upload Articles CSV
+                      Upload Articles
                     </CardTitle>
-                    <CardDescription className="text-sm">Upload your Pocket articles export file</CardDescription>
+                    <CardDescription className="text-sm">
+                      Upload your Pocket articles export (CSV, or the older ril_export.html), a browser bookmarks
+                      HTML file, or an Instapaper or Raindrop.io CSV export
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
                       <Input
                         id="csv-upload"
                         type="file"
-                        accept=".csv"
-                        onChange={handleCSVUpload}
-                        disabled={loading || zipLoading}
+                        accept=".csv,.html,.htm"
+                        onChange={handleImportUpload}
+                        disabled={importProgress !== null || pendingImport !== null}
                       />
                       {articles.length > 0 && (
                         <p className="text-sm text-green-600">✓ Loaded {articles.length} articles</p>
@@ -1502,10 +4455,11 @@ export default function PocketImporter() {
                   <CardHeader className="pb-4">
                     <CardTitle className="flex items-center gap-2 text-lg">
                       <HighlightIcon className="h-5 w-5" />
-                      Upload Highlights JSON
+                      Upload Highlights
                     </CardTitle>
                     <CardDescription className="text-sm">
-                      Upload your Pocket highlights export file (optional)
+                      Upload your Pocket highlights export file (optional), an Omnivore JSON export, Kindle's My
+                      Clippings.txt or a Readwise CSV export
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -1513,9 +4467,9 @@ export default function PocketImporter() {
                       <Input
                         id="json-upload"
                         type="file"
-                        accept=".json"
-                        onChange={handleJSONUpload}
-                        disabled={loading || zipLoading}
+                        accept=".json,.txt,.csv"
+                        onChange={handleImportUpload}
+                        disabled={importProgress !== null || pendingImport !== null}
                       />
                       {highlightData.length > 0 && (
                         <p className="text-sm text-green-600">
@@ -1527,6 +4481,22 @@ export default function PocketImporter() {
                 </Card>
               </div>
             )}
+
+            {/* Restore a full backup */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+              <Label htmlFor="backup-restore" className="flex items-center gap-2 text-muted-foreground flex-shrink-0">
+                <ArchiveRestore className="h-4 w-4" />
+                Restore a {BACKUP_FILE_EXTENSION} backup
+              </Label>
+              <Input
+                id="backup-restore"
+                type="file"
+                accept={`${BACKUP_FILE_EXTENSION},.json`}
+                onChange={handleBackupRestore}
+                disabled={importProgress !== null || pendingImport !== null}
+                className="sm:max-w-xs"
+              />
+            </div>
           </div>
         )}
 
@@ -1693,6 +4663,76 @@ export default function PocketImporter() {
           </Card>
         )}
 
+        {/* Duplicates - articles saved under variants of the same URL */}
+        {showDuplicates && (
+          <Card className="mb-6 sm:mb-8">
+            <CardHeader className="pb-4">
+              <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                <span className="flex items-center gap-2">
+                  <Copy className="h-5 w-5" />
+                  Duplicates
+                </span>
+                <Button
+                  onClick={() => setShowDuplicates(false)}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  aria-label="Close duplicates"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </CardTitle>
+              <CardDescription className="text-sm">
+                Articles whose URLs differ only in tracking parameters, http vs https, &ldquo;www.&rdquo; or trailing
+                slashes. Merging keeps the oldest copy with all tags and highlights combined.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {duplicateGroups.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No duplicates left.</p>
+              ) : (
+                <>
+                  <Button onClick={() => mergeDuplicateGroups()} size="sm">
+                    Merge all {duplicateGroups.length} {duplicateGroups.length === 1 ? "group" : "groups"}
+                  </Button>
+                  <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {duplicateGroups.map((group) => (
+                      <div key={group.key} className="border rounded-md p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="text-sm font-medium break-words min-w-0">
+                            {group.articles.find((article) => article.title !== article.url)?.title ||
+                              group.articles[0].title}
+                          </div>
+                          <Button
+                            onClick={() => mergeDuplicateGroups([group.key])}
+                            variant="outline"
+                            size="sm"
+                            className="flex-shrink-0 bg-transparent"
+                          >
+                            Merge
+                          </Button>
+                        </div>
+                        <ul className="text-xs space-y-1">
+                          {group.articles.map((article, index) => (
+                            <li key={index} className="text-muted-foreground break-all">
+                              {formatDate(article.time_added)} · {article.url}
+                              {article.parsedTags.length > 0 && ` · ${article.parsedTags.join(", ")}`}
+                            </li>
+                          ))}
+                        </ul>
+                        {group.highlightCount > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {group.highlightCount} {group.highlightCount === 1 ? "highlight" : "highlights"}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         {/* Collapsible Statistics Strip - when articles exist */}
         {articles.length > 0 && (
@@ -1745,6 +4785,7 @@ export default function PocketImporter() {
                     setShowHighlightsOnly(false)
                     setShowReadOnly(false)
                     setShowUnreadOnly(false)
+                    setShowBrokenOnly(false)
                   }} className="cursor-pointer hover:bg-muted/50 p-1 sm:p-2 rounded transition-colors" title="Click to show all articles">
                     <div className="text-sm sm:text-base lg:text-lg font-bold text-blue-600 dark:text-blue-400">{stats.totalArticles}</div>
                     <div className="text-muted-foreground text-xs">Total</div>
@@ -1874,6 +4915,18 @@ export default function PocketImporter() {
                     <X className="h-3 w-3 sm:mr-1" />
                     <span className="hidden sm:inline">Unread</span>
                   </Button>
+                  {(brokenLinkCount > 0 || showBrokenOnly) && (
+                    <Button
+                      variant={showBrokenOnly ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setShowBrokenOnly(!showBrokenOnly)}
+                      className="h-7 sm:h-8 px-2 sm:px-3 text-xs sm:text-sm"
+                      title="Show articles whose links no longer work"
+                    >
+                      <Unlink className="h-3 w-3 sm:mr-1" />
+                      <span className="hidden sm:inline">Broken links ({brokenLinkCount})</span>
+                    </Button>
+                  )}
                   
                   {/* Stats toggle button - mobile only */}
                   <Button
@@ -2016,6 +5069,45 @@ export default function PocketImporter() {
         {articles.length > 0 && (
           <div className="space-y-4 sm:space-y-6">{/* This div will contain the articles list */}
 
+            {/* Articles picked for "Export selection" */}
+            {selectedArticles.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 p-2 rounded-md border bg-muted/30 text-sm">
+                <span className="font-medium">{selectedArticles.length} selected</span>
+                <Button
+                  onClick={() => setSelectedUrls(new Set(filteredArticles.map((article) => article.url)))}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                >
+                  Select all {filteredArticles.length} in view
+                </Button>
+                <Button
+                  onClick={() => {
+                    setSelectedUrls(new Set())
+                    if (exportScopeKind === "selection") setExportScopeKind("library")
+                  }}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                >
+                  Clear selection
+                </Button>
+                <Button
+                  onClick={() => {
+                    setExportScopeKind("selection")
+                    setShowCacheMenu(true)
+                    window.scrollTo({ top: 0, behavior: "smooth" })
+                  }}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs ml-auto bg-transparent"
+                >
+                  <Download className="h-3 w-3 mr-1" />
+                  Export selection
+                </Button>
+              </div>
+            )}
+
             {/* Articles List */}
             {/* Articles List - Masonry Layout */}
             <div
@@ -2024,9 +5116,12 @@ export default function PocketImporter() {
             >
               {paginatedArticles.map((article, index) => {
                 const highlights = getHighlightsForArticle(article.url)
-                const waybackMachineUrl = `https://web.archive.org/web/${article.url}`
+                const linkHealth = article.linkHealth
+                const waybackMachineUrl = linkHealth?.waybackUrl || `https://web.archive.org/web/${article.url}`
                 const isFetchingTitle = fetchingTitles.has(article.url)
                 const articleNeedsTitle = needsTitle(article)
+                const offlineCopy = archiveIndex.get(archiveKey(article.url))
+                const isArchiving = archivingUrls.has(article.url)
 
                 return (
                   <Card
@@ -2039,6 +5134,12 @@ export default function PocketImporter() {
                         <div className="space-y-2">
                           <div className="flex items-start justify-between gap-2">
                             <div className="flex items-start gap-2 flex-1 min-w-0">
+                              <Checkbox
+                                checked={selectedUrls.has(article.url)}
+                                onCheckedChange={() => toggleArticleSelected(article.url)}
+                                aria-label="Select for export"
+                                className="mt-0.5 flex-shrink-0"
+                              />
                               {article.isFavorite && (
                                 <Star className="h-4 w-4 text-yellow-500 fill-current flex-shrink-0 mt-0.5" />
                               )}
@@ -2095,12 +5196,11 @@ export default function PocketImporter() {
 
                             {/* Action buttons */}
                             <div className="flex gap-1 flex-shrink-0">
-                              {/* TODO: Implement server-side title fetching and re-enable this button. */}
-                              {/* {articleNeedsTitle && editingTitle !== article.url && (
+                              {articleNeedsTitle && editingTitle !== article.url && (
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => fetchTitleFromUrl(article.url)}
+                                  onClick={() => fetchTitleFromUrl(article)}
                                   disabled={isFetchingTitle}
                                   className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
                                   title={isFetchingTitle ? "Fetching title..." : "Fetch title from webpage"}
@@ -2111,7 +5211,7 @@ export default function PocketImporter() {
                                     <Heading className="h-3 w-3" />
                                   )}
                                 </Button>
-                              )} */}
+                              )}
                               {editingTitle !== article.url && (
                                 <Button
                                   variant="ghost"
@@ -2123,6 +5223,32 @@ export default function PocketImporter() {
                                   <Edit3 className="h-3 w-3" />
                                 </Button>
                               )}
+                              {offlineCopy ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => openReader(article.url)}
+                                  className="h-7 w-7 p-0 text-muted-foreground hover:text-foreground"
+                                  title={`Read offline copy (${offlineCopy.wordCount.toLocaleString()} words)`}
+                                >
+                                  <BookOpen className="h-3 w-3" />
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => saveArticleOffline(article)}
+                                  disabled={isArchiving}
+                                  className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                                  title={isArchiving ? "Saving for offline reading..." : "Save for offline reading"}
+                                >
+                                  {isArchiving ? (
+                                    <Loader2 className="h-3 w-3 animate-spin" />
+                                  ) : (
+                                    <BookDown className="h-3 w-3" />
+                                  )}
+                                </Button>
+                              )}
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -2133,7 +5259,11 @@ export default function PocketImporter() {
                                   href={waybackMachineUrl}
                                   target="_blank"
                                   rel="noopener noreferrer"
-                                  title="Open on Wayback Machine"
+                                  title={
+                                    linkHealth?.waybackUrl
+                                      ? "Open the closest snapshot on Wayback Machine"
+                                      : "Open on Wayback Machine"
+                                  }
                                 >
                                   <img
                                     src={theme === "dark" ? "/internet-archive-inverted.png" : "/internet-archive.svg"}
@@ -2158,6 +5288,29 @@ export default function PocketImporter() {
                               >
                                 {article.status}
                               </Badge>
+                              {linkHealth && linkHealth.status !== "ok" && (
+                                <Badge
+                                  variant="outline"
+                                  className={`text-xs h-4 px-1.5 ${
+                                    linkHealth.status === "restricted"
+                                      ? "text-muted-foreground"
+                                      : linkHealth.status === "moved"
+                                        ? "text-amber-600 dark:text-amber-400"
+                                        : "text-red-600 dark:text-red-400"
+                                  }`}
+                                  title={[
+                                    `${LINK_STATUS_LABELS[linkHealth.status]}${
+                                      linkHealth.httpStatus ? ` (HTTP ${linkHealth.httpStatus})` : ""
+                                    }`,
+                                    linkHealth.finalUrl ? `Now leads to ${linkHealth.finalUrl}` : "",
+                                    `Checked ${new Date(linkHealth.checkedAt).toLocaleString()}`,
+                                  ]
+                                    .filter(Boolean)
+                                    .join("\n")}
+                                >
+                                  {linkHealth.status === "broken" ? linkHealth.httpStatus : LINK_STATUS_LABELS[linkHealth.status]}
+                                </Badge>
+                              )}
                               {highlights.length > 0 && (
                                 <Badge
                                   variant="outline"
@@ -2215,7 +5368,10 @@ export default function PocketImporter() {
                                   className="bg-muted/30 p-3 rounded text-xs border-l-2 border-primary/30"
                                 >
                                   <p className="italic mb-2 leading-relaxed break-words">"{highlight.quote}"</p>
-                                  <p className="text-muted-foreground text-xs">{formatDate(highlight.created_at)}</p>
+                                  <p className="text-muted-foreground text-xs">
+                                    {formatDate(highlight.created_at)}
+                                    {highlight.location && ` · ${highlight.location}`}
+                                  </p>
                                 </div>
                               ))}
                             </div>
@@ -2434,6 +5590,111 @@ export default function PocketImporter() {
           </div>
         )}
 
+        {/* Reader view - renders the stored offline copy, so it needs no network */}
+        {readerContent && (
+          <div
+            className={`fixed inset-0 z-50 overflow-y-auto ${READER_THEME_CLASSES[readerPreferences.theme].page}`}
+            role="dialog"
+            aria-modal="true"
+            aria-label={readerContent.title}
+          >
+            <div className={`sticky top-0 z-10 border-b bg-inherit ${READER_THEME_CLASSES[readerPreferences.theme].border}`}>
+              <div className="max-w-4xl mx-auto flex flex-wrap items-center gap-1 px-4 py-2">
+                <Button variant="ghost" size="sm" onClick={() => setReaderContent(null)} className="h-8 px-2 text-xs">
+                  <X className="h-4 w-4 mr-1" />
+                  Close
+                </Button>
+                <div className="flex items-center gap-1 ml-auto">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateReaderPreferences({
+                        fontSize: READER_FONT_SIZES[Math.max(0, READER_FONT_SIZES.indexOf(readerPreferences.fontSize) - 1)],
+                      })
+                    }
+                    disabled={readerPreferences.fontSize === READER_FONT_SIZES[0]}
+                    className="h-8 w-8 p-0"
+                    title="Smaller text"
+                  >
+                    <AArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateReaderPreferences({
+                        fontSize:
+                          READER_FONT_SIZES[
+                            Math.min(READER_FONT_SIZES.length - 1, READER_FONT_SIZES.indexOf(readerPreferences.fontSize) + 1)
+                          ],
+                      })
+                    }
+                    disabled={readerPreferences.fontSize === READER_FONT_SIZES[READER_FONT_SIZES.length - 1]}
+                    className="h-8 w-8 p-0"
+                    title="Larger text"
+                  >
+                    <AArrowUp className="h-4 w-4" />
+                  </Button>
+                  <div className={`flex items-center border-l pl-1 ml-1 ${READER_THEME_CLASSES[readerPreferences.theme].border}`}>
+                    {READER_WIDTHS.map((width) => (
+                      <Button
+                        key={width}
+                        variant={readerPreferences.width === width ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => updateReaderPreferences({ width })}
+                        className="h-8 px-2 text-xs capitalize"
+                        title={`${width} column`}
+                      >
+                        {width}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className={`flex items-center border-l pl-1 ml-1 ${READER_THEME_CLASSES[readerPreferences.theme].border}`}>
+                    {READER_THEMES.map((readerTheme) => (
+                      <Button
+                        key={readerTheme}
+                        variant={readerPreferences.theme === readerTheme ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => updateReaderPreferences({ theme: readerTheme })}
+                        className="h-8 px-2 text-xs capitalize"
+                        title={`${readerTheme} theme`}
+                      >
+                        {readerTheme}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <article
+              className={`mx-auto px-4 sm:px-6 py-8 sm:py-12 ${READER_WIDTH_CLASSES[readerPreferences.width]}`}
+              style={{ fontSize: `${readerPreferences.fontSize}px` }}
+            >
+              <header className="mb-8 space-y-2">
+                <h1 className="text-[1.75em] font-bold leading-tight">{readerContent.title}</h1>
+                <p className="text-[0.8em] opacity-70">
+                  {[readerContent.byline, readerContent.siteName].filter(Boolean).join(" · ")}
+                  {readerContent.byline || readerContent.siteName ? " · " : ""}
+                  {Math.max(1, Math.round(readerContent.wordCount / READING_WORDS_PER_MINUTE))} min read
+                </p>
+                <p className="text-[0.7em] opacity-60 flex flex-wrap gap-x-3">
+                  <span>Saved {new Date(readerContent.archivedAt).toLocaleString()}</span>
+                  <a href={readerContent.sourceUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                    Original page
+                  </a>
+                  <button type="button" onClick={() => removeOfflineCopy(readerContent.url)} className="underline">
+                    Remove offline copy
+                  </button>
+                </p>
+              </header>
+              {/* SECURITY: readerHtml is sanitized with READER_SANITIZE_CONFIG when saved and again when opened */}
+              <div className="reader-content" dangerouslySetInnerHTML={{ __html: readerHtml }} />
+            </article>
+          </div>
+        )}
+
         {/* Click outside to close cache menu */}
         {showCacheMenu && (
           <div
@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+      // Next.js provides 'server-only' to server code; outside a build it is an empty module
+      'server-only': fileURLToPath(new URL('./node_modules/next/dist/compiled/server-only/empty.js', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts']
+  }
+});